@@ -6,7 +6,8 @@ import {
     Database,
     Cuboid,
     Network,
-    ExternalLink
+    ExternalLink,
+    XCircle
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { api } from '@/lib/api';
@@ -52,6 +53,9 @@ export function TransactionTracker({
     const [progress, setProgress] = useState(0);
     const [txDetails, setTxDetails] = useState<any>(null);
     const [isFinished, setIsFinished] = useState(false);
+    // Keyed by hash so a new txHash starts without a stale failure
+    const [failure, setFailure] = useState<{ hash: string; reason: string } | null>(null);
+    const failureReason = failure && failure.hash === txHash ? failure.reason : null;
 
     // Refs for queue management
     const targetStepRef = useRef(0);
@@ -128,6 +132,12 @@ export function TransactionTracker({
                     case 'confirmed': backendTarget = 3; break;
                     case 'failed':
                         clearInterval(pollInterval);
+                        setFailure({ hash: txHash, reason: tx.executionError || t('tracker.failed') });
+                        toast.error(t('tracker.failed'));
+                        return;
+                    case 'dropped':
+                        clearInterval(pollInterval);
+                        setFailure({ hash: txHash, reason: `${t('tx.replacedBy')}: ${tx.replacedBy}` });
                         toast.error(t('tracker.failed'));
                         return;
                 }
@@ -282,6 +292,25 @@ export function TransactionTracker({
                         })}
                     </div>
 
+                    {/* Failure Detail */}
+                    {failureReason && txHash && (
+                        <div className="space-y-3 animate-in fade-in slide-in-from-bottom-2">
+                            <div className="flex items-start gap-2 p-3 rounded-lg border border-red-200 bg-red-50 text-red-600">
+                                <XCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-medium">{t('tracker.failed')}</p>
+                                    <p className="text-xs font-mono break-all mt-1">{failureReason}</p>
+                                </div>
+                            </div>
+                            <Link to={`/tx/${txHash}`} onClick={() => onOpenChange(false)} className="w-full block">
+                                <Button variant="outline" className="w-full gap-2">
+                                    {t('tracker.viewDetail')}
+                                    <ExternalLink className="w-4 h-4" />
+                                </Button>
+                            </Link>
+                        </div>
+                    )}
+
                     {/* Completion Action */}
                     {isFinished && txHash && (
                         <div className="pt-2 animate-in fade-in slide-in-from-bottom-2">
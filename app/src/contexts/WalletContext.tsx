@@ -7,6 +7,7 @@
 import { useState, useCallback, useContext, createContext, useEffect, type ReactNode } from 'react';
 import { generateKeyPair, importKeyPairFromPrivateKey, publicKeyToAddress } from '@/lib/crypto';
 import { api } from '@/lib/api';
+import { lightClient } from '@/lib/light-client';
 
 interface Wallet {
   address: string;
@@ -15,6 +16,10 @@ interface Wallet {
   balance: string;
   nonce: number;
   pendingNonce?: number;
+  // Balance proven against a light-client verified stateRoot
+  verifiedBalance?: string;
+  verifiedHeight?: number;
+  verificationError?: string;
 }
 
 // LocalStorage Keys
@@ -109,8 +114,14 @@ export function WalletProvider({ children }: { children: ReactNode }) {
 
   const refreshWalletBalance = async (w: Wallet): Promise<Wallet> => {
     try {
-      const account = await api.getAccount(w.address);
-      return { ...w, balance: account.balance, nonce: account.nonce, pendingNonce: account.pendingNonce };
+      const [account, verified] = await Promise.all([
+        api.getAccount(w.address),
+        lightClient.getVerifiedAccount(w.address).catch((e: unknown) => e instanceof Error ? e : new Error(String(e))),
+      ]);
+      const verification = verified instanceof Error
+        ? { verifiedBalance: undefined, verifiedHeight: undefined, verificationError: verified.message }
+        : { verifiedBalance: verified.balance, verifiedHeight: verified.height, verificationError: undefined };
+      return { ...w, balance: account.balance, nonce: account.nonce, pendingNonce: account.pendingNonce, ...verification };
     } catch {
       return w;
     }
@@ -11,6 +11,22 @@ import type {
   NetworkStatus,
   HexString,
   Address,
+  AccountTransactionsQuery,
+  AccountTransactionsPage,
+  TransactionProof,
+  AccountAtHeight,
+  AccountBalanceHistory,
+  BlockStateDiff,
+  CommitCertificate,
+  EvidenceRecord,
+  SigningDomain,
+  HeadersResponse,
+  AccountProof,
+  SupplyInfo,
+  AccountVesting,
+  AccountStake,
+  ValidatorsInfo,
+  TransactionAction,
 } from '@/types';
 
 // 从环境变量获取 API 地址，如果未设置则使用默认值
@@ -54,6 +70,22 @@ class ApiClient {
     return this.fetch('/status');
   }
 
+  // Chain identity that versioned transaction signatures are bound to
+  async getSigningDomain(): Promise<SigningDomain> {
+    const { chainId, networkId } = await this.getNetworkStatus();
+    return { chainId, networkId };
+  }
+
+  // Lowest gas price the network accepts ('0' on networks without fees)
+  async getGasPrice(): Promise<string> {
+    const { minGasPrice } = await this.getNetworkStatus();
+    return minGasPrice ?? '0';
+  }
+
+  async getSupply(): Promise<SupplyInfo> {
+    return this.fetch('/supply');
+  }
+
   async getHealth(): Promise<{ status: string; service: string }> {
     const response = await fetch(`${this.baseUrl}/health`);
     return response.json();
@@ -90,6 +122,26 @@ class ApiClient {
     }
   }
 
+  async getBlockDiff(height: number): Promise<BlockStateDiff> {
+    return this.fetch(`/block/${height}/diff`);
+  }
+
+  async getCommitCertificate(height: number): Promise<CommitCertificate> {
+    return this.fetch(`/block/${height}/commit`);
+  }
+
+  // Headers with commit certificates for light-client sync (at most 100 per call)
+  async getHeaders(from: number, to?: number): Promise<HeadersResponse> {
+    const query = to === undefined ? `from=${from}` : `from=${from}&to=${to}`;
+    return this.fetch(`/headers?${query}`);
+  }
+
+  // Newest first
+  async getEvidence(limit: number = 50): Promise<EvidenceRecord[]> {
+    const result = await this.fetch<{ evidence: EvidenceRecord[] }>(`/evidence?limit=${limit}`);
+    return result.evidence || [];
+  }
+
   async getBlocks(page: number = 1, limit: number = 20): Promise<Block[]> {
     try {
       const status = await this.getNetworkStatus();
@@ -141,19 +193,30 @@ class ApiClient {
         blockHeight: result.blockHeight,
         blockHash: result.blockHash,
         confirmationTime: result.confirmationTime,
+        executionError: result.executionError,
+        fee: result.fee,
+        replacedBy: result.replacedBy,
       };
     }
     return result; // Fallback
   }
 
+  async getTransactionProof(txHash: HexString): Promise<TransactionProof> {
+    return this.fetch(`/tx/${txHash}/proof`);
+  }
+
   async submitTransaction(tx: {
     from: Address;
     to: Address;
     amount: string;
     nonce: number;
     timestamp: number; // Accept timestamp from caller
+    gasPrice: string;
+    gasLimit: string;
     signature: string;
+    signatureVersion?: number;
     publicKey: string;
+    action?: TransactionAction;
   }): Promise<{ txHash: string; estimatedConfirmationTime: number }> {
     return this.fetch('/tx/submit', {
       method: 'POST',
@@ -166,27 +229,77 @@ class ApiClient {
     return this.fetch(`/account/${address}`);
   }
 
+  async getAccountAtHeight(address: Address, height: number): Promise<AccountAtHeight> {
+    return this.fetch(`/account/${address}?height=${height}`);
+  }
+
+  async getAccountVesting(address: Address): Promise<AccountVesting> {
+    return this.fetch(`/account/${address}/vesting`);
+  }
+
+  async getAccountStake(address: Address): Promise<AccountStake> {
+    return this.fetch(`/account/${address}/stake`);
+  }
+
+  async getValidators(): Promise<ValidatorsInfo> {
+    return this.fetch('/validators');
+  }
+
+  async getAccountProof(address: Address, height?: number): Promise<AccountProof> {
+    const query = height === undefined ? '' : `?height=${height}`;
+    return this.fetch(`/account/${address}/proof${query}`);
+  }
+
+  async getAccountHistory(
+    address: Address,
+    query: { fromHeight?: number; toHeight?: number; limit?: number } = {}
+  ): Promise<AccountBalanceHistory> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined) params.set(key, String(value));
+    }
+    const qs = params.toString();
+    return this.fetch(`/account/${address}/history${qs ? `?${qs}` : ''}`);
+  }
+
+  async getAccountTransactionsPage(
+    address: Address,
+    query: AccountTransactionsQuery = {}
+  ): Promise<AccountTransactionsPage> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    }
+    const qs = params.toString();
+
+    const page = await this.fetch<{ transactions: any[]; nextCursor?: string }>(
+      `/account/${address}/txs${qs ? `?${qs}` : ''}`
+    );
+
+    // Backend returns TransactionReceipt[] (nested), flatten them similar to getTransaction.
+    return {
+      transactions: (page.transactions || []).map((r: any) => {
+        if (r.transaction) {
+          return {
+            ...r.transaction,
+            status: r.status,
+            blockHeight: r.blockHeight,
+            blockHash: r.blockHash,
+            confirmationTime: r.confirmationTime,
+            executionError: r.executionError,
+            fee: r.fee,
+          };
+        }
+        return r; // Should not happen with current backend
+      }),
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  // First page only (newest first); use getAccountTransactionsPage to paginate.
   async getAccountTransactions(address: Address): Promise<Transaction[]> {
-    const txs = await this.fetch<Transaction[]>(`/account/${address}/txs`);
-    // Backend returns TransactionReceipt[], verify and map if needed
-    // But since we fixed the backend to return `data` as the array, fetch returns `T`.
-    // However, the items are Receipts (nested). We need to flatten them similar to getTransaction.
-
-    // Actually, let's check the backend response. `handleQueryAccountTransactions` returns `data: data.transactions`
-    // where elements are `TransactionReceipt`.
-    // We should flatten them here for easier consumption in UI.
-    return (txs as any[]).map((r: any) => {
-      if (r.transaction) {
-        return {
-          ...r.transaction,
-          status: r.status,
-          blockHeight: r.blockHeight,
-          blockHash: r.blockHash,
-          confirmationTime: r.confirmationTime,
-        };
-      }
-      return r; // Should not happen with current backend
-    });
+    const page = await this.getAccountTransactionsPage(address);
+    return page.transactions;
   }
 
   // ==================== Faucet ====================
@@ -5,7 +5,20 @@
  * ============================================
  */
 
-import type { HexString, Signature, Address, TxHash, KeyPair } from '../types';
+import type {
+  HexString,
+  Signature,
+  Address,
+  TxHash,
+  BlockHash,
+  KeyPair,
+  MerkleProof,
+  CommitCertificate,
+  CommitVerification,
+  SigningDomain,
+  BlockHeader,
+  StateProof,
+} from '../types';
 import * as ed from '@noble/ed25519';
 import { sha512 } from '@noble/hashes/sha2.js';
 
@@ -70,8 +83,9 @@ export async function hashTransaction(tx: {
   gasPrice: string;
   gasLimit: string;
   publicKey: HexString; // Added publicKey to hash for uniqueness security
+  action?: string;
 }): Promise<TxHash> {
-  const txData = {
+  const txData: Record<string, unknown> = {
     from: tx.from.toLowerCase(),
     to: tx.to.toLowerCase(),
     amount: tx.amount,
@@ -81,9 +95,164 @@ export async function hashTransaction(tx: {
     gasLimit: tx.gasLimit,
     publicKey: tx.publicKey,
   };
+  // Only non-transfer actions are hashed, so transfer hashes are unchanged
+  if (tx.action && tx.action !== 'transfer') {
+    txData.action = tx.action;
+  }
   return sha256Hex(objectToBytes(txData));
 }
 
+// Round is only hashed after a view change and validatorSetHash only when present,
+// matching the backend hashBlock
+export async function hashBlock(header: BlockHeader): Promise<BlockHash> {
+  const headerData: Record<string, unknown> = {
+    height: header.height,
+    timestamp: header.timestamp,
+    prevHash: header.prevHash.toLowerCase(),
+    txRoot: header.txRoot.toLowerCase(),
+    stateRoot: header.stateRoot.toLowerCase(),
+    proposer: header.proposer,
+    txCount: header.txCount,
+  };
+  if (header.round) {
+    headerData.round = header.round;
+  }
+  if (header.validatorSetHash) {
+    headerData.validatorSetHash = header.validatorSetHash.toLowerCase();
+  }
+  return sha256Hex(objectToBytes(headerData));
+}
+
+// ============================================
+// Merkle Proofs (must match backend txRoot construction)
+// ============================================
+//
+// leaf = SHA-256(0x00 || txHash), node = SHA-256(0x01 || left || right).
+// The last node of an odd-sized level is promoted unchanged.
+
+async function hashMerkleLeaf(leaf: Uint8Array): Promise<Uint8Array> {
+  const data = new Uint8Array(1 + leaf.length);
+  data[0] = 0x00;
+  data.set(leaf, 1);
+  return sha256(data);
+}
+
+async function hashMerkleNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  const data = new Uint8Array(1 + left.length + right.length);
+  data[0] = 0x01;
+  data.set(left, 1);
+  data.set(right, 1 + left.length);
+  return sha256(data);
+}
+
+export async function verifyMerkleProof(
+  txHash: TxHash,
+  proof: MerkleProof,
+  root: HexString
+): Promise<boolean> {
+  try {
+    const { leafIndex, leafCount, siblings } = proof;
+    if (!Number.isInteger(leafIndex) || !Number.isInteger(leafCount)) return false;
+    if (leafIndex < 0 || leafIndex >= leafCount) return false;
+
+    let node = await hashMerkleLeaf(hexToBytes(txHash));
+    let index = leafIndex;
+    let size = leafCount;
+    let used = 0;
+
+    while (size > 1) {
+      const siblingIndex = index ^ 1;
+      if (siblingIndex < size) {
+        if (used >= siblings.length) return false;
+        const sibling = hexToBytes(siblings[used++]);
+        node = (index & 1) === 0
+          ? await hashMerkleNode(node, sibling)
+          : await hashMerkleNode(sibling, node);
+      }
+      index >>= 1;
+      size = Math.ceil(size / 2);
+    }
+
+    // Reject proofs carrying extra siblings
+    if (used !== siblings.length) return false;
+
+    return addHexPrefix(bytesToHex(node)) === addHexPrefix(root.toLowerCase());
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// State Proofs (must match backend state-tree)
+// ============================================
+//
+// Compact sparse Merkle tree keyed by SHA-256(`account:<address>`):
+// leaf = SHA-256(0x00 || key || valueHash), branch = SHA-256(0x01 || left || right),
+// empty subtree = 32 zero bytes.
+
+const EMPTY_STATE_ROOT: HexString = addHexPrefix('00'.repeat(32));
+
+async function hashStateNode(prefix: number, left: HexString, right: HexString): Promise<HexString> {
+  const a = hexToBytes(left);
+  const b = hexToBytes(right);
+  const data = new Uint8Array(1 + a.length + b.length);
+  data[0] = prefix;
+  data.set(a, 1);
+  data.set(b, 1 + a.length);
+  return addHexPrefix(bytesToHex(await sha256(data)));
+}
+
+function keyBit(key: HexString, depth: number): number {
+  const bytes = hexToBytes(key);
+  return (bytes[depth >> 3] >> (7 - (depth & 7))) & 1;
+}
+
+export async function accountStateKey(address: Address): Promise<HexString> {
+  return sha256Hex(`account:${address.toLowerCase()}`);
+}
+
+export async function hashAccountLeaf(balance: bigint, nonce: number): Promise<HexString> {
+  return sha256Hex(`account|${balance.toString(10)}|${nonce}`);
+}
+
+// valueHash === null proves the key is absent
+export async function verifyStateProof(
+  root: HexString,
+  key: HexString,
+  valueHash: HexString | null,
+  proof: StateProof
+): Promise<boolean> {
+  try {
+    if (proof.key !== key) return false;
+    if (valueHash === null) {
+      if (proof.leaf && proof.leaf.key === key) return false;
+    } else if (!proof.leaf || proof.leaf.key !== key || proof.leaf.valueHash !== valueHash) {
+      return false;
+    }
+
+    const depth = proof.siblings.length;
+    if (depth > 256) return false;
+
+    let node = EMPTY_STATE_ROOT;
+    if (proof.leaf) {
+      // The terminating leaf must sit on the key's path
+      for (let i = 0; i < depth; i++) {
+        if (keyBit(proof.leaf.key, i) !== keyBit(key, i)) return false;
+      }
+      node = await hashStateNode(0x00, proof.leaf.key, proof.leaf.valueHash);
+    }
+    for (let i = depth - 1; i >= 0; i--) {
+      const sibling = proof.siblings[i];
+      node = keyBit(key, i) === 0
+        ? await hashStateNode(0x01, node, sibling)
+        : await hashStateNode(0x01, sibling, node);
+    }
+    return node === root;
+  } catch {
+    return false;
+  }
+}
+
 // ============================================
 // Ed25519 Signing (Noble Implementation)
 // ============================================
@@ -148,6 +317,114 @@ export async function verifySignature(
   }
 }
 
+// ============================================
+// Commit Certificates (must match backend verifyCommit)
+// ============================================
+
+export function createBlockSignData(
+  blockHash: BlockHash,
+  domain?: SigningDomain,
+  type: 'vote' | 'proposal' = 'vote'
+): string {
+  if (domain) {
+    return createDomainSignData(type, domain, { blockHash });
+  }
+  return `block:${blockHash}`;
+}
+
+// Tries the versioned payload first; the legacy `block:<hash>` payload only
+// counts when no domain is given or the certificate predates activation.
+export async function verifyBlockSignature(
+  blockHash: BlockHash,
+  signature: Signature,
+  publicKey: HexString,
+  domain?: SigningDomain,
+  allowLegacy = true
+): Promise<boolean> {
+  if (domain && await verifySignature(createBlockSignData(blockHash, domain), signature, publicKey)) {
+    return true;
+  }
+  if (domain && !allowLegacy) return false;
+  return verifySignature(createBlockSignData(blockHash), signature, publicKey);
+}
+
+// Smallest weight strictly greater than 2/3 of the total
+export function quorumThreshold(totalWeight: bigint): bigint {
+  if (totalWeight <= 0n) return 1n;
+  return totalWeight - (totalWeight - 1n) / 3n;
+}
+
+export async function hashValidatorSet(set: {
+  members: Array<{ publicKey: HexString; weight: bigint | string }>;
+  stakeWeighted: boolean;
+}): Promise<HexString> {
+  const members = set.members
+    .map(m => `${m.publicKey.toLowerCase()}:${m.weight.toString()}`)
+    .sort();
+  return sha256Hex(`validator-set:${set.stakeWeighted ? 'stake' : 'equal'}:${members.join(',')}`);
+}
+
+// Checks the set hash against the caller's trusted set (never the set the
+// certificate declares), each signature, and recomputes the quorum threshold
+// instead of trusting the certificate's value. Legacy undomained votes only
+// count below signatureActivationHeight, not when the certificate says so.
+export async function verifyCommit(
+  certificate: CommitCertificate,
+  trustedValidatorSetHash: HexString,
+  signatureActivationHeight: number,
+  expectedDomain?: SigningDomain
+): Promise<CommitVerification> {
+  const weights = new Map(certificate.validatorSet.members.map(m => [m.publicKey.toLowerCase(), BigInt(m.weight)]));
+  const totalWeight = [...weights.values()].reduce((sum, weight) => sum + weight, 0n);
+  const result: CommitVerification = {
+    valid: false,
+    signers: 0,
+    validators: weights.size,
+    signedWeight: 0n,
+    totalWeight,
+    threshold: quorumThreshold(totalWeight),
+  };
+
+  if (certificate.quorumRule !== 'weight>2/3') {
+    return { ...result, error: `Unsupported quorum rule: ${certificate.quorumRule}` };
+  }
+
+  const setHash = await hashValidatorSet(certificate.validatorSet);
+  if (setHash !== certificate.validatorSetHash.toLowerCase()) {
+    return { ...result, error: 'Validator set hash mismatch' };
+  }
+  if (trustedValidatorSetHash.toLowerCase() !== setHash) {
+    return { ...result, error: 'Validator set is not trusted' };
+  }
+  if (expectedDomain && (
+    certificate.domain.chainId !== expectedDomain.chainId ||
+    certificate.domain.networkId !== expectedDomain.networkId
+  )) {
+    return { ...result, error: `Certificate is for chain ${certificate.domain.chainId}/${certificate.domain.networkId}` };
+  }
+
+  const signed = await Promise.all(certificate.signatures.map(async vote => {
+    const publicKey = vote.validatorPubKey.toLowerCase();
+    if (!weights.has(publicKey)) return undefined;
+    const valid = await verifyBlockSignature(
+      certificate.blockHash,
+      vote.signature,
+      vote.validatorPubKey,
+      certificate.domain,
+      certificate.height < signatureActivationHeight
+    );
+    return valid ? publicKey : undefined;
+  }));
+  const signers = new Set(signed.filter((key): key is string => key !== undefined));
+
+  result.signers = signers.size;
+  result.signedWeight = [...signers].reduce((sum, key) => sum + weights.get(key)!, 0n);
+  result.valid = result.signedWeight >= result.threshold;
+  if (!result.valid) {
+    result.error = `Insufficient voting power. Required: ${result.threshold}, got: ${result.signedWeight}`;
+  }
+  return result;
+}
 
 // ============================================
 // Address & Helper Functions
@@ -160,13 +437,52 @@ export function publicKeyToAddress(publicKey: HexString): Address {
   return addHexPrefix(address);
 }
 
-export function createSignData(tx: {
+// ============================================
+// Signing Payloads (must match backend createSignData / createBlockSignData)
+// ============================================
+//
+// Version 1 payloads add version, a type tag and the chain's signing domain so
+// a signature cannot be replayed on another chain or as another message type.
+// Payloads without a domain are the legacy (version 0) format.
+
+export const SIGNATURE_VERSION = 1;
+
+// Gas charged per transfer; the fee is gasPrice × gasLimit and goes to the proposer
+export const DEFAULT_GAS_LIMIT = '21000';
+
+export function transactionFee(gasPrice: string, gasLimit: string = DEFAULT_GAS_LIMIT): bigint {
+  return BigInt(gasPrice) * BigInt(gasLimit);
+}
+
+function createDomainSignData(
+  type: 'tx' | 'vote' | 'proposal',
+  domain: SigningDomain,
+  payload: Record<string, string | number>
+): string {
+  const data = {
+    ...payload,
+    version: SIGNATURE_VERSION,
+    type,
+    chainId: domain.chainId,
+    networkId: domain.networkId,
+  };
+  return JSON.stringify(data, Object.keys(data).sort());
+}
+
+// Gas fields and the action are only covered by versioned payloads; legacy
+// signatures predate fees and can only sign transfers
+export interface TransactionSignFields {
   from: string;
   to: string;
   amount: string;
   nonce: number;
   timestamp: number;
-}): string {
+  gasPrice: string;
+  gasLimit: string;
+  action?: string;
+}
+
+export function createSignData(tx: TransactionSignFields, domain?: SigningDomain): string {
   const data = {
     from: tx.from.toLowerCase(),
     to: tx.to.toLowerCase(),
@@ -174,20 +490,22 @@ export function createSignData(tx: {
     nonce: tx.nonce,
     timestamp: tx.timestamp,
   };
+  if (domain) {
+    const payload: Record<string, string | number> = { ...data, gasPrice: tx.gasPrice, gasLimit: tx.gasLimit };
+    if (tx.action && tx.action !== 'transfer') {
+      payload.action = tx.action;
+    }
+    return createDomainSignData('tx', domain, payload);
+  }
   return JSON.stringify(data, Object.keys(data).sort());
 }
 
 export async function signTransaction(
-  tx: {
-    from: string;
-    to: string;
-    amount: string;
-    nonce: number;
-    timestamp: number;
-  },
-  privateKeyHex: HexString
+  tx: TransactionSignFields,
+  privateKeyHex: HexString,
+  domain?: SigningDomain
 ): Promise<Signature> {
-  const signData = createSignData(tx);
+  const signData = createSignData(tx, domain);
   return signWithPrivateKey(signData, privateKeyHex);
 }
 
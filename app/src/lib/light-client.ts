@@ -0,0 +1,283 @@
+/**
+ * ============================================
+ * Light Client (must match backend src/light-client.ts)
+ * ============================================
+ *
+ * Verifies headers from genesis forward instead of trusting the API gateway:
+ * each header must hash correctly, link to its parent and carry a commit
+ * certificate signed by more than 2/3 of its validator set. A new validator set
+ * is only accepted if the header commits to it (validatorSetHash is part of the
+ * block hash) and members of the previously trusted set holding more than 1/3
+ * of its weight signed that header. Balances are then checked against the verified
+ * stateRoot with a state proof.
+ */
+
+import type {
+  Address,
+  BlockHash,
+  BlockHeader,
+  CommitCertificate,
+  CommitVerification,
+  HexString,
+  SignedHeader,
+  SigningDomain,
+  ValidatorSet,
+  AccountProof,
+  TransactionProof,
+} from '@/types';
+import { api } from '@/lib/api';
+import {
+  hashBlock,
+  hashValidatorSet,
+  verifyBlockSignature,
+  verifyCommit,
+  verifyMerkleProof,
+  accountStateKey,
+  hashAccountLeaf,
+  verifyStateProof,
+} from '@/lib/crypto';
+
+export interface LightClientOptions {
+  // Trust-on-first-use when omitted
+  trustedGenesisHash?: BlockHash;
+  // The height-1 certificate's validator set must hash to this
+  trustedValidatorSetHash: HexString;
+  // Certificates for any other chain are rejected
+  domain: SigningDomain;
+  // Votes below this height may use the legacy undomained payload (default 0)
+  signatureActivationHeight?: number;
+}
+
+export interface VerifiedHeader {
+  height: number;
+  hash: BlockHash;
+  header: BlockHeader;
+  // Set that committed the block (absent for genesis)
+  validatorSetHash?: HexString;
+}
+
+export interface VerifiedAccount {
+  address: Address;
+  balance: string;
+  nonce: number;
+  exists: boolean;
+  height: number;
+}
+
+// Strictly more than 1/3 of the trusted set's weight
+function trustThreshold(totalWeight: bigint): bigint {
+  return totalWeight / 3n + 1n;
+}
+
+export class LightClient {
+  private options: LightClientOptions;
+  private headers = new Map<number, VerifiedHeader>();
+  private latest?: VerifiedHeader;
+  private validatorSet?: { hash: HexString; set: ValidatorSet };
+  private syncing?: Promise<VerifiedHeader>;
+
+  constructor(options: LightClientOptions) {
+    this.options = options;
+  }
+
+  get latestHeader(): VerifiedHeader | undefined {
+    return this.latest;
+  }
+
+  get trustedValidatorSet(): ValidatorSet | undefined {
+    return this.validatorSet?.set;
+  }
+
+  getHeader(height: number): VerifiedHeader | undefined {
+    return this.headers.get(height);
+  }
+
+  // Concurrent callers share one sync so headers are verified in order
+  sync(targetHeight?: number): Promise<VerifiedHeader> {
+    if (!this.syncing) {
+      this.syncing = this.syncHeaders(targetHeight).finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  // Checks a certificate against the validator set this client verified for
+  // that height, syncing up to it first, instead of the set it declares
+  async verifyFinality(certificate: CommitCertificate): Promise<CommitVerification> {
+    if (!this.headers.has(certificate.height)) {
+      await this.sync(certificate.height);
+    }
+    const verified = this.headers.get(certificate.height);
+    if (!verified?.validatorSetHash || verified.hash !== certificate.blockHash) {
+      throw new Error(`No verified header for block ${certificate.blockHash} at height ${certificate.height}`);
+    }
+    return verifyCommit(certificate, verified.validatorSetHash, this.signatureActivationHeight, this.options.domain);
+  }
+
+  async verifyTransaction(proof: TransactionProof): Promise<boolean> {
+    const verified = this.headers.get(proof.blockHeight);
+    if (!verified || verified.hash !== proof.blockHash) return false;
+    return verifyMerkleProof(proof.txHash, proof, verified.header.txRoot);
+  }
+
+  async verifyAccountProof(proof: AccountProof): Promise<boolean> {
+    const verified = this.headers.get(proof.height);
+    if (!verified || verified.hash !== proof.blockHash || verified.header.stateRoot !== proof.stateRoot) {
+      return false;
+    }
+    const key = await accountStateKey(proof.address);
+    const valueHash = proof.exists ? await hashAccountLeaf(BigInt(proof.balance), proof.nonce) : null;
+    return verifyStateProof(verified.header.stateRoot, key, valueHash, proof.proof);
+  }
+
+  async getVerifiedAccount(address: Address): Promise<VerifiedAccount> {
+    const { height } = await this.sync();
+    const proof = await api.getAccountProof(address.toLowerCase(), height);
+    if (!(await this.verifyAccountProof(proof))) {
+      throw new Error(`Invalid state proof for ${address} at height ${height}`);
+    }
+    return {
+      address: proof.address,
+      balance: proof.exists ? proof.balance : '0',
+      nonce: proof.exists ? proof.nonce : 0,
+      exists: proof.exists,
+      height,
+    };
+  }
+
+  private async syncHeaders(targetHeight?: number): Promise<VerifiedHeader> {
+    let next = this.latest ? this.latest.height + 1 : 0;
+
+    while (targetHeight === undefined || next <= targetHeight) {
+      const page = await api.getHeaders(next, targetHeight).catch(error => {
+        // The gateway answers 404 once we are already at the tip
+        if (this.latest && targetHeight === undefined) return undefined;
+        throw error;
+      });
+      if (!page || page.headers.length === 0) break;
+
+      for (const signed of page.headers) {
+        await this.verifyHeader(signed);
+      }
+      next = this.latest!.height + 1;
+      if (targetHeight === undefined && next > page.latestHeight) break;
+    }
+
+    if (!this.latest || (targetHeight !== undefined && this.latest.height < targetHeight)) {
+      throw new Error(`Light client could not sync to height ${targetHeight ?? 'latest'}`);
+    }
+    return this.latest;
+  }
+
+  private async verifyHeader(signed: SignedHeader): Promise<void> {
+    const { header, hash, certificate } = signed;
+    const expectedHeight = this.latest ? this.latest.height + 1 : 0;
+
+    if (header.height !== expectedHeight) {
+      throw new Error(`Unexpected header height ${header.height} (expected ${expectedHeight})`);
+    }
+    if ((await hashBlock(header)) !== hash) {
+      throw new Error(`Header hash mismatch at height ${header.height}`);
+    }
+
+    let validatorSetHash: HexString | undefined;
+    if (header.height === 0) {
+      const trusted = this.options.trustedGenesisHash;
+      if (trusted && trusted.toLowerCase() !== hash) {
+        throw new Error(`Genesis hash mismatch. Trusted: ${trusted}, got: ${hash}`);
+      }
+    } else {
+      if (header.prevHash !== this.latest!.hash) {
+        throw new Error(`Header ${header.height} does not link to ${this.latest!.hash}`);
+      }
+      if (!certificate) {
+        throw new Error(`Missing commit certificate for height ${header.height}`);
+      }
+      validatorSetHash = await this.verifyCertificate(header, hash, certificate);
+    }
+
+    this.latest = { height: header.height, hash, header, validatorSetHash };
+    this.headers.set(header.height, this.latest);
+  }
+
+  private async verifyCertificate(header: BlockHeader, hash: BlockHash, certificate: CommitCertificate): Promise<HexString> {
+    const { height } = header;
+    if (certificate.height !== height || certificate.blockHash !== hash) {
+      throw new Error(`Commit certificate does not match header ${height}`);
+    }
+
+    const { domain } = this.options;
+    if (certificate.domain.chainId !== domain.chainId || certificate.domain.networkId !== domain.networkId) {
+      throw new Error(
+        `Commit certificate at height ${height} is for chain ${certificate.domain.chainId}/${certificate.domain.networkId}`
+      );
+    }
+
+    // The signatures cover the block hash and so the header's set commitment
+    const setHash = await hashValidatorSet(certificate.validatorSet);
+    if (header.validatorSetHash && header.validatorSetHash.toLowerCase() !== setHash) {
+      throw new Error(`Validator set at height ${height} does not match the header commitment`);
+    }
+    if (!this.validatorSet) {
+      if (this.options.trustedValidatorSetHash.toLowerCase() !== setHash) {
+        throw new Error(`Validator set at height ${height} is not trusted`);
+      }
+    } else if (this.validatorSet.hash !== setHash) {
+      if (!header.validatorSetHash) {
+        throw new Error(`Validator set change at height ${height} is not committed in the header`);
+      }
+      await this.verifyValidatorSetChange(height, certificate);
+    }
+
+    // Quorum is only checked once the set itself is trusted
+    const verification = await verifyCommit(certificate, setHash, this.signatureActivationHeight, domain);
+    if (!verification.valid) {
+      throw new Error(`Invalid commit certificate at height ${height}: ${verification.error}`);
+    }
+    this.validatorSet = { hash: setHash, set: certificate.validatorSet };
+    return setHash;
+  }
+
+  private get signatureActivationHeight(): number {
+    return this.options.signatureActivationHeight ?? 0;
+  }
+
+  private async verifyValidatorSetChange(height: number, certificate: CommitCertificate): Promise<void> {
+    const weights = new Map(this.validatorSet!.set.members.map(m => [m.publicKey.toLowerCase(), BigInt(m.weight)]));
+    const totalWeight = [...weights.values()].reduce((sum, weight) => sum + weight, 0n);
+
+    const signers = new Set<string>();
+    for (const vote of certificate.signatures) {
+      const publicKey = vote.validatorPubKey.toLowerCase();
+      if (!weights.has(publicKey) || signers.has(publicKey)) continue;
+      const valid = await verifyBlockSignature(
+        certificate.blockHash,
+        vote.signature,
+        vote.validatorPubKey,
+        this.options.domain,
+        height < this.signatureActivationHeight
+      );
+      if (valid) signers.add(publicKey);
+    }
+
+    const signedWeight = [...signers].reduce((sum, key) => sum + weights.get(key)!, 0n);
+    if (signedWeight < trustThreshold(totalWeight)) {
+      throw new Error(
+        `Validator set change at height ${height} not endorsed by the trusted set. ` +
+        `Required: ${trustThreshold(totalWeight)}, got: ${signedWeight}`
+      );
+    }
+  }
+}
+
+// An unset validator set hash trusts nothing, so balances stay unverified
+export const lightClient = new LightClient({
+  trustedGenesisHash: import.meta.env.VITE_TRUSTED_GENESIS_HASH || undefined,
+  trustedValidatorSetHash: import.meta.env.VITE_TRUSTED_VALIDATOR_SET_HASH || '',
+  signatureActivationHeight: Number(import.meta.env.VITE_SIGNATURE_ACTIVATION_HEIGHT || 0),
+  domain: {
+    chainId: import.meta.env.VITE_CHAIN_ID || '1337',
+    networkId: import.meta.env.VITE_NETWORK_ID || 'cloudflare-mvp-testnet',
+  },
+});
@@ -48,14 +48,32 @@ export const en = {
             txs: "Total Txs",
             peers: "Peers",
             tps: "Current TPS",
+            supply: "Total Supply",
+            blockReward: "Block Reward",
         },
         status: {
             pending: "Pending",
             processing: "Processing",
             confirmed: "Confirmed",
             failed: "Failed",
+            dropped: "Dropped",
         },
         description: "Secure & Fast",
+        stateChanges: "State Changes",
+        balance: "Balance",
+        nonce: "Nonce",
+        address: "Address",
+        noStateDiff: "State diff not available for this block",
+        evidence: "Evidence",
+        validator: "Validator",
+        conflictingBlocks: "Conflicting blocks",
+        penaltyRemoved: "Removed from validator set",
+        requiredSignatures: "Required signatures",
+        noEvidence: "No validator misbehavior recorded",
+        finality: "Finality",
+        verifiedByQuorum: "Verified by 2/3 validators",
+        commitUnverified: "Commit not verified",
+        noCommit: "No commit certificate",
     },
     wallet: {
         title: "My Wallet",
@@ -91,12 +109,44 @@ export const en = {
             success: "Transaction Submitted",
             error: "Failed to send",
             max: "Max",
-            fee: "Estimated Fee",
+            fee: "Network Fee",
         },
         transactions: "Total Transactions",
         network: "Network",
         pendingNonce: "Pending",
         enter: "Enter Wallet",
+        verifiedAt: "Verified at block",
+        unverified: "Balance not verified",
+        verifiedMismatch: "Balance differs from verified state",
+        vesting: {
+            title: "Premine Vesting",
+            locked: "Locked",
+            unlocked: "Unlocked",
+            spendable: "Spendable",
+            cliffEnd: "Cliff ends",
+            vestingEnd: "Fully vested",
+        },
+        staking: {
+            title: "Staking",
+            validators: "Validators",
+            bonded: "Bonded",
+            votingPower: "Voting power",
+            commission: "Commission",
+            inactive: "Inactive",
+            yourStake: "Your stake",
+            rewards: "Rewards",
+            claimable: "Claimable",
+            unbonding: "Unbonding",
+            releaseAt: "releases at block",
+            unbondingPeriod: "Unbonding period (blocks)",
+            stake: "Stake",
+            unstake: "Unstake",
+            delegate: "Delegate",
+            undelegate: "Undelegate",
+            claim: "Claim",
+            submitted: "Staking transaction submitted",
+            error: "Staking transaction failed",
+        },
     },
     exchange: {
         title: "Decentralized Exchange",
@@ -137,6 +187,9 @@ export const en = {
         status: "Status",
         blockHeight: "Block Height",
         unconfirmed: "Unconfirmed",
+        failureReason: "Failure Reason",
+        replacedBy: "Replaced By",
+        fee: "Fee",
         sigAlgo: "Signature Algorithm",
         dataModel: "Data Model",
         signatory: "Signatory Info",
@@ -154,6 +207,12 @@ export const en = {
         overview: "Account Overview",
         balance: "Current Balance",
         transactions: "Transaction History",
+        loadMore: "Load more",
+        balanceHistory: "Balance History",
+        balanceHistoryDesc: "Balance after each block that changed this account",
+        noBalanceHistory: "No balance changes recorded",
+        block: "Block",
+        historyStart: "History available from block",
     },
     tracker: {
         title: "TX Tracking",
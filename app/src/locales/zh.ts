@@ -48,14 +48,32 @@ export const zh = {
             txs: "交易总数",
             peers: "节点数",
             tps: "当前 TPS",
+            supply: "总供应量",
+            blockReward: "区块奖励",
         },
         status: {
             pending: "待处理",
             processing: "处理中",
             confirmed: "已确认",
             failed: "失败",
+            dropped: "已丢弃",
         },
         description: "安全 & 快速",
+        stateChanges: "状态变化",
+        balance: "余额",
+        nonce: "Nonce",
+        address: "地址",
+        noStateDiff: "该区块没有状态差异记录",
+        evidence: "作恶证据",
+        validator: "验证者",
+        conflictingBlocks: "冲突区块",
+        penaltyRemoved: "已移出验证者集合",
+        requiredSignatures: "所需签名数",
+        noEvidence: "暂无验证者作恶记录",
+        finality: "最终性",
+        verifiedByQuorum: "已由 2/3 验证者确认",
+        commitUnverified: "提交证书验证失败",
+        noCommit: "无提交证书",
     },
     wallet: {
         title: "我的钱包",
@@ -91,12 +109,44 @@ export const zh = {
             success: "交易已提交",
             error: "发送失败",
             max: "最大",
-            fee: "预估手续费",
+            fee: "网络手续费",
         },
         transactions: "交易总数",
         network: "网络",
         pendingNonce: "等待确认",
         enter: "进入钱包",
+        verifiedAt: "已验证，区块",
+        unverified: "余额未验证",
+        verifiedMismatch: "余额与已验证状态不一致",
+        vesting: {
+            title: "预挖锁仓",
+            locked: "锁定中",
+            unlocked: "已释放",
+            spendable: "可用余额",
+            cliffEnd: "锁定期结束",
+            vestingEnd: "全部释放",
+        },
+        staking: {
+            title: "质押",
+            validators: "验证者",
+            bonded: "已绑定质押",
+            votingPower: "投票权重",
+            commission: "佣金",
+            inactive: "已移出",
+            yourStake: "我的质押",
+            rewards: "待领取奖励",
+            claimable: "可领取",
+            unbonding: "解绑中",
+            releaseAt: "可取回高度",
+            unbondingPeriod: "解绑周期（区块）",
+            stake: "质押",
+            unstake: "解除质押",
+            delegate: "委托",
+            undelegate: "解除委托",
+            claim: "领取",
+            submitted: "质押交易已提交",
+            error: "质押交易失败",
+        },
     },
     exchange: {
         title: "去中心化交易所",
@@ -137,6 +187,9 @@ export const zh = {
         status: "状态",
         blockHeight: "区块高度",
         unconfirmed: "未确认",
+        failureReason: "失败原因",
+        replacedBy: "已被替换为",
+        fee: "手续费",
         sigAlgo: "签名算法",
         dataModel: "数据模型",
         signatory: "签名信息",
@@ -154,6 +207,12 @@ export const zh = {
         overview: "账户概览",
         balance: "当前余额",
         transactions: "历史交易记录",
+        loadMore: "加载更多",
+        balanceHistory: "余额变化",
+        balanceHistoryDesc: "每个改动该账户的区块执行后的余额",
+        noBalanceHistory: "暂无余额变化记录",
+        block: "区块",
+        historyStart: "历史记录起始区块",
     },
     tracker: {
         title: "交易追踪",
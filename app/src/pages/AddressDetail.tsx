@@ -3,13 +3,16 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from '@/contexts/I18nContext';
 import { api } from '@/lib/api';
 import { shortenAddress, formatAmount, timeAgo } from '@/lib/crypto';
-import type { Account, Transaction } from '@/types';
+import type { Account, AccountBalanceHistory, Transaction, TxDirection } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
 import {
     ArrowLeft,
     Wallet,
     History,
+    LineChart,
     ArrowRightLeft,
     Loader2,
     Copy,
@@ -18,6 +21,9 @@ import {
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { toast } from 'sonner';
 
+const PAGE_SIZE = 20;
+const HISTORY_LIMIT = 200;
+
 function AddressDetailContent() {
     const { address } = useParams<{ address: string }>();
     const { t } = useTranslation();
@@ -26,24 +32,46 @@ function AddressDetailContent() {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [loading, setLoading] = useState(true);
     const [copied, setCopied] = useState(false);
+    const [direction, setDirection] = useState<TxDirection>('all');
+    const [nextCursor, setNextCursor] = useState<string | undefined>();
+    const [loadingMore, setLoadingMore] = useState(false);
+    const [balanceHistory, setBalanceHistory] = useState<AccountBalanceHistory | null>(null);
 
     useEffect(() => {
         if (address) {
-            loadData(address);
+            loadData(address, direction);
         }
+    }, [address, direction]);
+
+    // Balance series does not depend on the direction filter
+    useEffect(() => {
+        if (!address) return;
+        api.getAccountHistory(address, { limit: HISTORY_LIMIT })
+            .then(setBalanceHistory)
+            .catch((error) => console.error('[AddressDetail] Failed to load balance history:', error));
     }, [address]);
 
-    async function loadData(addr: string) {
+    const chartConfig = {
+        balance: { label: t('address.balance'), color: 'hsl(var(--primary))' },
+    } satisfies ChartConfig;
+
+    const chartData = (balanceHistory?.points || []).map((point) => ({
+        height: point.height,
+        balance: Number(formatAmount(point.balance)),
+    }));
+
+    async function loadData(addr: string, dir: TxDirection) {
         setLoading(true);
         try {
             console.log(`[AddressDetail] Fetching data for ${addr}...`);
-            const [accData, txsData] = await Promise.all([
+            const [accData, page] = await Promise.all([
                 api.getAccount(addr),
-                api.getAccountTransactions(addr)
+                api.getAccountTransactionsPage(addr, { direction: dir, limit: PAGE_SIZE })
             ]);
 
             setAccount(accData);
-            setTransactions(txsData || []);
+            setTransactions(page.transactions || []);
+            setNextCursor(page.nextCursor);
         } catch (error) {
             console.error('[AddressDetail] Failed to load data:', error);
             toast.error(t('common.error') || 'Failed to load address data');
@@ -52,6 +80,21 @@ function AddressDetailContent() {
         }
     }
 
+    async function loadMore() {
+        if (!address || !nextCursor) return;
+        setLoadingMore(true);
+        try {
+            const page = await api.getAccountTransactionsPage(address, { direction, cursor: nextCursor, limit: PAGE_SIZE });
+            setTransactions(prev => [...prev, ...page.transactions]);
+            setNextCursor(page.nextCursor);
+        } catch (error) {
+            console.error('[AddressDetail] Failed to load more transactions:', error);
+            toast.error(t('common.error') || 'Failed to load transactions');
+        } finally {
+            setLoadingMore(false);
+        }
+    }
+
     const copyToClipboard = (text: string) => {
         navigator.clipboard.writeText(text);
         setCopied(true);
@@ -125,8 +168,20 @@ function AddressDetailContent() {
                             {t('address.transactions')}
                         </CardTitle>
                         <CardDescription>
-                            {transactions.length} {t('address.transactions').toLowerCase()}
+                            {transactions.length}{nextCursor ? '+' : ''} {t('address.transactions').toLowerCase()}
                         </CardDescription>
+                        <div className="flex gap-2 pt-2">
+                            {(['all', 'sent', 'received'] as TxDirection[]).map((dir) => (
+                                <Button
+                                    key={dir}
+                                    variant={direction === dir ? 'default' : 'outline'}
+                                    size="sm"
+                                    onClick={() => setDirection(dir)}
+                                >
+                                    {dir === 'all' ? t('common.all') : dir === 'sent' ? t('wallet.sent') : t('wallet.received')}
+                                </Button>
+                            ))}
+                        </div>
                     </CardHeader>
                     <CardContent>
                         {transactions.length === 0 ? (
@@ -169,11 +224,62 @@ function AddressDetailContent() {
                                         </div>
                                     </Link>
                                 ))}
+                                {nextCursor && (
+                                    <Button variant="outline" className="w-full" onClick={loadMore} disabled={loadingMore}>
+                                        {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                                        {t('address.loadMore')}
+                                    </Button>
+                                )}
                             </div>
                         )}
                     </CardContent>
                 </Card>
             </div>
+
+            {/* Balance History */}
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <LineChart className="h-5 w-5 text-primary" />
+                        {t('address.balanceHistory')}
+                    </CardTitle>
+                    <CardDescription>
+                        {t('address.balanceHistoryDesc')}
+                        {balanceHistory && balanceHistory.historyStart > 0 && (
+                            <> • {t('address.historyStart')} #{balanceHistory.historyStart}</>
+                        )}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {chartData.length === 0 ? (
+                        <div className="text-center py-12 border rounded-lg border-dashed bg-muted/30">
+                            <p className="text-muted-foreground">{t('address.noBalanceHistory')}</p>
+                        </div>
+                    ) : (
+                        <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                            <AreaChart data={chartData} margin={{ left: 12, right: 12 }}>
+                                <CartesianGrid vertical={false} />
+                                <XAxis dataKey="height" tickLine={false} axisLine={false} tickFormatter={(h) => `#${h}`} />
+                                <YAxis dataKey="balance" tickLine={false} axisLine={false} width={80} />
+                                <ChartTooltip
+                                    content={
+                                        <ChartTooltipContent
+                                            labelFormatter={(_, payload) => `${t('address.block')} #${payload?.[0]?.payload?.height}`}
+                                        />
+                                    }
+                                />
+                                <Area
+                                    dataKey="balance"
+                                    type="stepAfter"
+                                    stroke="var(--color-balance)"
+                                    fill="var(--color-balance)"
+                                    fillOpacity={0.2}
+                                />
+                            </AreaChart>
+                        </ChartContainer>
+                    )}
+                </CardContent>
+            </Card>
         </div>
     );
 }
@@ -3,19 +3,29 @@ import { useParams, Link, useNavigate } from 'react-router-dom';
 import { useTranslation } from '@/contexts/I18nContext';
 import { api } from '@/lib/api';
 import { shortenAddress, formatAmount, timeAgo } from '@/lib/crypto';
-import type { Block } from '@/types';
+import { lightClient } from '@/lib/light-client';
+import type { Block, BlockStateDiff, CommitVerification } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
-import { Loader2, Box, Clock, ShieldCheck, Database, Hash, ArrowLeft } from 'lucide-react';
+import { Loader2, Box, Clock, ShieldCheck, ShieldAlert, Database, Hash, ArrowLeft, GitCompare } from 'lucide-react';
 
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 
+// Signed balance change, e.g. "+1.5" / "-0.25"
+function formatDelta(before: string, after: string): string {
+    const delta = BigInt(after) - BigInt(before);
+    if (delta === 0n) return '0';
+    return `${delta > 0n ? '+' : '-'}${formatAmount(delta > 0n ? delta : -delta)}`;
+}
+
 function BlockDetailContent() {
     const { height } = useParams();
     const { t } = useTranslation();
     const navigate = useNavigate();
     const [block, setBlock] = useState<Block | null>(null);
+    const [diff, setDiff] = useState<BlockStateDiff | null>(null);
+    const [finality, setFinality] = useState<CommitVerification | null>(null);
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState('');
 
@@ -35,7 +45,12 @@ function BlockDetailContent() {
             setLoading(true);
             setError('');
             console.log(`[BlockDetail] Loading block ${h}...`);
-            const data = await api.getBlock(h);
+            // Diff is not recorded for genesis or blocks committed before diffs existed
+            const [data, diffData, certificate] = await Promise.all([
+                api.getBlock(h),
+                api.getBlockDiff(h).catch(() => null),
+                api.getCommitCertificate(h).catch(() => null),
+            ]);
             console.log(`[BlockDetail] Received block data:`, {
                 hasData: !!data,
                 hasHeader: !!data?.header,
@@ -51,8 +66,28 @@ function BlockDetailContent() {
                 throw new Error('Invalid block data: missing header');
             }
 
+            // Finality is checked in the browser against the validator set the
+            // light client verified for this height, not the set the API declares
+            let verification: CommitVerification | null = null;
+            if (certificate) {
+                verification = await lightClient.verifyFinality(certificate).catch((e: unknown) => ({
+                    valid: false,
+                    signers: 0,
+                    validators: certificate.validatorSet.members.length,
+                    signedWeight: 0n,
+                    totalWeight: 0n,
+                    threshold: 0n,
+                    error: e instanceof Error ? e.message : String(e),
+                }));
+                if (certificate.blockHash !== data.hash) {
+                    verification = { ...verification, valid: false, error: 'Certificate does not match this block' };
+                }
+            }
+
             console.log(`[BlockDetail] Setting block state for height ${h}`);
             setBlock(data);
+            setDiff(diffData);
+            setFinality(verification);
             console.log(`[BlockDetail] Block state set successfully`);
         } catch (e: any) {
             console.error('[BlockDetail] Failed to load block:', e);
@@ -141,6 +176,28 @@ function BlockDetailContent() {
                                 {block.header.txCount}
                             </div>
                         </div>
+
+                        <div className="space-y-1">
+                            <span className="text-sm text-muted-foreground">{t('explorer.finality') || 'Finality'}</span>
+                            {finality?.valid ? (
+                                <div className="flex items-center gap-2 text-green-600">
+                                    <ShieldCheck className="h-4 w-4" />
+                                    {t('explorer.verifiedByQuorum') || 'Verified by 2/3 validators'}
+                                    <span className="text-xs text-muted-foreground">
+                                        ({finality.signers}/{finality.validators})
+                                    </span>
+                                </div>
+                            ) : finality ? (
+                                <div className="flex items-center gap-2 text-red-600" title={finality.error}>
+                                    <ShieldAlert className="h-4 w-4" />
+                                    {t('explorer.commitUnverified') || 'Commit not verified'}
+                                </div>
+                            ) : (
+                                <div className="text-muted-foreground italic">
+                                    {t('explorer.noCommit') || 'No commit certificate'}
+                                </div>
+                            )}
+                        </div>
                     </div>
 
                     <div className="space-y-1">
@@ -196,6 +253,55 @@ function BlockDetailContent() {
                     )}
                 </CardContent>
             </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <GitCompare className="h-5 w-5" />
+                        {t('explorer.stateChanges') || 'State Changes'}
+                    </CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {diff && diff.accounts.length > 0 ? (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>{t('explorer.address') || 'Address'}</TableHead>
+                                    <TableHead className="text-right">{t('explorer.balance') || 'Balance'}</TableHead>
+                                    <TableHead className="text-right">{t('explorer.nonce') || 'Nonce'}</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {diff.accounts.map((account) => {
+                                    const delta = formatDelta(account.balanceBefore, account.balanceAfter);
+                                    return (
+                                        <TableRow key={account.address}>
+                                            <TableCell className="font-mono text-xs">
+                                                <Link to={`/address/${account.address}`} className="hover:underline text-primary">
+                                                    {shortenAddress(account.address)}
+                                                </Link>
+                                            </TableCell>
+                                            <TableCell className="text-right font-mono text-xs">
+                                                {formatAmount(account.balanceBefore)} → {formatAmount(account.balanceAfter)}
+                                                <span className={`ml-2 ${delta.startsWith('-') ? 'text-red-600' : delta.startsWith('+') ? 'text-green-600' : 'text-muted-foreground'}`}>
+                                                    ({delta})
+                                                </span>
+                                            </TableCell>
+                                            <TableCell className="text-right font-mono text-xs">
+                                                {account.nonceBefore} → {account.nonceAfter}
+                                            </TableCell>
+                                        </TableRow>
+                                    );
+                                })}
+                            </TableBody>
+                        </Table>
+                    ) : (
+                        <div className="text-center py-8 text-muted-foreground">
+                            {diff ? (t('common.noData') || 'No state changes') : (t('explorer.noStateDiff') || 'State diff not available for this block')}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
         </div>
     );
 }
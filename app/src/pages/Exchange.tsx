@@ -14,7 +14,7 @@ import { useWallet } from '@/contexts/WalletContext';
 import { useTranslation } from '@/contexts/I18nContext';
 import type { MarketData } from '@/types';
 import { api } from '@/lib/api';
-import { signTransaction } from '@/lib/crypto';
+import { signTransaction, SIGNATURE_VERSION, DEFAULT_GAS_LIMIT } from '@/lib/crypto';
 import { toast } from 'sonner';
 import { TransactionTracker } from '@/components/TransactionTracker';
 
@@ -206,9 +206,8 @@ function TradingForm({ type }: { type: 'buy' | 'sell' }) {
         let nonce = 0;
         try {
           const account = await api.getAccount(wallet.address);
-          // FIX: Backend expects strict equality (nonce === currentNonce).
-          // Do NOT add 1 here.
-          nonce = account.nonce;
+          // Next free nonce after this sender's queued txs (backend accepts consecutive nonces).
+          nonce = account.pendingNonce;
         } catch {
           // Account might not exist yet
           nonce = 0;
@@ -221,12 +220,16 @@ function TradingForm({ type }: { type: 'buy' | 'sell' }) {
           amount: value,
           nonce,
           timestamp: Date.now(),
+          gasPrice: await api.getGasPrice(),
+          gasLimit: DEFAULT_GAS_LIMIT,
         };
 
-        const signature = await signTransaction(tx, wallet.privateKey);
+        const domain = await api.getSigningDomain();
+        const signature = await signTransaction(tx, wallet.privateKey, domain);
         const res = await api.submitTransaction({
           ...tx,
           signature,
+          signatureVersion: SIGNATURE_VERSION,
           publicKey: wallet.publicKey
         });
 
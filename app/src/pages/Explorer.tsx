@@ -11,7 +11,9 @@ import {
   Box,
   ArrowRightLeft,
   Clock,
-  Activity
+  Activity,
+  ShieldAlert,
+  Coins
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -22,7 +24,7 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { useTranslation } from '@/contexts/I18nContext';
 import { api } from '@/lib/api';
 import { shortenAddress, formatAmount, timeAgo } from '@/lib/crypto';
-import type { Block, Transaction, NetworkStatus } from '@/types';
+import type { Block, Transaction, NetworkStatus, EvidenceRecord, SupplyInfo } from '@/types';
 
 const StatCard = memo(function StatCard({
   title,
@@ -87,6 +89,7 @@ const TransactionCard = memo(function TransactionCard({ tx }: { tx: Transaction
     processing: 'bg-blue-500',
     confirmed: 'bg-green-500',
     failed: 'bg-red-500',
+    dropped: 'bg-gray-400',
   };
 
   const statusLabels: Record<string, string> = {
@@ -94,6 +97,7 @@ const TransactionCard = memo(function TransactionCard({ tx }: { tx: Transaction
     processing: t('explorer.status.processing'),
     confirmed: t('explorer.status.confirmed'),
     failed: t('explorer.status.failed'),
+    dropped: t('explorer.status.dropped'),
   };
 
   return (
@@ -127,12 +131,51 @@ const TransactionCard = memo(function TransactionCard({ tx }: { tx: Transaction
   );
 });
 
+const EvidenceCard = memo(function EvidenceCard({ record }: { record: EvidenceRecord }) {
+  const { t } = useTranslation();
+  return (
+    <Card>
+      <CardContent className="p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <div className="h-10 w-10 rounded-lg bg-red-500/10 flex items-center justify-center shrink-0">
+              <ShieldAlert className="h-5 w-5 text-red-500" />
+            </div>
+            <div className="min-w-0">
+              <p className="font-medium">
+                {t('explorer.validator')} {record.validatorId || shortenAddress(record.validatorPubKey)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                <Link to={`/block/${record.height}`} className="hover:underline">
+                  {t('explorer.height')} #{record.height}
+                </Link>
+                {' · '}{timeAgo(record.submittedAt)}
+              </p>
+              <p className="text-xs text-muted-foreground mt-1 font-mono">
+                {t('explorer.conflictingBlocks')}: {shortenAddress(record.voteA.blockHash)} / {shortenAddress(record.voteB.blockHash)}
+              </p>
+            </div>
+          </div>
+          <div className="text-right shrink-0">
+            <Badge variant="destructive">{t('explorer.penaltyRemoved')}</Badge>
+            <p className="text-xs text-muted-foreground mt-1">
+              {t('explorer.requiredSignatures')}: {record.requiredSignatures}
+            </p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+});
+
 export default function Explorer() {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState('');
   const [networkStatus, setNetworkStatus] = useState<NetworkStatus | null>(null);
   const [latestBlocks, setLatestBlocks] = useState<Block[]>([]);
+  const [evidence, setEvidence] = useState<EvidenceRecord[]>([]);
+  const [supply, setSupply] = useState<SupplyInfo | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -151,6 +194,9 @@ export default function Explorer() {
       const blocks = await api.getBlocks(1, 10);
       setLatestBlocks(blocks);
       (window as any).DEBUG_LATEST_BLOCKS = blocks;
+
+      setEvidence(await api.getEvidence(20).catch(() => []));
+      setSupply(await api.getSupply().catch(() => null));
     } catch (error) {
       console.error('Failed to load data:', error);
     } finally {
@@ -178,8 +224,8 @@ export default function Explorer() {
   if (loading) {
     return (
       <div className="container mx-auto px-4 py-8">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
-          {[...Array(4)].map((_, i) => (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-8">
+          {[...Array(5)].map((_, i) => (
             <Skeleton key={i} className="h-32" />
           ))}
         </div>
@@ -220,7 +266,7 @@ export default function Explorer() {
 
       {/* Stats */}
       <div className="container mx-auto px-4 py-8">
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4 mb-8">
           <StatCard
             title={t('explorer.networkStats.blocks')}
             value={networkStatus?.latestBlockHeight?.toString() || '0'}
@@ -245,13 +291,20 @@ export default function Explorer() {
             subtitle={`Chain ID: ${networkStatus?.chainId || '0'}`}
             icon={Activity}
           />
+          <StatCard
+            title={t('explorer.networkStats.supply')}
+            value={supply ? `${formatAmount(supply.totalSupply)} CF` : '-'}
+            subtitle={`${t('explorer.networkStats.blockReward')}: ${supply ? formatAmount(supply.blockReward) : '0'} CF`}
+            icon={Coins}
+          />
         </div>
 
         {/* Main Content */}
         <Tabs defaultValue="blocks" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-2 lg:w-[400px]">
+          <TabsList className="grid w-full grid-cols-3 lg:w-[600px]">
             <TabsTrigger value="blocks">{t('explorer.latestBlocks')}</TabsTrigger>
             <TabsTrigger value="transactions">{t('explorer.latestTxs')}</TabsTrigger>
+            <TabsTrigger value="evidence">{t('explorer.evidence')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="blocks" className="space-y-4">
@@ -303,6 +356,23 @@ export default function Explorer() {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="evidence" className="space-y-4">
+            {evidence.length === 0 ? (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <ShieldAlert className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <p className="text-muted-foreground">{t('explorer.noEvidence')}</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-2">
+                {evidence.map((record) => (
+                  <EvidenceCard key={`${record.height}:${record.validatorPubKey}`} record={record} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </div>
     </div>
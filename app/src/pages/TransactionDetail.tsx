@@ -41,6 +41,7 @@ export default function TransactionDetail() {
         processing: 'bg-blue-500',
         confirmed: 'bg-green-500',
         failed: 'bg-red-500',
+        dropped: 'bg-gray-400',
     };
 
     const statusLabels: Record<string, string> = {
@@ -48,6 +49,7 @@ export default function TransactionDetail() {
         processing: t('explorer.status.processing'),
         confirmed: t('explorer.status.confirmed'),
         failed: t('explorer.status.failed'),
+        dropped: t('explorer.status.dropped'),
     };
 
     if (loading) {
@@ -103,6 +105,26 @@ export default function TransactionDetail() {
                                 </div>
                             </div>
 
+                            {tx.executionError && (
+                                <div className="space-y-1">
+                                    <span className="text-sm text-muted-foreground">{t('tx.failureReason')}</span>
+                                    <div className="font-mono text-sm break-all bg-red-50 text-red-600 border border-red-200 p-2 rounded">
+                                        {tx.executionError}
+                                    </div>
+                                </div>
+                            )}
+
+                            {tx.replacedBy && (
+                                <div className="space-y-1">
+                                    <span className="text-sm text-muted-foreground">{t('tx.replacedBy')}</span>
+                                    <div className="font-mono text-sm break-all">
+                                        <Link to={`/tx/${tx.replacedBy}`} className="hover:underline text-primary">
+                                            {tx.replacedBy}
+                                        </Link>
+                                    </div>
+                                </div>
+                            )}
+
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                 <div className="space-y-1">
                                     <span className="text-sm text-muted-foreground">{t('tx.status')}</span>
@@ -140,6 +162,16 @@ export default function TransactionDetail() {
                                     </div>
                                 </div>
 
+                                <div className="space-y-1">
+                                    <span className="text-sm text-muted-foreground">{t('tx.fee')}</span>
+                                    <div className="font-mono text-sm">
+                                        {formatAmount(tx.fee ?? '0')} CF
+                                        <span className="ml-2 text-xs text-muted-foreground">
+                                            ({tx.gasPrice ?? '0'} × {tx.gasLimit ?? '0'})
+                                        </span>
+                                    </div>
+                                </div>
+
                                 <div className="space-y-1">
                                     <span className="text-sm text-muted-foreground">{t('common.from')}</span>
                                     <div className="flex items-center gap-2 font-mono text-sm break-all">
@@ -17,7 +17,11 @@ import {
   Download,
   Check,
   ArrowRightLeft,
-  LogOut
+  LogOut,
+  ShieldCheck,
+  ShieldAlert,
+  Lock,
+  Landmark
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -26,29 +30,39 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
 import { useWallet } from '@/contexts/WalletContext';
 import { useTranslation } from '@/contexts/I18nContext';
 import { api } from '@/lib/api';
-import { shortenAddress, formatAmount, signTransaction } from '@/lib/crypto';
+import { shortenAddress, formatAmount, signTransaction, transactionFee, SIGNATURE_VERSION, DEFAULT_GAS_LIMIT } from '@/lib/crypto';
 import { toast } from 'sonner';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
+import type { TxDirection, AccountVesting, AccountStake, ValidatorsInfo, TransactionAction } from '@/types';
 
 
-function SendDialog() {
+const HISTORY_PAGE_SIZE = 20;
+
+// spendable excludes premine that is still locked; defaults to the full balance
+function SendDialog({ spendable }: { spendable?: string }) {
   const { wallet } = useWallet();
   const { t } = useTranslation();
   const [to, setTo] = useState('');
   const [amount, setAmount] = useState('');
   const [loading, setLoading] = useState(false);
 
-  // Simple fee estimation (MVP: 0 or minimal)
-  const ESTIMATED_FEE = 0.0001;
+  const [gasPrice, setGasPrice] = useState('0');
+
+  // The fee shown here is exactly what gets signed and charged
+  useEffect(() => {
+    api.getGasPrice().then(setGasPrice).catch(e => console.error("Gas price fetch failed", e));
+  }, []);
+  const fee = transactionFee(gasPrice);
 
   const handleMax = () => {
     if (!wallet) return;
     try {
-      const balance = parseFloat(formatAmount(wallet.balance));
-      const maxAmount = Math.max(0, balance - ESTIMATED_FEE);
+      const balance = parseFloat(formatAmount(spendable ?? wallet.balance));
+      const maxAmount = Math.max(0, balance - parseFloat(formatAmount(fee)));
       setAmount(maxAmount.toString());
     } catch (e) {
       console.error("Max calc failed", e);
@@ -62,8 +76,10 @@ function SendDialog() {
     setLoading(true);
     try {
       const amountInWei = BigInt(Math.floor(parseFloat(amount) * 1e18)).toString();
-      const nonce = wallet.nonce;
+      // Queue after our own pending txs so a second send doesn't wait for the first to confirm
+      const { pendingNonce: nonce } = await api.getAccount(wallet.address);
       const timestamp = Date.now();
+      const domain = await api.getSigningDomain();
 
       const signature = await signTransaction({
         from: wallet.address,
@@ -71,7 +87,9 @@ function SendDialog() {
         amount: amountInWei,
         nonce,
         timestamp,
-      }, wallet.privateKey);
+        gasPrice,
+        gasLimit: DEFAULT_GAS_LIMIT,
+      }, wallet.privateKey, domain);
 
       const response = await api.submitTransaction({
         from: wallet.address,
@@ -79,7 +97,10 @@ function SendDialog() {
         amount: amountInWei,
         nonce,
         timestamp, // CRITICAL: Must match the timestamp used for signing
+        gasPrice,
+        gasLimit: DEFAULT_GAS_LIMIT,
         signature,
+        signatureVersion: SIGNATURE_VERSION,
         publicKey: wallet.publicKey,
       });
 
@@ -136,7 +157,7 @@ function SendDialog() {
               </Button>
             </div>
             <p className="text-xs text-muted-foreground flex justify-between">
-              <span>{t('wallet.sendDialog.fee')}: ~{ESTIMATED_FEE} CF</span>
+              <span>{t('wallet.sendDialog.fee')}: {formatAmount(fee)} CF</span>
             </p>
           </div>
           <Button type="submit" className="w-full" disabled={loading || !amount || !to}>
@@ -148,6 +169,223 @@ function SendDialog() {
   );
 }
 
+function VestingCard({ vesting }: { vesting: AccountVesting }) {
+  const { t } = useTranslation();
+  const total = BigInt(vesting.total);
+  const percent = total > 0n ? Number(BigInt(vesting.unlocked) * 10000n / total) / 100 : 100;
+  const cliffEnd = Math.max(...vesting.schedules.map(s => s.cliffEndTime));
+  const vestingEnd = Math.max(...vesting.schedules.map(s => s.endTime));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm flex items-center gap-2">
+          <Lock className="h-4 w-4" />
+          {t('wallet.vesting.title')}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Progress value={percent} />
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-muted-foreground">{t('wallet.vesting.locked')}</span>
+          <span className="font-mono">{formatAmount(vesting.locked)} CF</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-muted-foreground">{t('wallet.vesting.unlocked')}</span>
+          <span className="font-mono">{formatAmount(vesting.unlocked)} CF</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-muted-foreground">{t('wallet.vesting.spendable')}</span>
+          <span className="font-mono">{formatAmount(vesting.spendable)} CF</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-muted-foreground">{t('wallet.vesting.cliffEnd')}</span>
+          <span className="text-sm">{new Date(cliffEnd).toLocaleDateString()}</span>
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-muted-foreground">{t('wallet.vesting.vestingEnd')}</span>
+          <span className="text-sm">{new Date(vestingEnd).toLocaleDateString()}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Validators with the wallet's own stake in each; refreshed with the balance since every staking tx pays a fee
+function StakingCard({ balance }: { balance: string }) {
+  const { wallet } = useWallet();
+  const { t } = useTranslation();
+  const [validators, setValidators] = useState<ValidatorsInfo | null>(null);
+  const [stake, setStake] = useState<AccountStake | null>(null);
+  const [selected, setSelected] = useState('');
+  const [amount, setAmount] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!wallet?.address) return;
+    Promise.all([api.getValidators(), api.getAccountStake(wallet.address)])
+      .then(([info, accountStake]) => {
+        setValidators(info);
+        setStake(accountStake);
+        setSelected(prev => prev || info.validators[0]?.address || '');
+      })
+      .catch(e => console.error('[Wallet] Failed to load staking:', e));
+  }, [wallet?.address, balance]);
+
+  if (!wallet || !validators) return null;
+
+  const delegationOf = (validator: string) =>
+    stake?.delegations.find(d => d.validator.toLowerCase() === validator.toLowerCase());
+  const current = delegationOf(selected);
+  // A validator bonds to itself with stake/unstake; everyone else delegates
+  const isSelf = selected.toLowerCase() === wallet.address.toLowerCase();
+
+  const submit = async (action: TransactionAction) => {
+    setLoading(true);
+    try {
+      const amountInWei = action === 'claim' ? '0' : BigInt(Math.floor(parseFloat(amount) * 1e18)).toString();
+      const { pendingNonce: nonce } = await api.getAccount(wallet.address);
+      const gasPrice = await api.getGasPrice();
+      const timestamp = Date.now();
+      const domain = await api.getSigningDomain();
+
+      const signature = await signTransaction({
+        from: wallet.address,
+        to: selected,
+        amount: amountInWei,
+        nonce,
+        timestamp,
+        gasPrice,
+        gasLimit: DEFAULT_GAS_LIMIT,
+        action,
+      }, wallet.privateKey, domain);
+
+      const response = await api.submitTransaction({
+        from: wallet.address,
+        to: selected,
+        amount: amountInWei,
+        nonce,
+        timestamp,
+        gasPrice,
+        gasLimit: DEFAULT_GAS_LIMIT,
+        signature,
+        signatureVersion: SIGNATURE_VERSION,
+        publicKey: wallet.publicKey,
+        action,
+      });
+
+      toast.success(`${t('wallet.staking.submitted')}! Hash: ${response.txHash}`);
+      setAmount('');
+    } catch (error) {
+      toast.error(`${t('wallet.staking.error')}: ` + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Landmark className="h-5 w-5" />
+          {t('wallet.staking.title')}
+        </CardTitle>
+        <CardDescription>
+          {t('wallet.staking.unbondingPeriod')}: {validators.unbondingBlocks}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {validators.validators.map(v => {
+            const delegation = delegationOf(v.address);
+            return (
+              <button
+                key={v.address}
+                type="button"
+                onClick={() => setSelected(v.address)}
+                className={`w-full text-left p-3 border rounded-lg transition-colors ${v.address === selected ? 'border-primary bg-muted' : 'hover:bg-muted/50'}`}
+              >
+                <div className="flex justify-between items-center">
+                  <span className="font-medium">
+                    {v.id}
+                    {!v.active && <span className="ml-2 text-xs text-red-600">{t('wallet.staking.inactive')}</span>}
+                  </span>
+                  <span className="font-mono text-xs text-muted-foreground">{shortenAddress(v.address)}</span>
+                </div>
+                <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+                  <div>
+                    <p className="text-muted-foreground">{t('wallet.staking.bonded')}</p>
+                    <p className="font-mono">{formatAmount(v.bonded)} CF</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">{t('wallet.staking.votingPower')}</p>
+                    <p className="font-mono">{validators.stakeWeighted ? formatAmount(v.votingPower) : v.votingPower}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">{t('wallet.staking.commission')}</p>
+                    <p className="font-mono">{v.commission}%</p>
+                  </div>
+                </div>
+                {delegation && (
+                  <div className="grid grid-cols-3 gap-2 mt-2 text-xs">
+                    <div>
+                      <p className="text-muted-foreground">{t('wallet.staking.yourStake')}</p>
+                      <p className="font-mono">{formatAmount(delegation.amount)} CF</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">{t('wallet.staking.rewards')}</p>
+                      <p className="font-mono">{formatAmount(delegation.rewards)} CF</p>
+                    </div>
+                    <div>
+                      <p className="text-muted-foreground">{t('wallet.staking.claimable')}</p>
+                      <p className="font-mono">{formatAmount(delegation.claimable)} CF</p>
+                    </div>
+                  </div>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {current && current.unbonding.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">{t('wallet.staking.unbonding')}</p>
+            {current.unbonding.map((entry, i) => (
+              <div key={i} className="flex justify-between text-xs font-mono">
+                <span>{formatAmount(entry.amount)} CF</span>
+                <span>{t('wallet.staking.releaseAt')} #{entry.releaseHeight}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="stake-amount">{t('wallet.sendDialog.amount')}</Label>
+          <Input
+            id="stake-amount"
+            type="number"
+            step="0.000001"
+            placeholder="0.00"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button className="flex-1" disabled={loading || !amount || !selected} onClick={() => submit(isSelf ? 'stake' : 'delegate')}>
+            {isSelf ? t('wallet.staking.stake') : t('wallet.staking.delegate')}
+          </Button>
+          <Button variant="outline" className="flex-1" disabled={loading || !amount || !current} onClick={() => submit(isSelf ? 'unstake' : 'undelegate')}>
+            {isSelf ? t('wallet.staking.unstake') : t('wallet.staking.undelegate')}
+          </Button>
+          <Button variant="secondary" className="flex-1" disabled={loading || !current || BigInt(current.claimable) === 0n} onClick={() => submit('claim')}>
+            {t('wallet.staking.claim')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 function ReceiveDialog({ address }: { address: string }) {
   const { t } = useTranslation();
   return (
@@ -462,33 +700,49 @@ export default function Wallet() {
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [showAccounts, setShowAccounts] = useState(false);
 
-  // History State
+  // History State (paginated by the backend address index)
   const [history, setHistory] = useState<any[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [historyDirection, setHistoryDirection] = useState<TxDirection>('all');
+  const [historyCursor, setHistoryCursor] = useState<string | undefined>();
+
+  // Premine lock-up; refreshed with the balance since spendable depends on it
+  const [vesting, setVesting] = useState<AccountVesting | null>(null);
+  useEffect(() => {
+    if (!wallet?.address) return;
+    api.getAccountVesting(wallet.address)
+      .then(setVesting)
+      .catch(e => {
+        console.error('[Wallet] Failed to load vesting:', e);
+        setVesting(null);
+      });
+  }, [wallet?.address, wallet?.balance]);
 
-  // Load history on mount or wallet change
+  // Load history on mount, wallet change or filter change
   useEffect(() => {
     if (wallet?.address) {
-      loadHistory(wallet.address);
+      loadHistory(wallet.address, historyDirection);
     }
-  }, [wallet?.address]);
+  }, [wallet?.address, historyDirection]);
 
-  async function loadHistory(address: string) {
+  async function loadHistory(address: string, direction: TxDirection, cursor?: string) {
     setLoadingHistory(true);
     try {
       console.log(`[Wallet] Fetching history for ${address}...`);
-      const txs = await api.getAccountTransactions(address);
-      console.log(`[Wallet] Received history:`, txs);
+      const page = await api.getAccountTransactionsPage(address, { direction, cursor, limit: HISTORY_PAGE_SIZE });
+      console.log(`[Wallet] Received history:`, page);
 
-      if (Array.isArray(txs)) {
-        setHistory(txs);
+      if (Array.isArray(page.transactions)) {
+        setHistory(prev => cursor ? [...prev, ...page.transactions] : page.transactions);
+        setHistoryCursor(page.nextCursor);
       } else {
-        console.error("[Wallet] History is not an array:", txs);
+        console.error("[Wallet] History is not an array:", page);
         setHistory([]);
+        setHistoryCursor(undefined);
       }
     } catch (e) {
       console.error('[Wallet] Failed to load history:', e);
-      setHistory([]);
+      if (!cursor) setHistory([]);
     } finally {
       setLoadingHistory(false);
     }
@@ -639,11 +893,30 @@ export default function Wallet() {
                   <p className="text-4xl font-bold">{formatAmount(wallet!.balance)}</p>
                   <span className="text-lg text-muted-foreground">CF</span>
                 </div>
+                {/* Proven against a light-client verified header; may trail the API by a block */}
+                {wallet!.verifiedBalance !== undefined ? (
+                  wallet!.verifiedBalance === wallet!.balance ? (
+                    <div className="flex items-center gap-1 mt-2 text-xs text-green-600">
+                      <ShieldCheck className="h-3 w-3" />
+                      {t('wallet.verifiedAt')} #{wallet!.verifiedHeight}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 mt-2 text-xs text-amber-600" title={`${formatAmount(wallet!.verifiedBalance)} CF @ #${wallet!.verifiedHeight}`}>
+                      <ShieldAlert className="h-3 w-3" />
+                      {t('wallet.verifiedMismatch')}: {formatAmount(wallet!.verifiedBalance)} CF (#{wallet!.verifiedHeight})
+                    </div>
+                  )
+                ) : (
+                  <div className="flex items-center gap-1 mt-2 text-xs text-muted-foreground" title={wallet!.verificationError}>
+                    <ShieldAlert className="h-3 w-3" />
+                    {t('wallet.unverified')}
+                  </div>
+                )}
               </CardContent>
             </Card>
 
             <div className="flex gap-4">
-              <SendDialog />
+              <SendDialog spendable={vesting && BigInt(vesting.locked) > 0n ? vesting.spendable : undefined} />
               <ReceiveDialog address={wallet!.address} />
             </div>
 
@@ -677,39 +950,50 @@ export default function Wallet() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Only premine allocations with a lock-up; immediate allocations are plain balance */}
+            {vesting?.schedules.some(s => s.endTime > s.startTime) && <VestingCard vesting={vesting} />}
           </div>
 
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-6">
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center gap-2">
                   <History className="h-5 w-5" />
                   {t('wallet.history')}
-                  <Button variant="ghost" size="sm" onClick={() => loadHistory(wallet!.address)} disabled={loadingHistory} className="ml-auto">
+                  <Button variant="ghost" size="sm" onClick={() => loadHistory(wallet!.address, historyDirection)} disabled={loadingHistory} className="ml-auto">
                     Refresh
                   </Button>
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                <Tabs defaultValue="all">
+                <Tabs value={historyDirection} onValueChange={(v) => { setHistory([]); setHistoryDirection(v as TxDirection); }}>
                   <TabsList className="grid w-full grid-cols-3 lg:w-[400px]">
                     <TabsTrigger value="all">{t('common.all')}</TabsTrigger>
                     <TabsTrigger value="sent">{t('wallet.send')}</TabsTrigger>
                     <TabsTrigger value="received">{t('wallet.receive')}</TabsTrigger>
                   </TabsList>
 
-                  <TabsContent value="all" className="space-y-2">
-                    <TransactionHistory transactions={history} loading={loadingHistory} />
-                  </TabsContent>
-                  <TabsContent value="sent" className="space-y-2">
-                    <TransactionHistory transactions={history.filter(tx => tx.from === wallet?.address)} loading={loadingHistory} />
-                  </TabsContent>
-                  <TabsContent value="received" className="space-y-2">
-                    <TransactionHistory transactions={history.filter(tx => tx.to === wallet?.address)} loading={loadingHistory} />
-                  </TabsContent>
+                  {(['all', 'sent', 'received'] as TxDirection[]).map((dir) => (
+                    <TabsContent key={dir} value={dir} className="space-y-2">
+                      <TransactionHistory transactions={history} loading={loadingHistory && history.length === 0} />
+                    </TabsContent>
+                  ))}
                 </Tabs>
+                {historyCursor && (
+                  <Button
+                    variant="outline"
+                    className="w-full mt-3"
+                    onClick={() => loadHistory(wallet!.address, historyDirection, historyCursor)}
+                    disabled={loadingHistory}
+                  >
+                    {t('address.loadMore')}
+                  </Button>
+                )}
               </CardContent>
             </Card>
+
+            <StakingCard balance={wallet!.balance} />
           </div>
         </div>
       </div>
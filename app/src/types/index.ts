@@ -15,6 +15,9 @@ export interface KeyPair {
   privateKey: HexString;
 }
 
+// Transfers omit the action; staking actions target a genesis validator address
+export type TransactionAction = 'transfer' | 'stake' | 'unstake' | 'delegate' | 'undelegate' | 'claim';
+
 export interface Transaction {
   hash: TxHash;
   from: Address;
@@ -26,22 +29,34 @@ export interface Transaction {
   gasLimit: string;
   signature: string;
   publicKey: string; // Add public key for verification
-  status: 'pending' | 'processing' | 'confirmed' | 'failed';
+  action?: TransactionAction;
+  status: 'pending' | 'processing' | 'confirmed' | 'failed' | 'dropped';
   blockHeight?: number;
   blockHash?: BlockHash;
   confirmationTime?: number;
+  // Set when the tx was included in a block but failed to execute
+  executionError?: string;
+  // gasPrice × gasLimit: charged once confirmed, quoted while pending, 0 if failed
+  fee?: string;
+  // Set when a same-nonce transaction with a higher gas price replaced this one
+  replacedBy?: TxHash;
+}
+
+export interface BlockHeader {
+  height: number;
+  timestamp: number;
+  prevHash: BlockHash;
+  txRoot: BlockHash;
+  stateRoot: BlockHash;
+  proposer: string;
+  txCount: number;
+  round?: number;
+  // Hash of the validator set that commits this block (absent on older blocks)
+  validatorSetHash?: HexString;
 }
 
 export interface Block {
-  header: {
-    height: number;
-    timestamp: number;
-    prevHash: BlockHash;
-    txRoot: BlockHash;
-    stateRoot: BlockHash;
-    proposer: string;
-    txCount: number;
-  };
+  header: BlockHeader;
   transactions: Transaction[];
   hash: BlockHash;
   proposerSignature: string;
@@ -49,6 +64,23 @@ export interface Block {
   consensusTime?: number;
 }
 
+// Per-account changes applied by one block (see /block/:height/diff)
+export interface AccountDiff {
+  address: Address;
+  balanceBefore: string;
+  balanceAfter: string;
+  nonceBefore: number;
+  nonceAfter: number;
+}
+
+export interface BlockStateDiff {
+  height: number;
+  blockHash: BlockHash;
+  stateRootBefore: BlockHash;
+  stateRootAfter: BlockHash;
+  accounts: AccountDiff[];
+}
+
 export interface ValidatorVote {
   validatorId: string;
   validatorPubKey: string;
@@ -56,6 +88,111 @@ export interface ValidatorVote {
   timestamp: number;
 }
 
+// Validator set at commit time; weights are decimal strings (1 each unless stake-weighted)
+export interface ValidatorSetMember {
+  id?: string;
+  publicKey: HexString;
+  weight: string;
+}
+
+export interface ValidatorSet {
+  members: ValidatorSetMember[];
+  stakeWeighted: boolean;
+  totalWeight: string;
+  threshold: string;
+}
+
+// Chain identity bound into versioned signing payloads
+export interface SigningDomain {
+  chainId: string;
+  networkId: string;
+}
+
+// Commit certificate served at /block/:height/commit
+export interface CommitCertificate {
+  height: number;
+  blockHash: BlockHash;
+  validatorSetHash: HexString;
+  validatorSet: ValidatorSet;
+  quorumRule: 'weight>2/3';
+  signatures: ValidatorVote[];
+  domain: SigningDomain;
+  legacySignatures: boolean;
+}
+
+// Light-client sync unit served by /headers?from=&to= (genesis has no certificate)
+export interface SignedHeader {
+  hash: BlockHash;
+  header: BlockHeader;
+  certificate: CommitCertificate | null;
+}
+
+export interface HeadersResponse {
+  headers: SignedHeader[];
+  latestHeight: number;
+}
+
+// Result of verifying a commit certificate in the browser
+export interface CommitVerification {
+  valid: boolean;
+  signers: number;
+  validators: number;
+  signedWeight: bigint;
+  totalWeight: bigint;
+  threshold: bigint;
+  error?: string;
+}
+
+// One of two conflicting votes: the validator's signature over a block header
+export interface EquivocationVote {
+  header: Block['header'];
+  blockHash: BlockHash;
+  signature: Signature;
+}
+
+// Verified double-sign evidence (see /evidence)
+export interface EvidenceRecord {
+  validatorPubKey: HexString;
+  validatorId?: string;
+  height: number;
+  voteA: EquivocationVote;
+  voteB: EquivocationVote;
+  penalty: 'removed';
+  requiredSignatures: number;
+  submittedAt: number;
+}
+
+export interface MerkleProof {
+  leafIndex: number;
+  leafCount: number;
+  siblings: HexString[];
+}
+
+export interface TransactionProof extends MerkleProof {
+  txHash: TxHash;
+  blockHeight: number;
+  blockHash: BlockHash;
+  txRoot: BlockHash;
+}
+
+// Sparse Merkle proof against a block's stateRoot (see /account/:addr/proof)
+export interface StateProof {
+  key: HexString;
+  siblings: HexString[];
+  leaf?: { key: HexString; valueHash: HexString };
+}
+
+export interface AccountProof {
+  address: Address;
+  height: number;
+  blockHash: BlockHash;
+  stateRoot: BlockHash;
+  balance: string;
+  nonce: number;
+  exists: boolean;
+  proof: StateProof;
+}
+
 export interface Account {
   address: Address;
   balance: string;
@@ -63,6 +200,109 @@ export interface Account {
   pendingNonce: number;
 }
 
+// Premine release: locked until cliffEndTime, then linear until endTime
+export interface VestingSchedule {
+  beneficiary: Address;
+  totalAmount: string;
+  releasedAmount: string;
+  startTime: number;
+  cliffEndTime: number;
+  endTime: number;
+  cliffMonths: number;
+  vestingMonths: number;
+}
+
+export interface AccountVesting {
+  address: Address;
+  timestamp: number;
+  balance: string;
+  total: string;
+  locked: string;
+  unlocked: string;
+  spendable: string; // balance - locked, what a transfer may spend (incl. fee)
+  schedules: VestingSchedule[];
+}
+
+export interface ValidatorInfo {
+  id: string;
+  address: Address;
+  publicKey: string;
+  commission: number; // % of delegator rewards kept by the validator
+  genesisStake: string; // can't be unstaked
+  delegated: string; // all delegations, including the validator's own stake
+  bonded: string; // genesisStake + delegated
+  votingPower: string; // 1 per validator unless the quorum is stake-weighted
+  active: boolean; // false once removed for double signing
+}
+
+export interface ValidatorsInfo {
+  height: number;
+  stakeWeighted: boolean;
+  unbondingBlocks: number;
+  validatorSetHash: HexString;
+  validators: ValidatorInfo[];
+}
+
+export interface UnbondingEntry {
+  amount: string;
+  releaseHeight: number;
+}
+
+export interface Delegation {
+  validator: Address;
+  amount: string;
+  rewards: string;
+  unbonding: UnbondingEntry[];
+  claimable: string; // rewards + unbonding released by the next block
+}
+
+export interface AccountStake {
+  address: Address;
+  height: number;
+  delegations: Delegation[];
+  totalBonded: string;
+  totalUnbonding: string;
+  totalRewards: string;
+}
+
+// Balance and nonce after the block at `height` was executed
+export interface AccountAtHeight {
+  address: Address;
+  height: number;
+  balance: string;
+  nonce: number;
+}
+
+export interface AccountBalancePoint {
+  height: number;
+  balance: string;
+  nonce: number;
+  timestamp: number;
+}
+
+export interface AccountBalanceHistory {
+  address: Address;
+  // Ascending by height; only blocks where the account changed
+  points: AccountBalancePoint[];
+  // History is complete from this height on
+  historyStart: number;
+}
+
+export type TxDirection = 'all' | 'sent' | 'received';
+
+export interface AccountTransactionsQuery {
+  direction?: TxDirection;
+  fromHeight?: number;
+  toHeight?: number;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface AccountTransactionsPage {
+  transactions: Transaction[];
+  nextCursor?: string;
+}
+
 export interface NetworkStatus {
   networkId: string;
   chainId: string;
@@ -76,6 +316,19 @@ export interface NetworkStatus {
   uptime?: number;
   lastUpdated?: number;
   lastError?: string;
+  minGasPrice?: string;
+  maxGasLimit?: string;
+}
+
+// Token supply from /supply (smallest-unit decimal strings)
+export interface SupplyInfo {
+  height: number;
+  initialSupply: string;
+  minted: string;
+  totalSupply: string;
+  blockReward: string; // reward of the next block
+  halvingInterval: number;
+  nextHalving: number;
 }
 
 export interface TokenInfo {
@@ -3,6 +3,11 @@
 
 interface ImportMetaEnv {
     readonly VITE_API_URL: string;
+    readonly VITE_CHAIN_ID?: string;
+    readonly VITE_NETWORK_ID?: string;
+    readonly VITE_TRUSTED_GENESIS_HASH?: string;
+    readonly VITE_TRUSTED_VALIDATOR_SET_HASH?: string;
+    readonly VITE_SIGNATURE_ACTIVATION_HEIGHT?: string;
 }
 
 interface ImportMeta {
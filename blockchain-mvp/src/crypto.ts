@@ -11,7 +11,22 @@
  * 4. 解决 Cloudflare 上的 "invalid usage" 和 "Expected 3, got 2" 问题
  */
 
-import type { HexString, Signature, Address, TxHash, BlockHash, KeyPair } from './types';
+import type {
+  HexString,
+  Signature,
+  Address,
+  TxHash,
+  BlockHash,
+  KeyPair,
+  MerkleProof,
+  CommitCertificate,
+  CommitVerification,
+  SigningDomain,
+  SignatureType,
+  SignatureScheme,
+} from './types';
+import { COMMIT_QUORUM_RULE } from './types';
+import { quorumThreshold } from './quorum';
 import * as ed from '@noble/ed25519';
 import { sha512 } from '@noble/hashes/sha2.js';
 
@@ -70,6 +85,10 @@ export async function sha256Hex(data: Uint8Array | string): Promise<HexString> {
   return addHexPrefix(bytesToHex(hash));
 }
 
+/**
+ * 交易哈希
+ * action 仅在非转账时计入，转账的哈希与引入交易类型前一致
+ */
 export async function hashTransaction(tx: {
   from: string;
   to: string;
@@ -79,8 +98,9 @@ export async function hashTransaction(tx: {
   gasPrice: string;
   gasLimit: string;
   publicKey: HexString;
+  action?: string;
 }): Promise<TxHash> {
-  const txData = {
+  const txData: Record<string, unknown> = {
     from: tx.from.toLowerCase(),
     to: tx.to.toLowerCase(),
     amount: tx.amount,
@@ -90,9 +110,17 @@ export async function hashTransaction(tx: {
     gasLimit: tx.gasLimit,
     publicKey: tx.publicKey,
   };
+  if (tx.action && tx.action !== 'transfer') {
+    txData.action = tx.action;
+  }
   return await sha256Hex(objectToBytes(txData));
 }
 
+/**
+ * 区块头哈希
+ * round 仅在 view change（> 0）时计入，第 0 轮区块与引入轮次前的哈希一致
+ * validatorSetHash 存在时计入，验证者的签名因此同时认可了提交该区块的验证者集合
+ */
 export async function hashBlock(header: {
   height: number;
   timestamp: number;
@@ -101,8 +129,10 @@ export async function hashBlock(header: {
   stateRoot: string;
   proposer: string;
   txCount: number;
+  round?: number;
+  validatorSetHash?: string;
 }): Promise<BlockHash> {
-  const headerData = {
+  const headerData: Record<string, unknown> = {
     height: header.height,
     timestamp: header.timestamp,
     prevHash: header.prevHash.toLowerCase(),
@@ -111,29 +141,133 @@ export async function hashBlock(header: {
     proposer: header.proposer,
     txCount: header.txCount,
   };
+  if (header.round) {
+    headerData.round = header.round;
+  }
+  if (header.validatorSetHash) {
+    headerData.validatorSetHash = header.validatorSetHash.toLowerCase();
+  }
   return sha256Hex(objectToBytes(headerData));
 }
 
-export async function computeMerkleRoot(hashes: HexString[]): Promise<BlockHash> {
-  if (hashes.length === 0) return sha256Hex('');
-  if (hashes.length === 1) return hashes[0];
+// ============================================
+// 交易默克尔树（域分离）
+// ============================================
+//
+// leaf = SHA-256(0x00 || txHash)
+// node = SHA-256(0x01 || left || right)
+// 奇数层的最后一个节点原样提升到上一层；空树根为 SHA-256("")。
+// 叶子与内部节点使用不同前缀，内部节点无法被伪装成叶子（防第二原像攻击）。
+
+const MERKLE_LEAF_PREFIX = 0x00;
+const MERKLE_NODE_PREFIX = 0x01;
+
+async function hashMerkleLeaf(leaf: Uint8Array): Promise<Uint8Array> {
+  const data = new Uint8Array(1 + leaf.length);
+  data[0] = MERKLE_LEAF_PREFIX;
+  data.set(leaf, 1);
+  return sha256(data);
+}
+
+async function hashMerkleNode(left: Uint8Array, right: Uint8Array): Promise<Uint8Array> {
+  const data = new Uint8Array(1 + left.length + right.length);
+  data[0] = MERKLE_NODE_PREFIX;
+  data.set(left, 1);
+  data.set(right, 1 + left.length);
+  return sha256(data);
+}
+
+/**
+ * 逐层构建默克尔树，返回全部层（levels[0] 为叶子哈希层）
+ */
+async function buildMerkleLevels(hashes: HexString[]): Promise<Uint8Array[][]> {
+  let level = await Promise.all(hashes.map(h => hashMerkleLeaf(hexToBytes(h))));
+  const levels = [level];
 
-  let level = hashes.map(h => hexToBytes(h));
   while (level.length > 1) {
     const nextLevel: Uint8Array[] = [];
     for (let i = 0; i < level.length; i += 2) {
       if (i + 1 < level.length) {
-        const combined = new Uint8Array(64);
-        combined.set(level[i], 0);
-        combined.set(level[i + 1], 32);
-        nextLevel.push(await sha256(combined));
+        nextLevel.push(await hashMerkleNode(level[i], level[i + 1]));
       } else {
         nextLevel.push(level[i]);
       }
     }
+    levels.push(nextLevel);
     level = nextLevel;
   }
-  return addHexPrefix(bytesToHex(level[0]));
+
+  return levels;
+}
+
+export async function computeMerkleRoot(hashes: HexString[]): Promise<BlockHash> {
+  if (hashes.length === 0) return sha256Hex('');
+
+  const levels = await buildMerkleLevels(hashes);
+  return addHexPrefix(bytesToHex(levels[levels.length - 1][0]));
+}
+
+/**
+ * 生成第 leafIndex 个叶子的包含证明
+ */
+export async function computeMerkleProof(hashes: HexString[], leafIndex: number): Promise<MerkleProof> {
+  if (leafIndex < 0 || leafIndex >= hashes.length) {
+    throw new Error(`Leaf index out of range: ${leafIndex}`);
+  }
+
+  const levels = await buildMerkleLevels(hashes);
+  const siblings: HexString[] = [];
+
+  let index = leafIndex;
+  for (const level of levels.slice(0, -1)) {
+    const siblingIndex = index ^ 1;
+    if (siblingIndex < level.length) {
+      siblings.push(addHexPrefix(bytesToHex(level[siblingIndex])));
+    }
+    index >>= 1;
+  }
+
+  return { leafIndex, leafCount: hashes.length, siblings };
+}
+
+/**
+ * 验证交易哈希包含在以 root 为根的默克尔树中
+ */
+export async function verifyMerkleProof(
+  txHash: TxHash,
+  proof: MerkleProof,
+  root: BlockHash
+): Promise<boolean> {
+  try {
+    const { leafIndex, leafCount, siblings } = proof;
+    if (!Number.isInteger(leafIndex) || !Number.isInteger(leafCount)) return false;
+    if (leafIndex < 0 || leafIndex >= leafCount) return false;
+
+    let node = await hashMerkleLeaf(hexToBytes(txHash));
+    let index = leafIndex;
+    let size = leafCount;
+    let used = 0;
+
+    while (size > 1) {
+      const siblingIndex = index ^ 1;
+      if (siblingIndex < size) {
+        if (used >= siblings.length) return false;
+        const sibling = hexToBytes(siblings[used++]);
+        node = (index & 1) === 0
+          ? await hashMerkleNode(node, sibling)
+          : await hashMerkleNode(sibling, node);
+      }
+      index >>= 1;
+      size = Math.ceil(size / 2);
+    }
+
+    // 证明中不能有多余的兄弟节点
+    if (used !== siblings.length) return false;
+
+    return addHexPrefix(bytesToHex(node)) === addHexPrefix(root.toLowerCase());
+  } catch {
+    return false;
+  }
 }
 
 // ============================================
@@ -198,6 +332,92 @@ export async function verifySignature(
   }
 }
 
+// ============================================
+// 批量验签
+// ============================================
+
+/** Ed25519 基点的阶 L */
+const ED25519_ORDER = ed.Point.CURVE().n;
+
+function bytesToNumberLE(bytes: Uint8Array): bigint {
+  let value = BigInt(0);
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    value = (value << BigInt(8)) | BigInt(bytes[i]);
+  }
+  return value;
+}
+
+/**
+ * 多标量乘法 Σ scalars[i]·points[i]（标量须在 [0, L) 内）
+ * Straus 方法：每个点预计算 4 位窗口表，所有点共享同一串倍点运算
+ */
+function multiScalarMultiply(points: ed.Point[], scalars: bigint[]): ed.Point {
+  const tables = points.map(point => {
+    const table = [ed.Point.ZERO];
+    for (let i = 1; i < 16; i++) {
+      table.push(table[i - 1].add(point));
+    }
+    return table;
+  });
+
+  let acc = ed.Point.ZERO;
+  for (let shift = 252; shift >= 0; shift -= 4) {
+    acc = acc.double().double().double().double();
+    for (let i = 0; i < points.length; i++) {
+      const digit = Number((scalars[i] >> BigInt(shift)) & BigInt(15));
+      if (digit !== 0) {
+        acc = acc.add(tables[i][digit]);
+      }
+    }
+  }
+  return acc;
+}
+
+/**
+ * Ed25519 批量验签：取随机系数 z_i，检查 [8](Σ z_i·R_i + Σ (z_i·k_i)·A_i − (Σ z_i·s_i)·B) = 0，
+ * 其中 k_i = SHA512(R_i || A_i || M_i) mod L
+ * 与单笔验证（verifySignature）同为 ZIP-215 余因子方程，除可忽略的概率外，批量通过当且仅当每一笔都有效
+ * 任一签名或公钥无法解码、s 越界时返回 false（由调用方逐笔验证定位）
+ */
+export function verifySignaturesBatch(
+  items: Array<{ message: Uint8Array | string; signature: Signature; publicKey: HexString }>
+): boolean {
+  if (items.length === 0) return true;
+
+  try {
+    const points: ed.Point[] = [ed.Point.BASE];
+    const scalars: bigint[] = [BigInt(0)];
+    let baseScalar = BigInt(0);
+
+    for (const item of items) {
+      const message = typeof item.message === 'string' ? stringToBytes(item.message) : item.message;
+      const signature = hexToBytes(item.signature);
+      const publicKey = hexToBytes(item.publicKey);
+      if (signature.length !== 64 || publicKey.length !== 32) return false;
+
+      const r = signature.subarray(0, 32);
+      const sigS = bytesToNumberLE(signature.subarray(32));
+      if (sigS >= ED25519_ORDER) return false;
+
+      const R = ed.Point.fromBytes(r, true);
+      const A = ed.Point.fromBytes(publicKey, true);
+      const k = ed.etc.mod(bytesToNumberLE(sha512(ed.etc.concatBytes(r, publicKey, message))), ED25519_ORDER);
+
+      // 128 位随机系数（不为 0）
+      const z = bytesToNumberLE(ed.etc.randomBytes(16)) | BigInt(1);
+      baseScalar = ed.etc.mod(baseScalar + z * sigS, ED25519_ORDER);
+      points.push(R, A);
+      scalars.push(z, ed.etc.mod(z * k, ED25519_ORDER));
+    }
+
+    scalars[0] = ed.etc.mod(-baseScalar, ED25519_ORDER);
+    return multiScalarMultiply(points, scalars).clearCofactor().is0();
+  } catch (error) {
+    console.error('[Crypto] Batch verify failed:', error);
+    return false;
+  }
+}
+
 // ============================================
 // 地址与辅助函数 (保持逻辑一致)
 // ============================================
@@ -215,13 +435,51 @@ export function isValidAddress(address: string): boolean {
   return clean.length === 40 && /^[0-9a-fA-F]+$/.test(clean);
 }
 
-export function createSignData(tx: {
+// ============================================
+// 签名载荷（版本化、带签名域）
+// ============================================
+
+/** 当前签名载荷版本；0 为不含链标识的旧版载荷 */
+export const SIGNATURE_VERSION = 1;
+
+/**
+ * 版本化签名载荷：在原有字段之外加入版本、类型标签与签名域，按 key 排序序列化
+ */
+function createDomainSignData(
+  type: SignatureType,
+  domain: SigningDomain,
+  payload: Record<string, string | number>
+): string {
+  const data = {
+    ...payload,
+    version: SIGNATURE_VERSION,
+    type,
+    chainId: domain.chainId,
+    networkId: domain.networkId,
+  };
+  return JSON.stringify(data, Object.keys(data).sort());
+}
+
+/**
+ * 签名所覆盖的交易字段（金额与 Gas 参数为十进制字符串）
+ */
+export interface TransactionSignFields {
   from: string;
   to: string;
   amount: string;
   nonce: number;
   timestamp: number;
-}): string {
+  gasPrice: string;
+  gasLimit: string;
+  /** 交易类型（缺省为转账） */
+  action?: string;
+}
+
+/**
+ * 交易签名载荷：提供 domain 时为版本化载荷（包含 gasPrice / gasLimit，手续费由发送方签名确认；
+ * 非转账交易还包含 action），否则为旧版载荷（不含 Gas 参数与交易类型，只能用于转账）
+ */
+export function createSignData(tx: TransactionSignFields, domain?: SigningDomain): string {
   const data = {
     from: tx.from.toLowerCase(),
     to: tx.to.toLowerCase(),
@@ -229,35 +487,191 @@ export function createSignData(tx: {
     nonce: tx.nonce,
     timestamp: tx.timestamp,
   };
+  if (domain) {
+    const payload: Record<string, string | number> = { ...data, gasPrice: tx.gasPrice, gasLimit: tx.gasLimit };
+    if (tx.action && tx.action !== 'transfer') {
+      payload.action = tx.action;
+    }
+    return createDomainSignData('tx', domain, payload);
+  }
   return JSON.stringify(data, Object.keys(data).sort());
 }
 
 export async function signTransaction(
-  tx: { from: string; to: string; amount: string; nonce: number; timestamp: number; },
-  privateKeyHex: HexString
+  tx: TransactionSignFields,
+  privateKeyHex: HexString,
+  domain?: SigningDomain
 ): Promise<Signature> {
-  return signWithPrivateKey(createSignData(tx), privateKeyHex);
+  return signWithPrivateKey(createSignData(tx, domain), privateKeyHex);
 }
 
+/**
+ * 按交易声明的 signatureVersion 选择签名载荷（版本化载荷需要 domain），版本不受支持时返回 undefined
+ */
+function transactionSignPayload(
+  tx: TransactionSignFields & { signatureVersion?: number; },
+  domain?: SigningDomain
+): string | undefined {
+  if (tx.signatureVersion) {
+    if (tx.signatureVersion !== SIGNATURE_VERSION || !domain) return undefined;
+    return createSignData(tx, domain);
+  }
+  return createSignData(tx);
+}
+
+/**
+ * 按交易声明的 signatureVersion 选择载荷验签（版本化载荷需要 domain）
+ */
 export async function verifyTransactionSignature(
-  tx: { from: string; to: string; amount: string; nonce: number; timestamp: number; signature: string; },
-  publicKeyHex: HexString
+  tx: TransactionSignFields & { signature: string; signatureVersion?: number; },
+  publicKeyHex: HexString,
+  domain?: SigningDomain
 ): Promise<boolean> {
-  return verifySignature(createSignData(tx), tx.signature, publicKeyHex);
+  const payload = transactionSignPayload(tx, domain);
+  if (payload === undefined) return false;
+  return verifySignature(payload, tx.signature, publicKeyHex);
+}
+
+/**
+ * 批量验证一组交易签名（各交易使用自带的 publicKey）
+ * 先对全部签名做一次批量验签（见 verifySignaturesBatch）；批量未通过时逐笔验证，定位无效的交易
+ * 返回与输入顺序一致的结果
+ */
+export async function verifyTransactionSignaturesBatch(
+  txs: Array<TransactionSignFields & { signature: string; signatureVersion?: number; publicKey: HexString; }>,
+  domain?: SigningDomain
+): Promise<boolean[]> {
+  const payloads = txs.map(tx => transactionSignPayload(tx, domain));
+  if (payloads.every(payload => payload !== undefined)) {
+    const batch = txs.map((tx, i) => ({ message: payloads[i]!, signature: tx.signature, publicKey: tx.publicKey }));
+    if (verifySignaturesBatch(batch)) {
+      return txs.map(() => true);
+    }
+  }
+  return Promise.all(txs.map(tx => verifyTransactionSignature(tx, tx.publicKey, domain)));
 }
 
-export function createBlockSignData(blockHash: BlockHash): string {
+/**
+ * 区块签名载荷：验证者投票（vote）与提议者签名（proposal）使用不同类型标签
+ * 未提供 domain 时为旧版载荷 `block:<hash>`
+ */
+export function createBlockSignData(
+  blockHash: BlockHash,
+  domain?: SigningDomain,
+  type: 'vote' | 'proposal' = 'vote'
+): string {
+  if (domain) {
+    return createDomainSignData(type, domain, { blockHash });
+  }
   return `block:${blockHash}`;
 }
 
-export async function signBlock(blockHash: BlockHash, privateKeyHex: HexString): Promise<Signature> {
-  return signWithPrivateKey(createBlockSignData(blockHash), privateKeyHex);
+export async function signBlock(
+  blockHash: BlockHash,
+  privateKeyHex: HexString,
+  domain?: SigningDomain,
+  type: 'vote' | 'proposal' = 'vote'
+): Promise<Signature> {
+  return signWithPrivateKey(createBlockSignData(blockHash, domain, type), privateKeyHex);
 }
 
-export async function verifyBlockSignature(blockHash: BlockHash, signature: Signature, publicKeyHex: HexString): Promise<boolean> {
+/**
+ * 验证区块签名：提供 scheme 时先按版本化载荷验证，激活高度之前回退到旧版载荷
+ */
+export async function verifyBlockSignature(
+  blockHash: BlockHash,
+  signature: Signature,
+  publicKeyHex: HexString,
+  scheme?: SignatureScheme,
+  type: 'vote' | 'proposal' = 'vote'
+): Promise<boolean> {
+  if (scheme && await verifySignature(createBlockSignData(blockHash, scheme.domain, type), signature, publicKeyHex)) {
+    return true;
+  }
+  if (scheme && !scheme.allowLegacy) {
+    return false;
+  }
   return verifySignature(createBlockSignData(blockHash), signature, publicKeyHex);
 }
 
+/**
+ * 验证者集合哈希：按公钥排序的 (公钥, 权重) 与是否质押加权
+ * 权重可以是 bigint 或其十进制字符串（JSON 传输后）
+ */
+export async function hashValidatorSet(set: {
+  members: Array<{ publicKey: HexString; weight: bigint | string }>;
+  stakeWeighted: boolean;
+}): Promise<HexString> {
+  const members = set.members
+    .map(m => `${m.publicKey.toLowerCase()}:${m.weight.toString()}`)
+    .sort();
+  return sha256Hex(`validator-set:${set.stakeWeighted ? 'stake' : 'equal'}:${members.join(',')}`);
+}
+
+/**
+ * 验证提交证书
+ * 1. 验证者集合与 validatorSetHash 一致，且就是调用方信任的集合（不接受证书自报的集合）；可选：签名域一致
+ * 2. 每个签名来自集合成员且为有效的投票签名（同一验证者只计一次）；
+ *    旧版无域标签的签名只在 signatureActivationHeight 之前的高度接受，不采信证书中的 legacySignatures
+ * 3. 签名权重按法定人数规则重新计算阈值，不信任证书中的 threshold
+ */
+export async function verifyCommit(
+  certificate: CommitCertificate,
+  trustedValidatorSetHash: HexString,
+  signatureActivationHeight: number,
+  expectedDomain?: SigningDomain
+): Promise<CommitVerification> {
+  const weights = new Map(certificate.validatorSet.members.map(m => [m.publicKey.toLowerCase(), BigInt(m.weight)]));
+  const totalWeight = [...weights.values()].reduce((sum, weight) => sum + weight, BigInt(0));
+  const result: CommitVerification = {
+    valid: false,
+    signers: 0,
+    validators: weights.size,
+    signedWeight: BigInt(0),
+    totalWeight,
+    threshold: quorumThreshold(totalWeight),
+  };
+
+  if (certificate.quorumRule !== COMMIT_QUORUM_RULE) {
+    return { ...result, error: `Unsupported quorum rule: ${certificate.quorumRule}` };
+  }
+
+  const setHash = await hashValidatorSet(certificate.validatorSet);
+  if (setHash !== certificate.validatorSetHash.toLowerCase()) {
+    return { ...result, error: 'Validator set hash mismatch' };
+  }
+  if (trustedValidatorSetHash.toLowerCase() !== setHash) {
+    return { ...result, error: 'Validator set is not trusted' };
+  }
+  if (expectedDomain && (
+    certificate.domain.chainId !== expectedDomain.chainId ||
+    certificate.domain.networkId !== expectedDomain.networkId
+  )) {
+    return { ...result, error: `Certificate is for chain ${certificate.domain.chainId}/${certificate.domain.networkId}` };
+  }
+
+  const scheme: SignatureScheme = {
+    domain: certificate.domain,
+    allowLegacy: certificate.height < signatureActivationHeight,
+  };
+
+  const signed = await Promise.all(certificate.signatures.map(async vote => {
+    const publicKey = vote.validatorPubKey.toLowerCase();
+    if (!weights.has(publicKey)) return undefined;
+    const valid = await verifyBlockSignature(certificate.blockHash, vote.signature, vote.validatorPubKey, scheme);
+    return valid ? publicKey : undefined;
+  }));
+  const signers = new Set(signed.filter((key): key is string => key !== undefined));
+
+  result.signers = signers.size;
+  result.signedWeight = [...signers].reduce((sum, key) => sum + weights.get(key)!, BigInt(0));
+  result.valid = result.signedWeight >= result.threshold;
+  if (!result.valid) {
+    result.error = `Insufficient voting power. Required: ${result.threshold}, got: ${result.signedWeight}`;
+  }
+  return result;
+}
+
 export function generateNonce(): number {
   return Math.floor(Math.random() * 1000000);
 }
@@ -3,38 +3,73 @@
  * Cloudflare Serverless Blockchain MVP
  * ConsensusCoordinator - Durable Object
  * ============================================
- * 
+ *
  * 核心职责：
  * 1. 存储 World State（强一致）
  * 2. 管理 Pending Queue（防双花关键）
  * 3. 原子性区块提交（storage.transaction）
  * 4. Alarm 兜底机制（5分钟超时强制出块）
- * 
+ *
  * 设计原则：
  * - 所有状态变更必须通过 storage.transaction 原子执行
- * - Pending Queue 存储在 DO 内存（强一致），绝不用 KV
+ * - Pending Queue 存储在 DO storage（强一致），绝不用 KV
  * - processing 标志作为并发锁，防止双花
+ * - 区块、账户、待处理交易按行存储（见 ./storage），事务只写改动的行
  */
 
 import {
   TransactionStatus,
   ConsensusState,
+  COMMIT_QUORUM_RULE,
 } from '../types';
 
 import type {
   Transaction,
   Block,
   WorldState,
+  ChainMeta,
   PendingQueue,
+  PendingQueueState,
+  PendingEntry,
+  TxLocation,
+  AccountState,
   ConsensusConfig,
   ConsensusCoordinatorState,
   StateQueryResponse,
   BlockQueryResponse,
   TransactionReceipt,
+  TransactionProofResponse,
+  AccountProofResponse,
+  AccountAtHeightResponse,
+  StateLeavesResponse,
+  AccountBalanceHistory,
+  AccountHistoryQuery,
+  BlockStateDiff,
+  EvictedTransaction,
+  ReplacedTransaction,
+  EquivocationEvidence,
+  EvidenceRecord,
+  ValidatorSet,
+  GenesisValidator,
+  ValidatorsResponse,
+  AccountStakeResponse,
+  DelegationState,
+  ValidatorStakeState,
+  ProposerView,
+  CommitCertificate,
+  SignedHeader,
+  HeadersResponse,
+  SignatureScheme,
+  StateWitness,
+  AccountTransactionsQuery,
+  AccountTransactionsPage,
   ValidatorVote,
+  GenesisConfig,
   HexString,
   Address,
   BlockHash,
+  TxHash,
+  Timestamp,
   ApiEnv,
 } from '../types';
 
@@ -42,18 +77,111 @@ import {
   hashBlock,
   hashTransaction,
   computeMerkleRoot,
+  computeMerkleProof,
   addHexPrefix,
-  sha256Hex,
-  objectToBytes,
   verifyBlockSignature,
+  hashValidatorSet,
+  publicKeyToAddress,
+  SIGNATURE_VERSION,
 } from '../crypto';
 
 import {
   DEFAULT_GENESIS_CONFIG,
   generateGenesisBlock,
   generateInitialWorldState,
+  loadAuthorizedProposers,
+  loadSignatureScheme,
+  loadSignatureActivationHeight,
+  loadFeeConfig,
+  loadFeeRecipient,
+  loadGenesisConfig,
+  calculateBlockRewards,
+  calculateLockedBalances,
 } from './genesis';
 
+import {
+  STORAGE_KEYS,
+  STORAGE_PREFIXES,
+  STORAGE_SCHEMA_VERSION,
+  accountKey,
+  blockKey,
+  pendingKey,
+  getMany,
+  putMany,
+  deleteMany,
+  evictedKey,
+  listEvictedTransactions,
+  replacedKey,
+  evidenceKey,
+  listEvidence,
+  commitKey,
+  loadAccount,
+  loadAccounts,
+  loadWorldState,
+  loadPendingTransactions,
+  loadSenderPendingTransactions,
+  buildPendingRows,
+  deletePendingTransactions,
+  writeSnapshot,
+  readSnapshot,
+  migrateStorage,
+  buildBlockIndexes,
+  listAddressTxIndex,
+  txIndexKey,
+  createStateTreeStore,
+  flushStateTree,
+  buildAccountHistory,
+  findAccountHistoryAt,
+  listAccountHistory,
+  blockDiffKey,
+  delegationKey,
+  loadValidatorStakes,
+  loadStakingState,
+  listDelegations,
+  buildStakingRows,
+} from './storage';
+
+import {
+  EMPTY_STATE_ROOT,
+  updateStateTree,
+  getStateProof,
+  listStateLeaves,
+  accountStateKey,
+} from '../state-tree';
+import type { AccountLeafValue } from '../state-tree';
+
+import {
+  collectTouchedAddresses,
+  executeTransactions,
+  buildAccountUpdates,
+  cloneAccounts,
+  revalidatePendingTransactions,
+  selectTransactionsForBlock,
+  nextPendingNonce,
+  buildStateDiff,
+  transactionFee,
+  transactionCost,
+  checkGasLimits,
+  minimumReplacementGasPrice,
+} from '../execution';
+import type { StorageReader } from './storage';
+import {
+  isStakingAction,
+  checkStakingTransaction,
+  delegationId,
+  collectDelegationIds,
+  bondedStake,
+  bondedStakeByPublicKey,
+  describeDelegationRewards,
+  buildStakingUpdates,
+  createStakingState,
+  emptyDelegation,
+  reviveStakingSnapshot,
+} from '../staking';
+
+import { buildValidatorSet, requiredSignatureCount, tallyVotingPower } from '../quorum';
+import { scheduledProposer, currentRound, roundStartsAt, nextScheduledRound } from '../schedule';
+
 // ============================================
 // 常量定义
 // ============================================
@@ -61,6 +189,31 @@ import {
 /** 创世区块哈希 */
 const GENESIS_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
 
+/** 账户交易分页默认 / 最大条数 */
+const DEFAULT_TX_PAGE_SIZE = 50;
+const MAX_TX_PAGE_SIZE = 100;
+
+/** 每个发送方最多排队的交易数（也是 nonce 可超前的窗口） */
+const MAX_PENDING_PER_SENDER = 16;
+
+/** 淘汰记录默认 / 最大条数 */
+const DEFAULT_EVICTED_LIMIT = 50;
+const MAX_EVICTED_LIMIT = 200;
+
+/** 双签证据默认 / 最大条数 */
+const DEFAULT_EVIDENCE_LIMIT = 50;
+const MAX_EVIDENCE_LIMIT = 200;
+
+/** 单次区块头同步的最大条数 */
+const MAX_HEADER_RANGE = 100;
+
+/** 状态树叶子单页的最大条数（副本从检查点重建时分页读取） */
+const MAX_STATE_LEAVES_PAGE = 500;
+
+/** 余额历史默认 / 最大条数 */
+const DEFAULT_HISTORY_LIMIT = 100;
+const MAX_HISTORY_LIMIT = 500;
+
 /** 默认共识配置 */
 const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
   blockMaxTxs: 20,
@@ -68,7 +221,8 @@ const DEFAULT_CONSENSUS_CONFIG: ConsensusConfig = {
   consensusTimeoutMs: 3000,
   alarmTimeoutMs: 300000, // 5 分钟
   validators: [],
-  requiredSignatures: 2,
+  requiredSignatures: requiredSignatureCount(0),
+  stakeWeighted: false,
 };
 
 /** 初始世界状态 - 从创世配置加载 */
@@ -82,6 +236,7 @@ const createInitialWorldState = (): WorldState => {
     latestBlockHeight: 0,
     latestBlockHash: GENESIS_HASH,
     genesisHash: GENESIS_HASH,
+    stateRoot: EMPTY_STATE_ROOT, // 写入时由账户重建
     totalTransactions: 0,
     lastUpdated: Date.now(),
   };
@@ -94,6 +249,18 @@ const createInitialPendingQueue = (): PendingQueue => ({
   processing: false,
 });
 
+/** 初始链元数据 */
+const createInitialMeta = (): ChainMeta => {
+  const { balances, nonces, ...meta } = createInitialWorldState();
+  return meta;
+};
+
+/** 初始队列锁状态 */
+const createInitialQueueState = (): PendingQueueState => {
+  const { transactions, ...queueState } = createInitialPendingQueue();
+  return queueState;
+};
+
 // ============================================
 // ConsensusCoordinator Durable Object
 // ============================================
@@ -103,9 +270,6 @@ export class ConsensusCoordinator {
   private env: unknown;
 
   // 缓存数据（减少 storage 读取）
-  private worldState: WorldState | null = null;
-  private pendingQueue: PendingQueue | null = null;
-  private blockHistory: Map<number, Block> = new Map();
   private consensusConfig: ConsensusConfig = DEFAULT_CONSENSUS_CONFIG;
   private lastBackupTime: number = 0;
 
@@ -113,8 +277,8 @@ export class ConsensusCoordinator {
     this.state = state;
     this.env = env;
 
-    // 初始化时加载数据
-    this.initialize();
+    // 初始化（含旧版存储迁移）完成前不处理任何请求
+    this.state.blockConcurrencyWhile(() => this.initialize());
   }
 
   // ============================================
@@ -122,39 +286,48 @@ export class ConsensusCoordinator {
   // ============================================
 
   private async initialize(): Promise<void> {
-    // 尝试从 storage 加载
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-
-    if (stored) {
-      this.worldState = stored.worldState;
-      this.pendingQueue = stored.pendingQueue;
-      this.consensusConfig = stored.consensusConfig || DEFAULT_CONSENSUS_CONFIG;
-      this.lastBackupTime = stored.lastBackupTime || 0;
-      this.blockHistory = new Map(
-        Object.entries(stored.blockHistory).map(([h, b]) => [Number(h), b])
-      );
+    const storage = this.state.storage;
+
+    // 旧版单 blob 布局一次性迁移
+    await migrateStorage(storage);
+
+    const meta = await storage.get<ChainMeta>(STORAGE_KEYS.meta);
+
+    if (meta) {
+      this.consensusConfig = (await storage.get<ConsensusConfig>(STORAGE_KEYS.config)) || DEFAULT_CONSENSUS_CONFIG;
+      this.lastBackupTime = (await storage.get<number>(STORAGE_KEYS.lastBackupTime)) || 0;
     } else {
       console.log('[ConsensusCoordinator] No stored state found, initializing from Genesis...');
-      this.worldState = createInitialWorldState();
-      this.pendingQueue = createInitialPendingQueue();
       this.lastBackupTime = 0;
-      await this.persistState();
+      await writeSnapshot(storage, {
+        worldState: createInitialWorldState(),
+        pendingQueue: createInitialPendingQueue(),
+        blockHistory: {},
+        consensusConfig: this.consensusConfig,
+      });
     }
   }
 
   /**
-   * 持久化状态到 storage
+   * 用完整快照替换全部存储（创世重置 / 备份恢复）
    */
-  private async persistState(): Promise<void> {
-    const state: ConsensusCoordinatorState = {
-      worldState: this.worldState!,
-      pendingQueue: this.pendingQueue!,
-      blockHistory: Object.fromEntries(this.blockHistory),
-      consensusConfig: this.consensusConfig,
-      lastBackupTime: this.lastBackupTime,
-    };
+  private async replaceStorage(snapshot: ConsensusCoordinatorState): Promise<void> {
+    const storage = this.state.storage;
+
+    await storage.deleteAll();
+    await writeSnapshot(storage, snapshot);
+    await storage.put(STORAGE_KEYS.schemaVersion, STORAGE_SCHEMA_VERSION);
 
-    await this.state.storage.put('state', state);
+    this.consensusConfig = snapshot.consensusConfig;
+    this.lastBackupTime = snapshot.lastBackupTime || 0;
+  }
+
+  private async loadMeta(reader: StorageReader): Promise<ChainMeta> {
+    return (await reader.get<ChainMeta>(STORAGE_KEYS.meta)) || createInitialMeta();
+  }
+
+  private async loadQueueState(reader: StorageReader): Promise<PendingQueueState> {
+    return (await reader.get<PendingQueueState>(STORAGE_KEYS.queue)) || createInitialQueueState();
   }
 
   // ============================================
@@ -165,49 +338,138 @@ export class ConsensusCoordinator {
    * 添加交易到 Pending Queue
    * 关键：这是防双花的第一道防线
    */
-  async addTransaction(tx: Transaction): Promise<{ success: boolean; error?: string }> {
+  async addTransaction(tx: Transaction): Promise<{ success: boolean; error?: string; replacedTxHash?: TxHash }> {
+    const activationHeight = tx.signatureVersion ? 0 : await loadSignatureActivationHeight(this.apiEnv.CONFIG_KV);
+
+    // Gas 参数必须在创世配置允许的范围内
+    const feeConfig = await loadFeeConfig(this.apiEnv.CONFIG_KV);
+    const gasError = checkGasLimits(tx, feeConfig);
+    if (gasError) {
+      return { success: false, error: gasError };
+    }
+
+    // 预挖锁仓只减不增，按当前时间检查即可保证打包时仍然有效
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+    const genesisTime = await this.loadGenesisTime(this.state.storage, genesisConfig);
+    const locked = calculateLockedBalances(genesisConfig, genesisTime, Date.now())
+      .get(tx.from.toLowerCase()) ?? BigInt(0);
+
+    // 质押操作只接受版本化签名（旧版载荷不覆盖 action），且只能绑定到创世验证者
+    if (isStakingAction(tx.action)) {
+      if (!tx.signatureVersion) {
+        return { success: false, error: `Staking transactions must be signed with signatureVersion ${SIGNATURE_VERSION}` };
+      }
+      const stakingError = checkStakingTransaction(tx, genesisConfig.validators);
+      if (stakingError) {
+        return { success: false, error: stakingError };
+      }
+    }
+
     // 使用原子事务确保一致性
     return this.state.storage.transaction(async (txn) => {
-      // 重新加载最新状态（防止并发）
-      const stored = await txn.get<ConsensusCoordinatorState>('state');
-      const queue = stored?.pendingQueue || createInitialPendingQueue();
-      const worldState = stored?.worldState || createInitialWorldState();
+      // 激活高度之后拒绝不含链标识的旧版签名载荷
+      if (!tx.signatureVersion) {
+        const nextHeight = (await this.loadMeta(txn)).latestBlockHeight + 1;
+        if (nextHeight >= activationHeight) {
+          return {
+            success: false,
+            error: `Legacy signature payload is not accepted from height ${activationHeight}. Sign with signatureVersion ${SIGNATURE_VERSION}`
+          };
+        }
+      }
 
       // 检查是否已在队列中（防双花）
-      const exists = queue.transactions.some(t => t.hash === tx.hash);
+      const exists = await txn.get<PendingEntry>(pendingKey(tx.hash));
       if (exists) {
         return { success: false, error: 'Transaction already in queue' };
       }
 
-      // 检查 nonce（防重放）
-      const currentNonce = worldState.nonces[tx.from] || 0;
-      if (tx.nonce !== currentNonce) {
+      // 检查是否已在历史区块中确认（O(1) 哈希索引）
+      const confirmed = await txn.get<TxLocation>(txIndexKey(tx.hash));
+      if (confirmed) {
+        return { success: false, error: `Transaction already included in block ${confirmed.height}` };
+      }
+
+      // 只读取发送方账户及其待处理交易
+      const account = await loadAccount(txn, tx.from);
+      const from = tx.from.toLowerCase();
+      const queued = await loadSenderPendingTransactions(txn, from);
+
+      // 检查 nonce（防重放）：允许在已排队的交易之后继续排队，nonce 可以超前但不能超出窗口
+      const currentNonce = account.nonce;
+      if (tx.nonce < currentNonce || tx.nonce >= currentNonce + MAX_PENDING_PER_SENDER) {
         return {
           success: false,
-          error: `Invalid nonce. Expected: ${currentNonce}, got: ${tx.nonce}`
+          error: `Invalid nonce. Expected: ${nextPendingNonce(currentNonce, queued.map(p => p.nonce))}, got: ${tx.nonce}`
         };
       }
 
-      // 检查余额
-      const balance = worldState.balances[tx.from] || BigInt(0);
-      if (balance < tx.amount) {
-        return { success: false, error: 'Insufficient balance' };
+      // 同 nonce 已在队列中：只有 gasPrice 提高足够幅度才能替换（替换费用）
+      const replaced = queued.find(p => p.nonce === tx.nonce);
+      if (replaced) {
+        const queueState = await this.loadQueueState(txn);
+        if (queueState.processing && queueState.currentBlock?.transactions.some(p => p.hash === replaced.hash)) {
+          return { success: false, error: `Nonce ${tx.nonce} for ${from} is already being packed into a block` };
+        }
+        const minGasPrice = minimumReplacementGasPrice(replaced.gasPrice, feeConfig.replacementFeeBump);
+        if (tx.gasPrice < minGasPrice) {
+          return {
+            success: false,
+            error: `Replacement gas price too low for nonce ${tx.nonce}. Minimum: ${minGasPrice}, got: ${tx.gasPrice}`
+          };
+        }
+      }
+      const senderPending = replaced ? queued.filter(p => p.hash !== replaced.hash) : queued;
+      if (senderPending.length >= MAX_PENDING_PER_SENDER) {
+        return { success: false, error: `Too many pending transactions for ${from} (max ${MAX_PENDING_PER_SENDER})` };
       }
 
-      // 添加到队列
-      queue.transactions.push(tx);
-      queue.lastUpdated = Date.now();
+      // 检查余额：金额 + 手续费，扣除该发送方已排队交易的支出（同样含手续费）
+      const pendingSpend = senderPending.reduce((sum, p) => sum + transactionCost(p), BigInt(0));
+      const cost = transactionCost(tx);
+      if (account.balance - pendingSpend < cost) {
+        return {
+          success: false,
+          error: `Insufficient balance. Available: ${account.balance - pendingSpend} (pending spends: ${pendingSpend}), needs: ${cost} (amount ${cost - transactionFee(tx)} + fee ${transactionFee(tx)})`
+        };
+      }
 
-      // 更新状态
-      const newState: ConsensusCoordinatorState = {
-        ...stored!,
-        pendingQueue: queue,
-      };
+      // 检查锁仓：转出后余额不得低于仍锁定的预挖数量
+      if (account.balance - pendingSpend - cost < locked) {
+        const unlocked = account.balance - pendingSpend - locked;
+        return {
+          success: false,
+          error: `Transfer exceeds unlocked balance. Unlocked: ${unlocked > BigInt(0) ? unlocked : BigInt(0)} (locked: ${locked}, pending spends: ${pendingSpend}), needs: ${cost}`
+        };
+      }
 
-      await txn.put('state', newState);
+      // 解除质押：扣除同一委托已排队的解除数量
+      if (tx.action === 'unstake' || tx.action === 'undelegate') {
+        const to = tx.to.toLowerCase();
+        const delegation = await txn.get<DelegationState>(delegationKey(delegationId(from, to)));
+        const pendingUnbond = senderPending
+          .filter(p => (p.action === 'unstake' || p.action === 'undelegate') && p.to.toLowerCase() === to)
+          .reduce((sum, p) => sum + p.amount, BigInt(0));
+        const available = (delegation?.amount ?? BigInt(0)) - pendingUnbond;
+        if (available < tx.amount) {
+          return {
+            success: false,
+            error: `Insufficient bonded stake on ${to}. Available: ${available} (pending unbonds: ${pendingUnbond}), requested: ${tx.amount}`
+          };
+        }
+      }
 
-      // 更新本地缓存
-      this.pendingQueue = queue;
+      // 添加到队列（只写入一行）
+      const now = Date.now();
+      await putMany(txn, buildPendingRows(tx, now));
+
+      // 被替换的交易移出队列，并记录下来供 /tx/:hash 查询
+      if (replaced) {
+        const record: ReplacedTransaction = { tx: replaced, replacedBy: tx.hash, replacedAt: now };
+        await txn.put(replacedKey(replaced.hash), record);
+        await deletePendingTransactions(txn, [replaced]);
+        return { success: true, replacedTxHash: replaced.hash };
+      }
 
       return { success: true };
     });
@@ -221,7 +483,8 @@ export class ConsensusCoordinator {
       console.log('[ConsensusCoordinator] Initializing genesis...');
 
       // 安全检查：如果区块高度已经大于 0，禁止普通重置。除非显式使用 force 参数。
-      if (this.worldState && this.worldState.latestBlockHeight > 0 && !force) {
+      const currentMeta = await this.loadMeta(this.state.storage);
+      if (currentMeta.latestBlockHeight > 0 && !force) {
         console.warn('[ConsensusCoordinator] Block height > 0, initialization rejected without force.');
         return { success: false, error: 'Blockchain already initialized. Use force=true to override.' };
       }
@@ -246,6 +509,7 @@ export class ConsensusCoordinator {
         latestBlockHeight: 0,
         latestBlockHash: genesisBlock.hash,
         genesisHash: genesisBlock.hash,
+        stateRoot: genesisBlock.header.stateRoot,
         totalTransactions: genesisBlock.transactions.length,
         lastUpdated: Date.now(),
       };
@@ -254,22 +518,18 @@ export class ConsensusCoordinator {
       const consensusConfig: ConsensusConfig = {
         ...this.consensusConfig,
         validators: initialState.validatorPublicKeys,
-        requiredSignatures: Math.ceil(initialState.validatorPublicKeys.length * 2 / 3),
+        requiredSignatures: requiredSignatureCount(initialState.validatorPublicKeys.length),
+        stakeWeighted: config.stakeWeightedQuorum,
       };
 
-      const newState: ConsensusCoordinatorState = {
+      // 重置全部存储（保留备份时间）
+      await this.replaceStorage({
         worldState,
         pendingQueue: createInitialPendingQueue(),
         blockHistory: { 0: genesisBlock },
         consensusConfig,
-      };
-
-      await this.state.storage.put('state', newState);
-
-      // 更新本地状态
-      this.worldState = worldState;
-      this.pendingQueue = newState.pendingQueue;
-      this.consensusConfig = consensusConfig;
+        lastBackupTime: this.lastBackupTime,
+      });
 
       console.log('[ConsensusCoordinator] Genesis initialized:', genesisBlock.hash);
       return { success: true };
@@ -283,8 +543,9 @@ export class ConsensusCoordinator {
    * 获取 Pending Queue 状态 (Existing method)
    */
   async getPendingQueue(): Promise<PendingQueue> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    return stored?.pendingQueue || createInitialPendingQueue();
+    const queueState = await this.loadQueueState(this.state.storage);
+    const transactions = await loadPendingTransactions(this.state.storage);
+    return { ...queueState, transactions };
   }
 
   /**
@@ -302,75 +563,107 @@ export class ConsensusCoordinator {
   /**
    * 尝试获取处理锁
    * 关键：防止并发双花
+   * 只有当前高度与轮次被调度的提议者能获得锁；未轮到时返回其下一次被调度的等待时间
    */
-  async acquireProcessingLock(): Promise<{ success: boolean; queue?: PendingQueue; error?: string }> {
+  async acquireProcessingLock(proposerId: string): Promise<{
+    success: boolean;
+    queue?: PendingQueue;
+    view?: ProposerView;
+    retryAfterMs?: number;
+    error?: string;
+  }> {
+    const proposers = await loadAuthorizedProposers(this.apiEnv.CONFIG_KV);
+    if (!proposers.some(p => p.id === proposerId)) {
+      return { success: false, error: `Unknown proposer: ${proposerId}` };
+    }
+
     return this.state.storage.transaction(async (txn) => {
-      const stored = await txn.get<ConsensusCoordinatorState>('state');
-      const queue = stored?.pendingQueue || createInitialPendingQueue();
+      const queueState = await this.loadQueueState(txn);
+
+      // 检查队列是否有交易
+      const transactions = await loadPendingTransactions(txn);
+      if (transactions.length === 0) {
+        return { success: false, error: 'No pending transactions' };
+      }
+
+      // 当前视图：新高度的首次尝试开始计时，轮次按 consensusTimeoutMs 推进
+      const now = Date.now();
+      const meta = await this.loadMeta(txn);
+      const height = meta.latestBlockHeight + 1;
+      if (!queueState.view || queueState.view.height !== height) {
+        queueState.view = { height, startedAt: now };
+        await txn.put(STORAGE_KEYS.queue, queueState);
+      }
+      const timeoutMs = this.consensusConfig.consensusTimeoutMs;
+      const round = currentRound(queueState.view.startedAt, now, timeoutMs);
+      const view: ProposerView = {
+        ...queueState.view,
+        round,
+        proposer: scheduledProposer(proposers, height, round).id,
+      };
+
+      if (view.proposer !== proposerId) {
+        const nextRound = nextScheduledRound(proposers, height, round + 1, proposerId)!;
+        return {
+          success: false,
+          view,
+          retryAfterMs: roundStartsAt(view.startedAt, nextRound, timeoutMs) - now,
+          error: `Proposer ${proposerId} is not scheduled for height ${height} round ${round} (scheduled: ${view.proposer})`,
+        };
+      }
 
       // 检查是否已有处理中
-      if (queue.processing) {
+      if (queueState.processing) {
+        // 锁属于更早的轮次时已被 view change 取代，直接接管
+        const superseded = queueState.processingRound !== undefined && queueState.processingRound < round;
         // 检查是否超时（防止死锁）
-        if (queue.processingStartedAt) {
-          const elapsed = Date.now() - queue.processingStartedAt;
-          if (elapsed < this.consensusConfig.consensusTimeoutMs) {
-            return { success: false, error: 'Processing in progress' };
+        if (!superseded && queueState.processingStartedAt) {
+          const elapsed = now - queueState.processingStartedAt;
+          if (elapsed < timeoutMs) {
+            return { success: false, view, error: 'Processing in progress' };
           }
           // 超时，重置锁
         }
       }
 
-      // 检查队列是否有交易
-      if (queue.transactions.length === 0) {
-        return { success: false, error: 'No pending transactions' };
-      }
-
-      // 获取锁
-      queue.processing = true;
-      queue.processingStartedAt = Date.now();
-      queue.lastUpdated = Date.now();
-
-      const newState: ConsensusCoordinatorState = {
-        ...stored!,
-        pendingQueue: queue,
-      };
-
-      await txn.put('state', newState);
+      // 获取锁（只写入 queue 行）
+      queueState.processing = true;
+      queueState.processingStartedAt = now;
+      queueState.processingRound = round;
+      queueState.lastUpdated = now;
 
-      // 更新本地缓存
-      this.pendingQueue = queue;
+      await txn.put(STORAGE_KEYS.queue, queueState);
 
-      return { success: true, queue };
+      return { success: true, view, queue: { ...queueState, transactions } };
     });
   }
 
   /**
    * 释放处理锁
+   * 指定 round 时只释放该轮次持有的锁（锁可能已被 view change 后的提议者接管）
    */
-  async releaseProcessingLock(clearQueue: boolean = false): Promise<void> {
+  async releaseProcessingLock(clearQueue: boolean = false, round?: number): Promise<void> {
     await this.state.storage.transaction(async (txn) => {
-      const stored = await txn.get<ConsensusCoordinatorState>('state');
-      const queue = stored?.pendingQueue || createInitialPendingQueue();
+      const queueState = await this.loadQueueState(txn);
 
-      queue.processing = false;
-      queue.processingStartedAt = undefined;
-      queue.currentBlock = undefined;
-
-      if (clearQueue) {
-        queue.transactions = [];
+      if (round !== undefined && queueState.processingRound !== undefined && queueState.processingRound !== round) {
+        return;
       }
 
-      queue.lastUpdated = Date.now();
+      queueState.processing = false;
+      queueState.processingStartedAt = undefined;
+      queueState.processingRound = undefined;
+      queueState.currentBlock = undefined;
 
-      const newState: ConsensusCoordinatorState = {
-        ...stored!,
-        pendingQueue: queue,
-      };
+      if (clearQueue) {
+        const rows = await txn.list({ prefix: STORAGE_PREFIXES.pending });
+        const senderRows = await txn.list({ prefix: STORAGE_PREFIXES.pendingSender });
+        await deleteMany(txn, [...rows.keys(), ...senderRows.keys()]);
+      }
 
-      await txn.put('state', newState);
+      queueState.lastUpdated = Date.now();
 
-      // 更新本地缓存
-      this.pendingQueue = queue;
+      await txn.put(STORAGE_KEYS.queue, queueState);
     });
   }
 
@@ -383,26 +676,32 @@ export class ConsensusCoordinator {
    * 关键：所有状态变更必须在一个事务中完成
    */
   async commitBlock(block: Block, votes: ValidatorVote[]): Promise<{ success: boolean; error?: string }> {
+    const scheme = await this.loadSignatureScheme(block.header.height);
+    const feeRecipient = await loadFeeRecipient(this.apiEnv.CONFIG_KV, block.header.proposer);
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+
     return this.state.storage.transaction(async (txn) => {
       // 重新加载最新状态
-      const stored = await txn.get<ConsensusCoordinatorState>('state');
-      const worldState = stored?.worldState || createInitialWorldState();
-      const queue = stored?.pendingQueue || createInitialPendingQueue();
+      const meta = await this.loadMeta(txn);
 
       // 验证区块高度
-      if (block.header.height !== worldState.latestBlockHeight + 1) {
+      if (block.header.height !== meta.latestBlockHeight + 1) {
         return {
           success: false,
-          error: `Invalid block height. Expected: ${worldState.latestBlockHeight + 1}, got: ${block.header.height}`
+          error: `Invalid block height. Expected: ${meta.latestBlockHeight + 1}, got: ${block.header.height}`
         };
       }
 
       // 验证前一区块哈希
-      if (block.header.prevHash !== worldState.latestBlockHash) {
+      if (block.header.prevHash !== meta.latestBlockHash) {
         return { success: false, error: 'Invalid previous block hash' };
       }
 
-      // 验证签名数（2/3）
+      // 验证签名权重（严格大于验证者集合总权重的 2/3，加权时按执行前的已绑定质押）
+      const validatorSet = await this.loadValidatorSet(txn, genesisConfig.validators);
+      if (block.header.validatorSetHash !== await hashValidatorSet(validatorSet)) {
+        return { success: false, error: 'Block header does not commit to the current validator set' };
+      }
       const validVotes: ValidatorVote[] = [];
       const knownValidators = new Set(this.consensusConfig.validators); // 存储公钥
 
@@ -416,7 +715,7 @@ export class ConsensusCoordinator {
         }
 
         // 2. 验证签名
-        const isValid = await verifyBlockSignature(block.hash, vote.signature, vote.validatorPubKey);
+        const isValid = await verifyBlockSignature(block.hash, vote.signature, vote.validatorPubKey, scheme);
         if (isValid) {
           validVotes.push(vote);
         } else {
@@ -424,89 +723,124 @@ export class ConsensusCoordinator {
         }
       }
 
-      if (validVotes.length < this.consensusConfig.requiredSignatures) {
+      const votingPower = tallyVotingPower(validatorSet, validVotes.map(v => v.validatorPubKey));
+      if (votingPower < validatorSet.threshold) {
         return {
           success: false,
-          error: `Insufficient valid signatures. Required: ${this.consensusConfig.requiredSignatures}, got: ${validVotes.length}`
+          error: `Insufficient voting power. Required: ${validatorSet.threshold}, got: ${votingPower} (${validVotes.length} valid signature(s))`
         };
       }
 
-      // 执行交易，更新状态
-      const executedTxs: Transaction[] = [];
-      const newBalances = { ...worldState.balances };
-      const newNonces = { ...worldState.nonces };
-
-      for (const tx of block.transactions) {
-        // 再次验证 nonce
-        const currentNonce = newNonces[tx.from] || 0;
-        if (tx.nonce !== currentNonce) {
-          // 跳过无效交易（不应发生）
-          continue;
-        }
+      // 质押状态：全部验证者的汇总与区块涉及的委托
+      const staking = await loadStakingState(
+        txn,
+        genesisConfig.validators,
+        collectDelegationIds(block.transactions),
+        genesisConfig.unbondingBlocks ?? DEFAULT_GENESIS_CONFIG.unbondingBlocks
+      );
 
-        // 再次验证余额
-        const fromBalance = newBalances[tx.from] || BigInt(0);
-        if (fromBalance < tx.amount) {
-          // 跳过无效交易
-          continue;
-        }
+      // 区块奖励按上一区块的提交签名分配
+      const rewards = calculateBlockRewards(
+        genesisConfig,
+        block.header.height,
+        block.header.proposer,
+        await this.loadLastCommitSigners(txn, meta.latestBlockHeight),
+        bondedStakeByPublicKey(genesisConfig.validators, staking.records)
+      );
 
-        // 执行转账
-        newBalances[tx.from] = fromBalance - tx.amount;
-        newBalances[tx.to] = (newBalances[tx.to] || BigInt(0)) + tx.amount;
+      // 只加载区块涉及的账户
+      const accounts = await loadAccounts(txn, collectTouchedAddresses(block.transactions, feeRecipient, rewards));
+      const accountsBefore = cloneAccounts(accounts);
+      const now = Date.now();
 
-        // 更新 nonce
-        newNonces[tx.from] = currentNonce + 1;
+      // 执行交易，更新状态（无效交易被跳过并记录原因；手续费计入提议者；最后铸造区块奖励）
+      // 锁仓按区块头时间计算，与提议者和副本一致
+      const genesisTime = await this.loadGenesisTime(txn, genesisConfig);
+      const locked = calculateLockedBalances(genesisConfig, genesisTime, block.header.timestamp);
+      const { executed: executedTxs, failed, changed } = executeTransactions(accounts, block.transactions, now, {
+        height: block.header.height,
+        feeRecipient,
+        rewards,
+        locked,
+        staking,
+      });
 
-        executedTxs.push(tx);
+      // 增量更新状态树（账户与质押叶子），新根必须与验证者签名的区块头一致
+      const treeStore = createStateTreeStore(txn);
+      const stateRoot = await updateStateTree(treeStore, meta.stateRoot, [
+        ...await buildAccountUpdates(accounts, changed),
+        ...await buildStakingUpdates(staking),
+      ]);
+      if (stateRoot !== block.header.stateRoot) {
+        return {
+          success: false,
+          error: `State root mismatch. Computed: ${stateRoot}, header: ${block.header.stateRoot}`
+        };
       }
 
-      // 更新世界状态
-      const newWorldState: WorldState = {
-        balances: newBalances,
-        nonces: newNonces,
+      // 更新链元数据
+      const newMeta: ChainMeta = {
         latestBlockHeight: block.header.height,
         latestBlockHash: block.hash,
-        genesisHash: worldState.genesisHash,
-        totalTransactions: worldState.totalTransactions + executedTxs.length,
-        lastUpdated: Date.now(),
+        genesisHash: meta.genesisHash,
+        stateRoot,
+        totalTransactions: meta.totalTransactions + executedTxs.length,
+        lastUpdated: now,
       };
 
-      // 更新区块历史
-      const newBlockHistory = { ...stored?.blockHistory, [block.header.height]: block };
-
-      // 清空已处理的交易
-      const processedHashes = new Set(executedTxs.map(tx => tx.hash));
-      const remainingTxs = queue.transactions.filter(tx => !processedHashes.has(tx.hash));
-
-      const newQueue: PendingQueue = {
-        transactions: remainingTxs,
-        lastUpdated: Date.now(),
+      const newQueueState: PendingQueueState = {
+        lastUpdated: now,
         processing: false,
         processingStartedAt: undefined,
         currentBlock: undefined,
       };
 
-      // 保存新状态
-      const newState: ConsensusCoordinatorState = {
-        worldState: newWorldState,
-        pendingQueue: newQueue,
-        blockHistory: newBlockHistory,
-        consensusConfig: stored?.consensusConfig || this.consensusConfig,
+      const certificate = await this.buildCommitCertificate(block, validatorSet, validVotes, scheme);
+
+      const diff: BlockStateDiff = {
+        height: block.header.height,
+        blockHash: block.hash,
+        stateRootBefore: meta.stateRoot,
+        stateRootAfter: stateRoot,
+        accounts: buildStateDiff(accountsBefore, accounts, changed),
+      };
+
+      // 只保存有效投票：下一区块的奖励按这些签名者分配，副本从区块中读取
+      const storedBlock: Block = { ...block, votes: validVotes };
+      if (failed.length > 0) {
+        storedBlock.executionErrors = Object.fromEntries(failed.map(f => [f.index, f.error]));
+        console.warn(`[Consensus] Block ${block.header.height}: ${failed.length} transaction(s) failed`);
+      }
+
+      // 只写入改动的行：区块、索引、状态差异、元数据、队列锁、改动的账户及其历史、改动的质押
+      const writes: Record<string, unknown> = {
+        ...buildStakingRows(staking),
+        [blockKey(block.header.height)]: storedBlock,
+        ...buildBlockIndexes(block),
+        [blockDiffKey(block.header.height)]: diff,
+        [commitKey(block.header.height)]: certificate,
+        ...buildAccountHistory(accounts, changed, block.header.height, block.header.timestamp),
+        [STORAGE_KEYS.meta]: newMeta,
+        [STORAGE_KEYS.queue]: newQueueState,
       };
+      for (const address of changed) {
+        writes[accountKey(address)] = accounts.get(address) as AccountState;
+      }
+      await putMany(txn, writes);
+      await flushStateTree(txn, treeStore);
 
-      await txn.put('state', newState);
+      // 清空已处理的交易（执行失败的交易已记录在区块中，同样移出队列）
+      if (block.transactions.length > 0) {
+        await deletePendingTransactions(txn, block.transactions);
+      }
 
-      // 更新本地缓存
-      this.worldState = newWorldState;
-      this.pendingQueue = newQueue;
-      this.blockHistory.set(block.header.height, block);
+      // Mempool 维护：按新状态重新检查剩余交易，淘汰已失效的
+      await this.evictInvalidPending(txn, block, accounts, now);
 
       // 取消 Alarm（如果设置了）
       await this.state.storage.deleteAlarm();
 
       // --- 智能备份触发 [NEW] ---
-      const now = Date.now();
       const backupInterval = 3600000; // 1 小时
       if (now - this.lastBackupTime > backupInterval) {
         console.log('[Consensus] Triggering opportunistic backup...');
@@ -520,6 +854,108 @@ export class ConsensusCoordinator {
     });
   }
 
+  /**
+   * 重新检查区块之外的待处理交易，淘汰 nonce 过期 / 重复或余额不足的交易
+   * 与 commitBlock 在同一事务中执行；accounts 为本区块执行后的账户
+   */
+  private async evictInvalidPending(
+    txn: DurableObjectTransaction,
+    block: Block,
+    accounts: Map<Address, AccountState>,
+    now: number
+  ): Promise<void> {
+    const included = new Set(block.transactions.map(tx => tx.hash));
+    const remaining = (await loadPendingTransactions(txn)).filter(tx => !included.has(tx.hash));
+    if (remaining.length === 0) return;
+
+    // 本区块未涉及的发送方从存储读取
+    const missing = remaining.map(tx => tx.from.toLowerCase()).filter(address => !accounts.has(address));
+    const senders = new Map([...accounts, ...await loadAccounts(txn, missing)]);
+
+    const { evicted } = revalidatePendingTransactions(senders, remaining);
+    if (evicted.length === 0) return;
+
+    const writes: Record<string, EvictedTransaction> = {};
+    for (const { tx, reason } of evicted) {
+      writes[evictedKey(block.header.height, tx.hash)] = { tx, reason, height: block.header.height, evictedAt: now };
+    }
+    await putMany(txn, writes);
+    await deletePendingTransactions(txn, evicted.map(({ tx }) => tx));
+    console.warn(`[Consensus] Evicted ${evicted.length} invalid pending transaction(s) after block ${block.header.height}`);
+  }
+
+  /**
+   * 预挖释放计划的起点：创世区块头时间（initGenesis 可能覆盖配置中的 genesisTime），尚未写入创世区块时取配置
+   */
+  private async loadGenesisTime(reader: StorageReader, config: GenesisConfig): Promise<Timestamp> {
+    const genesis = await reader.get<Block>(blockKey(0));
+    return genesis?.header.timestamp ?? config.genesisTime;
+  }
+
+  /**
+   * 签署指定高度区块的验证者公钥（下一区块的奖励分配对象；创世区块没有投票）
+   */
+  private async loadLastCommitSigners(reader: StorageReader, height: number): Promise<HexString[]> {
+    const block = await reader.get<Block>(blockKey(height));
+    return (block?.votes ?? []).map(vote => vote.validatorPubKey);
+  }
+
+  // ============================================
+  // 双签证据
+  // ============================================
+
+  /**
+   * 提交双签证据：验证通过后记录证据，并将作恶验证者移出验证者集合
+   * 所需签名数与法定人数随验证者集合重新计算（见 quorum.ts）
+   */
+  async submitEvidence(evidence: EquivocationEvidence): Promise<{ success: boolean; error?: string; record?: EvidenceRecord }> {
+    const invalid = await verifyEquivocationEvidence(evidence, await this.loadSignatureScheme(evidence.voteA?.header?.height ?? 0));
+    if (invalid) {
+      return { success: false, error: invalid };
+    }
+
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+
+    return this.state.storage.transaction(async (txn) => {
+      const height = evidence.voteA.header.height;
+      const key = evidenceKey(height, evidence.validatorPubKey);
+
+      if (await txn.get(key)) {
+        return { success: false, error: `Evidence already recorded for height ${height}` };
+      }
+
+      const config = (await txn.get<ConsensusConfig>(STORAGE_KEYS.config)) || this.consensusConfig;
+      if (!config.validators.includes(evidence.validatorPubKey)) {
+        return { success: false, error: `Validator not in active set: ${evidence.validatorPubKey}` };
+      }
+
+      const validators = config.validators.filter(v => v !== evidence.validatorPubKey);
+      const newConfig: ConsensusConfig = {
+        ...config,
+        validators,
+        requiredSignatures: requiredSignatureCount(validators.length),
+      };
+
+      const record: EvidenceRecord = {
+        ...evidence,
+        validatorId: genesisConfig.validators.find(v => v.publicKey === evidence.validatorPubKey)?.id,
+        height,
+        penalty: 'removed',
+        requiredSignatures: newConfig.requiredSignatures,
+        submittedAt: Date.now(),
+      };
+
+      await putMany(txn, {
+        [key]: record,
+        [STORAGE_KEYS.config]: newConfig,
+      });
+      this.consensusConfig = newConfig;
+
+      console.warn(`[Consensus] Equivocation at height ${height}: removed validator ${record.validatorId || evidence.validatorPubKey}`);
+      return { success: true, record };
+    });
+  }
+
   // ============================================
   // Alarm 兜底机制
   // ============================================
@@ -556,7 +992,8 @@ export class ConsensusCoordinator {
     }
 
     // 2. 释放可能卡住的处理锁 (Existing logic)
-    if (this.pendingQueue && this.pendingQueue.processing) {
+    const queueState = await this.loadQueueState(this.state.storage);
+    if (queueState.processing) {
       console.warn('[ConsensusCoordinator] Processing timeout, releasing lock via alarm');
       await this.releaseProcessingLock(false); // 不清空队列，允许重试
     }
@@ -569,25 +1006,85 @@ export class ConsensusCoordinator {
 
   /**
    * 打包区块
-   * 返回待共识的区块（未签名）
+   * 返回待共识的区块（未签名），round 为获取锁时所在的轮次
    */
-  async packBlock(proposerId: string): Promise<{ success: boolean; block?: Block; error?: string }> {
+  async packBlock(proposerId: string, round: number = 0): Promise<{ success: boolean; block?: Block; error?: string }> {
+    const feeRecipient = await loadFeeRecipient(this.apiEnv.CONFIG_KV, proposerId);
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+
     return this.state.storage.transaction(async (txn) => {
-      const stored = await txn.get<ConsensusCoordinatorState>('state');
-      const worldState = stored?.worldState || createInitialWorldState();
-      const queue = stored?.pendingQueue || createInitialPendingQueue();
+      const meta = await this.loadMeta(txn);
+      const queueState = await this.loadQueueState(txn);
+      const pending = await loadPendingTransactions(txn);
 
       // 检查队列
-      if (queue.transactions.length === 0) {
+      if (pending.length === 0) {
         return { success: false, error: 'No pending transactions' };
       }
 
-      // 批量打包（1-20 笔）
+      // 批量打包（1-20 笔），每个发送方按 nonce 顺序，nonce 有缺口的交易暂不打包
       const maxTxs = this.consensusConfig.blockMaxTxs;
-      const txsToPack = queue.transactions.slice(0, maxTxs);
+      const senderAccounts = await loadAccounts(txn, pending.map(tx => tx.from));
+      const txsToPack = selectTransactionsForBlock(senderAccounts, pending, maxTxs);
+      if (txsToPack.length === 0) {
+        return { success: false, error: 'No executable pending transactions (waiting for nonce gaps to fill)' };
+      }
+
+      // 模拟执行，增量计算新的状态根（节点不落盘，commitBlock 时重新计算并写入）
+      const height = meta.latestBlockHeight + 1;
+      const unbondingBlocks = genesisConfig.unbondingBlocks ?? DEFAULT_GENESIS_CONFIG.unbondingBlocks;
+      const validatorStakes = await loadValidatorStakes(txn, genesisConfig.validators);
+      const rewards = calculateBlockRewards(
+        genesisConfig,
+        height,
+        proposerId,
+        await this.loadLastCommitSigners(txn, meta.latestBlockHeight),
+        bondedStakeByPublicKey(genesisConfig.validators, validatorStakes)
+      );
+      const touchedAccounts = await loadAccounts(txn, collectTouchedAddresses(txsToPack, feeRecipient, rewards));
+      const timestamp = Date.now();
+      const locked = calculateLockedBalances(genesisConfig, await this.loadGenesisTime(txn, genesisConfig), timestamp);
+
+      // Validator 拒绝含失败交易的区块：失败的交易移出队列后重新模拟，直到全部成功
+      let txs = txsToPack;
+      let stateRoot: HexString | undefined;
+      const dropped: EvictedTransaction[] = [];
+      while (stateRoot === undefined) {
+        const accounts = cloneAccounts(touchedAccounts);
+        const staking = await loadStakingState(txn, genesisConfig.validators, collectDelegationIds(txs), unbondingBlocks);
+        const { failed, changed } = executeTransactions(accounts, txs, timestamp, {
+          height,
+          feeRecipient,
+          rewards,
+          locked,
+          staking,
+        });
+
+        if (failed.length === 0) {
+          stateRoot = await updateStateTree(createStateTreeStore(txn), meta.stateRoot, [
+            ...await buildAccountUpdates(accounts, changed),
+            ...await buildStakingUpdates(staking),
+          ]);
+        } else {
+          for (const { tx, error } of failed) {
+            dropped.push({ tx, reason: error, height, evictedAt: timestamp });
+          }
+          const failedHashes = new Set(failed.map(f => f.tx.hash));
+          txs = txs.filter(tx => !failedHashes.has(tx.hash));
+        }
+      }
+
+      if (dropped.length > 0) {
+        await putMany(txn, Object.fromEntries(dropped.map(record => [evictedKey(height, record.tx.hash), record])));
+        await deletePendingTransactions(txn, dropped.map(({ tx }) => tx));
+        console.warn(`[Consensus] Evicted ${dropped.length} pending transaction(s) that fail at height ${height}`);
+      }
+      if (txs.length === 0) {
+        return { success: false, error: 'No executable pending transactions (all selected transactions failed)' };
+      }
 
       // 计算交易根
-      const txHashes = await Promise.all(txsToPack.map(async tx => {
+      const txHashes = await Promise.all(txs.map(async tx => {
         return hashTransaction({
           from: tx.from,
           to: tx.to,
@@ -597,22 +1094,22 @@ export class ConsensusCoordinator {
           timestamp: tx.timestamp,
           gasPrice: tx.gasPrice.toString(),
           gasLimit: tx.gasLimit.toString(),
+          action: tx.action,
         });
       }));
       const txRoot = await computeMerkleRoot(txHashes);
 
-      // 计算新的状态根（简化：直接哈希状态）
-      const stateRoot = await this.computeStateRoot(worldState, txsToPack);
-
-      // 构建区块头
+      // 构建区块头（承诺提交该区块的验证者集合，轻客户端据此认可集合变化）
       const header = {
-        height: worldState.latestBlockHeight + 1,
-        timestamp: Date.now(),
-        prevHash: worldState.latestBlockHash,
+        height: meta.latestBlockHeight + 1,
+        timestamp,
+        prevHash: meta.latestBlockHash,
         txRoot,
         stateRoot,
         proposer: proposerId,
-        txCount: txsToPack.length,
+        txCount: txs.length,
+        round,
+        validatorSetHash: await hashValidatorSet(await this.loadValidatorSet(txn, genesisConfig.validators)),
       };
 
       // 计算区块哈希
@@ -621,26 +1118,19 @@ export class ConsensusCoordinator {
       // 构建区块（未签名）
       const block: Block = {
         header,
-        transactions: txsToPack,
+        transactions: txs,
         hash: blockHash,
         proposerSignature: '', // 待签名
         votes: [],
       };
 
       // 更新队列状态（标记正在处理）
-      queue.processing = true;
-      queue.processingStartedAt = Date.now();
-      queue.currentBlock = block;
-
-      const newState: ConsensusCoordinatorState = {
-        ...stored!,
-        pendingQueue: queue,
-      };
-
-      await txn.put('state', newState);
+      queueState.processing = true;
+      queueState.processingStartedAt = Date.now();
+      queueState.processingRound = round;
+      queueState.currentBlock = block;
 
-      // 更新本地缓存
-      this.pendingQueue = queue;
+      await txn.put(STORAGE_KEYS.queue, queueState);
 
       // 设置 Alarm 兜底
       await this.setAlarm();
@@ -649,36 +1139,6 @@ export class ConsensusCoordinator {
     });
   }
 
-  /**
-   * 计算状态根
-   */
-  private async computeStateRoot(
-    worldState: WorldState,
-    txs: Transaction[]
-  ): Promise<BlockHash> {
-    // 模拟执行交易，计算新状态
-    const newBalances = { ...worldState.balances };
-    const newNonces = { ...worldState.nonces };
-
-    for (const tx of txs) {
-      const fromBalance = newBalances[tx.from] || BigInt(0);
-      if (fromBalance >= tx.amount) {
-        newBalances[tx.from] = fromBalance - tx.amount;
-        newBalances[tx.to] = (newBalances[tx.to] || BigInt(0)) + tx.amount;
-        newNonces[tx.from] = (newNonces[tx.from] || 0) + 1;
-      }
-    }
-
-    // 哈希状态
-    // 哈希状态
-    const stateData = {
-      balances: Object.entries(newBalances).map(([k, v]) => [k, v.toString()]),
-      nonces: newNonces,
-    };
-
-    return sha256Hex(objectToBytes(stateData));
-  }
-
   // ============================================
   // 状态查询
   // ============================================
@@ -687,9 +1147,10 @@ export class ConsensusCoordinator {
    * 查询完整状态
    */
   async queryState(): Promise<StateQueryResponse> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const worldState = stored?.worldState || createInitialWorldState();
-    const queue = stored?.pendingQueue || createInitialPendingQueue();
+    const storage = this.state.storage;
+    const worldState = await loadWorldState(storage, await this.loadMeta(storage));
+    const queue = await this.getPendingQueue();
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
 
     // Key: BigInt serialization fix
     const worldStateStrings = {
@@ -705,83 +1166,362 @@ export class ConsensusCoordinator {
       processing: queue.processing,
       consensusState: queue.processing ? ConsensusState.VOTING : ConsensusState.IDLE,
       validators: this.consensusConfig.validators,
+      validatorSet: await this.loadValidatorSet(storage, genesisConfig.validators),
     };
   }
 
+  /**
+   * 当前验证者集合（权重与提交阈值），加权时按已绑定的质押
+   * genesisValidators 须取自 loadGenesisConfig(CONFIG_KV)，与奖励分配、质押查询使用同一份验证者登记
+   */
+  async loadValidatorSet(reader: StorageReader, genesisValidators: GenesisValidator[]): Promise<ValidatorSet> {
+    const stakes = await loadValidatorStakes(reader, genesisValidators);
+    return buildValidatorSet(
+      this.consensusConfig.validators,
+      genesisValidators,
+      this.consensusConfig.stakeWeighted ?? false,
+      bondedStakeByPublicKey(genesisValidators, stakes)
+    );
+  }
+
   /**
    * 查询账户
    */
   async queryAccount(address: Address): Promise<{ balance: bigint; nonce: number }> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const worldState = stored?.worldState || createInitialWorldState();
+    const account = await loadAccount(this.state.storage, address);
+
+    return {
+      balance: account.balance,
+      nonce: account.nonce,
+    };
+  }
+
+  /**
+   * 查询创世验证者的质押与投票权重
+   */
+  async queryValidators(): Promise<ValidatorsResponse> {
+    const storage = this.state.storage;
+    const meta = await this.loadMeta(storage);
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+    const stakes = await loadValidatorStakes(storage, genesisConfig.validators);
+    const validatorSet = await this.loadValidatorSet(storage, genesisConfig.validators);
+
+    return {
+      height: meta.latestBlockHeight,
+      stakeWeighted: validatorSet.stakeWeighted,
+      unbondingBlocks: genesisConfig.unbondingBlocks ?? DEFAULT_GENESIS_CONFIG.unbondingBlocks,
+      validatorSetHash: await hashValidatorSet(validatorSet),
+      validators: genesisConfig.validators.map(validator => {
+        const address = publicKeyToAddress(validator.publicKey);
+        const record = stakes.get(address);
+        const member = validatorSet.members.find(m => m.publicKey === validator.publicKey);
+        return {
+          id: validator.id,
+          address,
+          publicKey: validator.publicKey,
+          commission: validator.commission,
+          genesisStake: validator.stake,
+          delegated: (record?.delegated ?? BigInt(0)).toString(),
+          bonded: bondedStake(validator, record).toString(),
+          votingPower: (member?.weight ?? BigInt(0)).toString(),
+          active: member !== undefined,
+        };
+      }),
+    };
+  }
+
+  /**
+   * 查询账户的委托、待领取奖励与解绑中的质押
+   */
+  async queryAccountStake(address: Address): Promise<AccountStakeResponse> {
+    const storage = this.state.storage;
+    const delegator = address.toLowerCase();
+    const meta = await this.loadMeta(storage);
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+    const stored = await listDelegations(storage, delegator);
+
+    // 验证者自己即使没有自抵押也能领取创世质押的奖励份额
+    const self = genesisConfig.validators.find(v => publicKeyToAddress(v.publicKey) === delegator);
+    if (self && !stored.has(delegator)) {
+      stored.set(delegator, emptyDelegation());
+    }
+
+    const staking = createStakingState(
+      genesisConfig.validators,
+      await loadValidatorStakes(storage, genesisConfig.validators),
+      new Map([...stored].map(([validator, delegation]) => [delegationId(delegator, validator), delegation])),
+      genesisConfig.unbondingBlocks ?? DEFAULT_GENESIS_CONFIG.unbondingBlocks
+    );
+
+    let totalBonded = BigInt(0);
+    let totalUnbonding = BigInt(0);
+    let totalRewards = BigInt(0);
+    const delegations = [...stored].map(([validator, delegation]: [Address, DelegationState]) => {
+      const rewards = describeDelegationRewards(staking, delegator, validator);
+      const matured = delegation.unbonding
+        .filter(e => e.releaseHeight <= meta.latestBlockHeight + 1)
+        .reduce((sum, e) => sum + e.amount, BigInt(0));
+      totalBonded += delegation.amount;
+      totalUnbonding += delegation.unbonding.reduce((sum, e) => sum + e.amount, BigInt(0));
+      totalRewards += rewards;
+      return {
+        validator,
+        amount: delegation.amount.toString(),
+        rewards: rewards.toString(),
+        unbonding: delegation.unbonding.map(e => ({ amount: e.amount.toString(), releaseHeight: e.releaseHeight })),
+        claimable: (rewards + matured).toString(),
+      };
+    });
 
     return {
-      balance: worldState.balances[address] || BigInt(0),
-      nonce: worldState.nonces[address] || 0,
+      address: delegator,
+      height: meta.latestBlockHeight,
+      delegations,
+      totalBonded: totalBonded.toString(),
+      totalUnbonding: totalUnbonding.toString(),
+      totalRewards: totalRewards.toString(),
     };
   }
 
   /**
-   * 查询账户交易历史 [NEW]
-   * 遍历区块历史和 Pending Queue (MVP 简化实现)
+   * 查询发送方下一个可用 nonce（账户 nonce 之后连续排队的交易之后）
+   */
+  async queryPendingNonce(address: Address): Promise<number> {
+    const storage = this.state.storage;
+    const from = address.toLowerCase();
+    const account = await loadAccount(storage, from);
+    const pending = await loadSenderPendingTransactions(storage, from);
+    return nextPendingNonce(account.nonce, pending.map(tx => tx.nonce));
+  }
+
+  /**
+   * 查询账户在某区块执行后的余额与 nonce（历史状态）
    */
-  async getTransactionsByAddress(address: Address): Promise<TransactionReceipt[]> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const blockHistory = stored?.blockHistory || {};
-    const queue = stored?.pendingQueue || createInitialPendingQueue();
+  async queryAccountAt(address: Address, height: number): Promise<AccountAtHeightResponse | { error: string }> {
+    const storage = this.state.storage;
+    const meta = await this.loadMeta(storage);
+    if (height > meta.latestBlockHeight) {
+      return { error: `Block ${height} not found` };
+    }
+
+    const historyStart = (await storage.get<number>(STORAGE_KEYS.historyStart)) || 0;
+    if (height < historyStart) {
+      return { error: `Account history unavailable before height ${historyStart}` };
+    }
+
+    const entry = await findAccountHistoryAt(storage, address, height);
+    return {
+      address: address.toLowerCase(),
+      height,
+      balance: (entry?.balance ?? BigInt(0)).toString(),
+      nonce: entry?.nonce ?? 0,
+    };
+  }
+
+  /**
+   * 查询账户余额历史（只包含账户发生变化的区块，按高度升序）
+   */
+  async queryAccountHistory(address: Address, query: AccountHistoryQuery = {}): Promise<AccountBalanceHistory> {
+    const storage = this.state.storage;
+    const limit = Math.min(Math.max(query.limit || DEFAULT_HISTORY_LIMIT, 1), MAX_HISTORY_LIMIT);
+
+    const entries = await listAccountHistory(storage, address, {
+      fromHeight: query.fromHeight,
+      toHeight: query.toHeight,
+      limit,
+    });
+
+    return {
+      address: address.toLowerCase(),
+      points: entries.map(entry => ({
+        height: entry.height,
+        balance: entry.balance.toString(),
+        nonce: entry.nonce,
+        timestamp: entry.timestamp,
+      })),
+      historyStart: (await storage.get<number>(STORAGE_KEYS.historyStart)) || 0,
+    };
+  }
+
+  /**
+   * 查询账户状态及其状态树证明
+   * 指定 height 时针对该区块头的 stateRoot（历史状态），否则针对最新状态
+   */
+  async queryAccountProof(address: Address, height?: number): Promise<AccountProofResponse | { error: string }> {
+    const storage = this.state.storage;
     const cleanAddr = address.toLowerCase();
 
-    const history: TransactionReceipt[] = [];
+    let stateRoot: string;
+    let blockHash: string;
+    let blockHeight: number;
 
-    // 1. 遍历区块历史 (倒序: 最新的在前)
-    // 注意：这将随着区块增加而变慢，生产环境需要专门的索引
-    const sortedHeights = Object.keys(blockHistory).map(Number).sort((a, b) => b - a);
-
-    for (const height of sortedHeights) {
-      const block = blockHistory[height];
-      for (const tx of block.transactions) {
-        if (tx.from === cleanAddr || tx.to === cleanAddr) {
-          history.push({
-            transaction: tx,
-            status: TransactionStatus.CONFIRMED,
-            blockHeight: block.header.height,
-            blockHash: block.hash,
-            confirmationTime: block.header.timestamp,
-          });
-        }
+    if (height === undefined) {
+      const meta = await this.loadMeta(storage);
+      stateRoot = meta.stateRoot;
+      blockHash = meta.latestBlockHash;
+      blockHeight = meta.latestBlockHeight;
+    } else {
+      const block = await storage.get<Block>(blockKey(height));
+      if (!block) {
+        return { error: `Block ${height} not found` };
       }
+      stateRoot = block.header.stateRoot;
+      blockHash = block.hash;
+      blockHeight = height;
     }
 
-    // 2. 遍历 Pending Queue
-    for (const tx of queue.transactions) {
-      if (tx.from === cleanAddr || tx.to === cleanAddr) {
-        // 避免重复 (理论上 Pending 不会在 History 中，但 defensive 一点)
-        if (!history.find(h => h.transaction.hash === tx.hash)) {
-          history.unshift({ // Pending 的放最前面
-            transaction: tx,
-            status: queue.processing ? TransactionStatus.PROCESSING : TransactionStatus.PENDING,
-          });
-        }
+    const key = await accountStateKey(cleanAddr);
+
+    let result;
+    try {
+      result = await getStateProof(createStateTreeStore(storage), stateRoot, key);
+    } catch {
+      // 状态树上线前的区块，其 stateRoot 为旧的整体哈希
+      return { error: `State proof unavailable for block ${blockHeight} (state root predates the state tree)` };
+    }
+
+    const value = result.leaf?.value as AccountLeafValue | undefined;
+
+    return {
+      address: cleanAddr,
+      height: blockHeight,
+      blockHash,
+      stateRoot,
+      balance: (value?.balance ?? BigInt(0)).toString(),
+      nonce: value?.nonce ?? 0,
+      exists: !!result.leaf,
+      proof: result.proof,
+    };
+  }
+
+  /**
+   * 分页读取某状态根下的账户与质押叶子（ValidatorReplica 从受信检查点起追块时调用）
+   * 状态树节点保留历史版本，检查点的 stateRoot 可以直接遍历；
+   * 副本用这些值重建状态树，并与检查点的 stateRoot 比对，不依赖本接口的正确性
+   */
+  async queryStateLeaves(root: HexString, after: HexString | undefined, limit: number): Promise<StateLeavesResponse | { error: string }> {
+    let page;
+    try {
+      page = await listStateLeaves(createStateTreeStore(this.state.storage), root, { after, limit });
+    } catch {
+      return { error: `State tree unavailable for root ${root}` };
+    }
+
+    const result: StateLeavesResponse = { root, accounts: {}, staking: { validators: {}, delegations: {} }, next: page.next };
+    for (const { key, value } of page.leaves) {
+      if (!value) {
+        return { error: `State tree leaf ${key} has no stored value` };
       }
+      if ('delegator' in (value as object)) {
+        const { delegator, validator, ...delegation } = value as DelegationState & { delegator: Address; validator: Address };
+        result.staking.delegations[delegationId(delegator, validator)] = delegation;
+      } else if ('rewardPerShare' in (value as object)) {
+        const { address, ...record } = value as ValidatorStakeState & { address: Address };
+        result.staking.validators[address] = record;
+      } else {
+        const { address, balance, nonce } = value as AccountLeafValue;
+        result.accounts[address] = { balance: balance.toString(), nonce };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 生成状态见证：一组账户的当前值及其相对最新 stateRoot 的证明（Validator 调用）
+   */
+  async getStateWitness(addresses: Address[]): Promise<StateWitness> {
+    const storage = this.state.storage;
+    const meta = await this.loadMeta(storage);
+    const treeStore = createStateTreeStore(storage);
+
+    const accounts: StateWitness['accounts'] = {};
+    for (const address of new Set(addresses.map(a => a.toLowerCase()))) {
+      const { leaf, proof } = await getStateProof(treeStore, meta.stateRoot, await accountStateKey(address));
+      const value = leaf?.value as AccountLeafValue | undefined;
+      accounts[address] = {
+        balance: (value?.balance ?? BigInt(0)).toString(),
+        nonce: value?.nonce ?? 0,
+        exists: !!leaf,
+        proof,
+      };
+    }
+
+    return {
+      height: meta.latestBlockHeight,
+      blockHash: meta.latestBlockHash,
+      stateRoot: meta.stateRoot,
+      accounts,
+    };
+  }
+
+  /**
+   * 查询账户交易历史（按高度倒序分页）
+   * 已确认交易走 addrtx 索引；待处理交易只在第一页且未限定结束高度时附在最前面
+   */
+  async getTransactionsByAddress(address: Address, query: AccountTransactionsQuery = {}): Promise<AccountTransactionsPage> {
+    const storage = this.state.storage;
+    const cleanAddr = address.toLowerCase();
+    const direction = query.direction || 'all';
+    const limit = Math.min(Math.max(query.limit || DEFAULT_TX_PAGE_SIZE, 1), MAX_TX_PAGE_SIZE);
+
+    const { entries, nextCursor } = await listAddressTxIndex(storage, cleanAddr, {
+      direction,
+      fromHeight: query.fromHeight,
+      toHeight: query.toHeight,
+      cursor: query.cursor,
+      limit,
+    });
+
+    // 一页内的交易最多分布在 limit 个区块中
+    const heights = [...new Set(entries.map(e => e.height))];
+    const blocks = await getMany<Block>(storage, heights.map(blockKey));
+
+    const history: TransactionReceipt[] = [];
+
+    for (const entry of entries) {
+      const block = blocks.get(blockKey(entry.height));
+      const tx = block?.transactions[entry.txIndex];
+      if (!block || !tx) continue;
+
+      history.push(buildReceipt(block, entry.txIndex));
     }
 
-    return history;
+    // 待处理交易（Pending 的放最前面）
+    if (!query.cursor && query.toHeight === undefined) {
+      const queue = await this.getPendingQueue();
+      const pending = queue.transactions.filter(tx =>
+        (direction !== 'received' && tx.from === cleanAddr) ||
+        (direction !== 'sent' && tx.to === cleanAddr)
+      );
+
+      history.unshift(...pending.reverse().map(tx => ({
+        transaction: tx,
+        status: queue.processing ? TransactionStatus.PROCESSING : TransactionStatus.PENDING,
+        fee: transactionFee(tx),
+      })));
+    }
+
+    return { transactions: history, nextCursor };
   }
 
   /**
    * 批量查询区块
    */
   async queryBlocksRange(start: number, limit: number): Promise<Block[]> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const blockHistory = stored?.blockHistory || {};
-
-    const blocks: Block[] = [];
     // 确保从 start 开始向下取 limit 个区块
     // 如果 start 为 100, limit 为 10，则取 100, 99, ..., 91
     const end = Math.max(0, start - limit + 1);
 
+    const keys: string[] = [];
     for (let h = start; h >= end; h--) {
-      const block = blockHistory[h];
+      keys.push(blockKey(h));
+    }
+
+    const found = await getMany<Block>(this.state.storage, keys);
+
+    const blocks: Block[] = [];
+    for (const key of keys) {
+      const block = found.get(key);
       if (block) {
         blocks.push(block);
       }
@@ -794,17 +1534,15 @@ export class ConsensusCoordinator {
    * 查询区块
    */
   async queryBlock(height: number): Promise<BlockQueryResponse> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const worldState = stored?.worldState || createInitialWorldState();
-    const blockHistory = stored?.blockHistory || {};
-
-    const block = blockHistory[height];
+    const storage = this.state.storage;
+    const block = await storage.get<Block>(blockKey(height));
 
     if (!block) {
       return { confirmations: 0 };
     }
 
-    const confirmations = worldState.latestBlockHeight - height + 1;
+    const meta = await this.loadMeta(storage);
+    const confirmations = meta.latestBlockHeight - height + 1;
 
     return {
       block,
@@ -820,52 +1558,190 @@ export class ConsensusCoordinator {
     };
   }
 
+  /**
+   * 构建提交证书（只包含计入法定人数的有效签名）
+   */
+  private async buildCommitCertificate(
+    block: Block,
+    validatorSet: ValidatorSet,
+    signatures: ValidatorVote[],
+    scheme: SignatureScheme
+  ): Promise<CommitCertificate> {
+    return {
+      height: block.header.height,
+      blockHash: block.hash,
+      validatorSetHash: await hashValidatorSet(validatorSet),
+      validatorSet,
+      quorumRule: COMMIT_QUORUM_RULE,
+      domain: scheme.domain,
+      legacySignatures: scheme.allowLegacy,
+      signatures,
+    };
+  }
+
+  /**
+   * 查询区块提交证书
+   * 证书上线前提交的区块由区块中保存的投票与当前验证者集合重建
+   */
+  async queryCommitCertificate(height: number): Promise<CommitCertificate | { error: string }> {
+    const storage = this.state.storage;
+    const certificate = await storage.get<CommitCertificate>(commitKey(height));
+    if (certificate) return certificate;
+
+    const block = await storage.get<Block>(blockKey(height));
+    if (!block) {
+      return { error: `Block ${height} not found` };
+    }
+    if (height === 0) {
+      return { error: 'Genesis block has no commit certificate' };
+    }
+    const genesisConfig = await loadGenesisConfig(this.apiEnv.CONFIG_KV);
+    return this.buildCommitCertificate(block, await this.loadValidatorSet(storage, genesisConfig.validators), block.votes, await this.loadSignatureScheme(height));
+  }
+
+  /**
+   * 查询区块头区间及其提交证书（轻客户端同步）
+   * to 按最新高度截断，区间最多 MAX_HEADER_RANGE 个区块
+   */
+  async queryHeaders(from: number, to: number): Promise<HeadersResponse | { error: string }> {
+    const storage = this.state.storage;
+    const meta = await this.loadMeta(storage);
+    const last = Math.min(to, meta.latestBlockHeight, from + MAX_HEADER_RANGE - 1);
+    if (from > meta.latestBlockHeight) {
+      return { error: `Block ${from} not found` };
+    }
+
+    const heights: number[] = [];
+    for (let h = from; h <= last; h++) {
+      heights.push(h);
+    }
+    const blocks = await getMany<Block>(storage, heights.map(blockKey));
+    const certificates = await getMany<CommitCertificate>(storage, heights.map(commitKey));
+
+    const headers: SignedHeader[] = [];
+    for (const height of heights) {
+      const block = blocks.get(blockKey(height));
+      if (!block) break;
+
+      let certificate = certificates.get(commitKey(height)) ?? null;
+      if (!certificate && height > 0) {
+        const rebuilt = await this.queryCommitCertificate(height);
+        certificate = 'error' in rebuilt ? null : rebuilt;
+      }
+      headers.push({ hash: block.hash, header: block.header, certificate });
+    }
+
+    return { headers, latestHeight: meta.latestBlockHeight };
+  }
+
+  /**
+   * 查询区块状态差异
+   */
+  async queryBlockDiff(height: number): Promise<BlockStateDiff | { error: string }> {
+    const storage = this.state.storage;
+    const diff = await storage.get<BlockStateDiff>(blockDiffKey(height));
+    if (diff) return diff;
+
+    const block = await storage.get<Block>(blockKey(height));
+    if (!block) {
+      return { error: `Block ${height} not found` };
+    }
+    // 创世区块与存储升级（historyStart）之前的区块没有记录
+    const historyStart = (await storage.get<number>(STORAGE_KEYS.historyStart)) || 0;
+    if (height <= historyStart) {
+      return { error: `State diff unavailable before height ${historyStart + 1}` };
+    }
+    return { error: `State diff unavailable for block ${height}` };
+  }
+
   /**
    * 查询最新区块
    */
   async queryLatestBlock(): Promise<{ height: number; hash: HexString; timestamp: number }> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const worldState = stored?.worldState || createInitialWorldState();
+    const meta = await this.loadMeta(this.state.storage);
 
     return {
-      height: worldState.latestBlockHeight,
-      hash: worldState.latestBlockHash,
-      timestamp: worldState.lastUpdated,
+      height: meta.latestBlockHeight,
+      hash: meta.latestBlockHash,
+      timestamp: meta.lastUpdated,
     };
   }
 
   /**
    * 查询交易
+   * 待处理交易查 pending 行，已确认交易查 txidx 索引，均为常数次读取
    */
   async queryTransaction(txHash: HexString): Promise<TransactionReceipt | null> {
-    const stored = await this.state.storage.get<ConsensusCoordinatorState>('state');
-    const blockHistory = stored?.blockHistory || {};
-    const queue = stored?.pendingQueue || createInitialPendingQueue();
-
-    // 在区块历史中查找
-    for (const block of Object.values(blockHistory)) {
-      const tx = block.transactions.find(t => t.hash === txHash);
-      if (tx) {
-        return {
-          transaction: tx,
-          status: TransactionStatus.CONFIRMED,
-          blockHeight: block.header.height,
-          blockHash: block.hash,
-          confirmationTime: block.header.timestamp,
-        };
-      }
-    }
+    const storage = this.state.storage;
 
     // 在 Pending Queue 中查找
-    const pendingTx = queue.transactions.find(t => t.hash === txHash);
-    if (pendingTx) {
+    const pending = await storage.get<PendingEntry>(pendingKey(txHash));
+    if (pending) {
+      const queueState = await this.loadQueueState(storage);
       return {
-        transaction: pendingTx,
-        status: queue.processing ? TransactionStatus.PROCESSING : TransactionStatus.PENDING,
+        transaction: pending.tx,
+        status: queueState.processing ? TransactionStatus.PROCESSING : TransactionStatus.PENDING,
+        fee: transactionFee(pending.tx),
       };
     }
 
-    return null;
+    // 通过哈希索引定位区块
+    const location = await storage.get<TxLocation>(txIndexKey(txHash));
+    if (!location) {
+      // 被同 nonce 交易替换的交易报告为 dropped
+      const replaced = await storage.get<ReplacedTransaction>(replacedKey(txHash));
+      if (!replaced) {
+        return null;
+      }
+      return {
+        transaction: replaced.tx,
+        status: TransactionStatus.DROPPED,
+        fee: BigInt(0),
+        replacedBy: replaced.replacedBy,
+      };
+    }
+
+    const block = await storage.get<Block>(blockKey(location.height));
+    const tx = block?.transactions[location.txIndex];
+    if (!block || !tx) {
+      return null;
+    }
+
+    return buildReceipt(block, location.txIndex);
+  }
+
+  /**
+   * 生成交易相对区块 txRoot 的默克尔包含证明
+   */
+  async queryTransactionProof(txHash: HexString): Promise<TransactionProofResponse | { error: string }> {
+    const storage = this.state.storage;
+
+    const location = await storage.get<TxLocation>(txIndexKey(txHash));
+    if (!location) {
+      return { error: 'Transaction not found in any block' };
+    }
+
+    const block = await storage.get<Block>(blockKey(location.height));
+    if (!block) {
+      return { error: 'Block not found' };
+    }
+
+    const hashes = block.transactions.map(tx => tx.hash);
+
+    // 域分离默克尔树上线前打包的区块使用旧算法，无法给出证明
+    if (await computeMerkleRoot(hashes) !== block.header.txRoot) {
+      return { error: 'Block txRoot was built with the legacy merkle tree, proof unavailable' };
+    }
+
+    const proof = await computeMerkleProof(hashes, location.txIndex);
+
+    return {
+      txHash: block.transactions[location.txIndex].hash,
+      blockHeight: block.header.height,
+      blockHash: block.hash,
+      txRoot: block.header.txRoot,
+      ...proof,
+    };
   }
 
   // ============================================
@@ -877,29 +1753,20 @@ export class ConsensusCoordinator {
    */
   async updateConfig(config: Partial<ConsensusConfig>): Promise<void> {
     await this.state.storage.transaction(async (txn) => {
-      const stored = await txn.get<ConsensusCoordinatorState>('state');
+      const stored = await txn.get<ConsensusConfig>(STORAGE_KEYS.config);
 
       const newConfig = {
-        ...(stored?.consensusConfig || this.consensusConfig),
+        ...(stored || this.consensusConfig),
         ...config,
       };
 
-      const newState: ConsensusCoordinatorState = {
-        ...(stored || {
-          worldState: createInitialWorldState(),
-          pendingQueue: createInitialPendingQueue(),
-          blockHistory: {},
-          consensusConfig: DEFAULT_CONSENSUS_CONFIG,
-        }),
-        consensusConfig: newConfig,
-      };
-
-      await txn.put('state', newState);
+      await txn.put(STORAGE_KEYS.config, newConfig);
 
       this.consensusConfig = newConfig;
     });
   }
 
+
   // ============================================
   // HTTP 接口
   // ============================================
@@ -922,6 +1789,29 @@ export class ConsensusCoordinator {
       }
 
       // 获取队列（Proposer 调用）
+      // 查询被淘汰的待处理交易
+      if (path === '/mempool/evicted' && request.method === 'GET') {
+        const limitParam = parseInt(url.searchParams.get('limit') || '') || DEFAULT_EVICTED_LIMIT;
+        const limit = Math.min(Math.max(limitParam, 1), MAX_EVICTED_LIMIT);
+        const evicted = await listEvictedTransactions(this.state.storage, limit);
+        return safeJsonResponse({ evicted });
+      }
+
+      // 提交双签证据
+      if (path === '/evidence' && request.method === 'POST') {
+        const evidence = await request.json() as EquivocationEvidence;
+        const result = await this.submitEvidence(evidence);
+        return safeJsonResponse(result, result.success ? 200 : 400);
+      }
+
+      // 查询双签证据
+      if (path === '/evidence' && request.method === 'GET') {
+        const limitParam = parseInt(url.searchParams.get('limit') || '') || DEFAULT_EVIDENCE_LIMIT;
+        const limit = Math.min(Math.max(limitParam, 1), MAX_EVIDENCE_LIMIT);
+        const evidence = await listEvidence(this.state.storage, limit);
+        return safeJsonResponse({ evidence });
+      }
+
       if (path === '/internal/queue' && request.method === 'GET') {
         const queue = await this.getPendingQueue();
         return safeJsonResponse({
@@ -933,14 +1823,15 @@ export class ConsensusCoordinator {
 
       // 获取锁（Proposer 调用）
       if (path === '/internal/acquire-lock' && request.method === 'POST') {
-        const result = await this.acquireProcessingLock();
+        const { proposerId } = await request.json() as { proposerId: string };
+        const result = await this.acquireProcessingLock(proposerId);
         return safeJsonResponse(result);
       }
 
       // 释放锁（Proposer 调用）
       if (path === '/internal/release-lock' && request.method === 'POST') {
-        const { clearQueue } = await request.json() as { clearQueue?: boolean };
-        await this.releaseProcessingLock(clearQueue);
+        const { clearQueue, round } = await request.json() as { clearQueue?: boolean; round?: number };
+        await this.releaseProcessingLock(clearQueue, round);
         return safeJsonResponse({ success: true });
       }
 
@@ -955,8 +1846,8 @@ export class ConsensusCoordinator {
 
       // 打包区块（Proposer 调用）
       if (path === '/internal/pack-block' && request.method === 'POST') {
-        const { proposerId } = await request.json() as { proposerId: string };
-        const result = await this.packBlock(proposerId);
+        const { proposerId, round } = await request.json() as { proposerId: string; round?: number };
+        const result = await this.packBlock(proposerId, round);
         return safeJsonResponse(result);
       }
 
@@ -978,6 +1869,28 @@ export class ConsensusCoordinator {
         return safeJsonResponse(result);
       }
 
+      // 状态见证（Validator 调用）
+      if (path === '/internal/state-witness' && request.method === 'POST') {
+        const { addresses } = await request.json() as { addresses: Address[] };
+        const witness = await this.getStateWitness(addresses || []);
+        return safeJsonResponse(witness);
+      }
+
+      // 检查点状态根下的账户与质押叶子，分页（ValidatorReplica 调用）
+      if (path === '/internal/state-leaves' && request.method === 'GET') {
+        const root = url.searchParams.get('root') || '';
+        const after = url.searchParams.get('after') || undefined;
+        const limitParam = parseInt(url.searchParams.get('limit') || '') || MAX_STATE_LEAVES_PAGE;
+        const limit = Math.min(Math.max(limitParam, 1), MAX_STATE_LEAVES_PAGE);
+        const result = await this.queryStateLeaves(root, after, limit);
+        return safeJsonResponse(result, 'error' in result ? 404 : 200);
+      }
+
+      // 当前共识配置（ValidatorReplica 校验 view change 时间表时调用）
+      if (path === '/internal/consensus-config' && request.method === 'GET') {
+        return safeJsonResponse(this.consensusConfig);
+      }
+
       // 查询状态
       if (path === '/state' && request.method === 'GET') {
         const state = await this.queryState();
@@ -988,13 +1901,69 @@ export class ConsensusCoordinator {
       if (path.startsWith('/account/') && path.endsWith('/txs') && request.method === 'GET') {
         const parts = path.split('/'); // /account/:address/txs
         const address = parts[2];
-        const history = await this.getTransactionsByAddress(address);
-        return safeJsonResponse({ transactions: history });
+        const params = url.searchParams;
+        const direction = params.get('direction') || 'all';
+        if (direction !== 'all' && direction !== 'sent' && direction !== 'received') {
+          return safeJsonResponse({ error: `Invalid direction: ${direction}` }, 400);
+        }
+
+        const page = await this.getTransactionsByAddress(address, {
+          direction,
+          fromHeight: params.has('fromHeight') ? parseInt(params.get('fromHeight')!) : undefined,
+          toHeight: params.has('toHeight') ? parseInt(params.get('toHeight')!) : undefined,
+          cursor: params.get('cursor') || undefined,
+          limit: params.has('limit') ? parseInt(params.get('limit')!) : undefined,
+        });
+        return safeJsonResponse(page);
       }
 
-      // 查询账户
+      // 查询账户状态证明
+      if (path.startsWith('/account/') && path.endsWith('/proof') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/proof
+        const heightParam = url.searchParams.get('height');
+        const result = await this.queryAccountProof(address, heightParam ? parseInt(heightParam) : undefined);
+        return safeJsonResponse(result, 'error' in result ? 404 : 200);
+      }
+
+      // 查询下一个可用 nonce（含排队中的交易）
+      if (path.startsWith('/account/') && path.endsWith('/pending-nonce') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/pending-nonce
+        const pendingNonce = await this.queryPendingNonce(address);
+        return safeJsonResponse({ address: address.toLowerCase(), pendingNonce });
+      }
+
+      // 查询验证者质押
+      if (path === '/validators' && request.method === 'GET') {
+        return safeJsonResponse(await this.queryValidators());
+      }
+
+      // 查询账户质押与委托
+      if (path.startsWith('/account/') && path.endsWith('/stake') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/stake
+        return safeJsonResponse(await this.queryAccountStake(address));
+      }
+
+      // 查询账户余额历史
+      if (path.startsWith('/account/') && path.endsWith('/history') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/history
+        const params = url.searchParams;
+        const history = await this.queryAccountHistory(address, {
+          fromHeight: params.has('fromHeight') ? parseInt(params.get('fromHeight')!) : undefined,
+          toHeight: params.has('toHeight') ? parseInt(params.get('toHeight')!) : undefined,
+          limit: params.has('limit') ? parseInt(params.get('limit')!) : undefined,
+        });
+        return safeJsonResponse(history);
+      }
+
+      // 查询账户（?height= 指定历史区块）
       if (path.startsWith('/account/') && request.method === 'GET') {
         const address = path.split('/')[2];
+        const heightParam = url.searchParams.get('height');
+        if (heightParam !== null) {
+          const result = await this.queryAccountAt(address, parseInt(heightParam));
+          return safeJsonResponse(result, 'error' in result ? 404 : 200);
+        }
+
         const account = await this.queryAccount(address);
         return safeJsonResponse({
           address,
@@ -1011,6 +1980,28 @@ export class ConsensusCoordinator {
         return safeJsonResponse({ blocks });
       }
 
+      // 查询区块头区间（轻客户端同步）
+      if (path === '/headers' && request.method === 'GET') {
+        const from = parseInt(url.searchParams.get('from') || '0');
+        const to = parseInt(url.searchParams.get('to') || String(from + MAX_HEADER_RANGE - 1));
+        const result = await this.queryHeaders(from, to);
+        return safeJsonResponse(result, 'error' in result ? 404 : 200);
+      }
+
+      // 查询区块状态差异
+      if (path.startsWith('/block/') && path.endsWith('/diff') && request.method === 'GET') {
+        const height = parseInt(path.split('/')[2]); // /block/:height/diff
+        const result = await this.queryBlockDiff(height);
+        return safeJsonResponse(result, 'error' in result ? 404 : 200);
+      }
+
+      // 查询区块提交证书
+      if (path.startsWith('/block/') && path.endsWith('/commit') && request.method === 'GET') {
+        const height = parseInt(path.split('/')[2]); // /block/:height/commit
+        const result = await this.queryCommitCertificate(height);
+        return safeJsonResponse(result, 'error' in result ? 404 : 200);
+      }
+
       // 查询区块
       if (path.startsWith('/block/') && request.method === 'GET') {
         const height = parseInt(path.split('/')[2]);
@@ -1024,6 +2015,13 @@ export class ConsensusCoordinator {
         return safeJsonResponse(latest);
       }
 
+      // 查询交易默克尔证明
+      if (path.startsWith('/tx/') && path.endsWith('/proof') && request.method === 'GET') {
+        const txHash = path.split('/')[2]; // /tx/:hash/proof
+        const proof = await this.queryTransactionProof(txHash);
+        return safeJsonResponse(proof, 'error' in proof ? 404 : 200);
+      }
+
       // 查询交易
       if (path.startsWith('/tx/') && request.method === 'GET') {
         const txHash = path.split('/')[2];
@@ -1041,11 +2039,10 @@ export class ConsensusCoordinator {
       if (path === '/internal/report-error' && request.method === 'POST') {
         const { error } = await request.json() as { error: string };
         await this.state.storage.transaction(async (txn) => {
-          const stored = await txn.get<ConsensusCoordinatorState>('state');
-          if (stored) {
-            stored.worldState.lastProposerError = error;
-            await txn.put('state', stored);
-            this.worldState = stored.worldState;
+          const meta = await txn.get<ChainMeta>(STORAGE_KEYS.meta);
+          if (meta) {
+            meta.lastProposerError = error;
+            await txn.put(STORAGE_KEYS.meta, meta);
           }
         });
         return safeJsonResponse({ success: true });
@@ -1092,22 +2089,19 @@ export class ConsensusCoordinator {
         }
 
         // 3. 链状态检查
-        if (this.worldState && this.worldState.latestBlockHeight > 0 && !force) {
+        const currentMeta = await this.loadMeta(this.state.storage);
+        if (currentMeta.latestBlockHeight > 0 && !force) {
           return safeJsonResponse({ success: false, error: 'Cannot restore to a live chain without force=true' }, 403);
         }
 
         // 4. BigInt 还原并应用
         const restoredState = this.restoreBigInts(state);
 
-        await this.state.storage.put('state', restoredState);
-
-        // 更新内存
-        this.worldState = restoredState.worldState;
-        this.pendingQueue = restoredState.pendingQueue;
-        this.lastBackupTime = restoredState.lastBackupTime || 0;
-        this.blockHistory = new Map(
-          Object.entries(restoredState.blockHistory).map(([h, b]) => [Number(h), b as Block])
-        );
+        // 替换全部存储（同时更新内存缓存）
+        await this.replaceStorage({
+          ...restoredState,
+          consensusConfig: restoredState.consensusConfig || this.consensusConfig,
+        });
 
         return safeJsonResponse({ success: true, message: 'State restored successfully' });
       }
@@ -1129,6 +2123,13 @@ export class ConsensusCoordinator {
     return this.env as ApiEnv;
   }
 
+  /**
+   * 指定高度的签名校验方案（签名域与是否接受旧版载荷）
+   */
+  private async loadSignatureScheme(height: number): Promise<SignatureScheme> {
+    return loadSignatureScheme(this.apiEnv.CONFIG_KV, this.apiEnv, height);
+  }
+
   /**
    * 执行自动化备份
    */
@@ -1137,7 +2138,8 @@ export class ConsensusCoordinator {
     console.log(`[Consensus] Starting backup at ${new Date(now).toISOString()}...`);
 
     try {
-      const state = await this.state.storage.get<ConsensusCoordinatorState>('state');
+      // 导出为旧版快照格式，保持与 restore 脚本兼容
+      const state = await readSnapshot(this.state.storage);
       if (!state) return { success: false, error: 'State not found in storage' };
 
       const jsonData = JSON.stringify(state, (k, v) => typeof v === 'bigint' ? v.toString() : v);
@@ -1174,10 +2176,7 @@ export class ConsensusCoordinator {
 
       // 3. 更新状态
       this.lastBackupTime = now;
-      await this.state.storage.put('lastBackupTime', now);
-
-      state.lastBackupTime = now;
-      await this.state.storage.put('state', state);
+      await this.state.storage.put(STORAGE_KEYS.lastBackupTime, now);
 
       // 4. 更新索引并清理 (TTL=10)
       console.log(`[Consensus] Updating backup index in KV with CID: ${cid}...`);
@@ -1335,10 +2334,68 @@ export class ConsensusCoordinator {
       }
     }
 
+    if (state.staking) {
+      state.staking = reviveStakingSnapshot(state.staking);
+    }
+
     return state as ConsensusCoordinatorState;
   }
 }
 
+/**
+ * 已上链交易的收据（区块中记录了执行失败原因的交易为 FAILED，不收取手续费）
+ */
+function buildReceipt(block: Block, txIndex: number): TransactionReceipt {
+  const executionError = block.executionErrors?.[txIndex];
+  const tx = block.transactions[txIndex];
+  return {
+    transaction: tx,
+    status: executionError ? TransactionStatus.FAILED : TransactionStatus.CONFIRMED,
+    fee: executionError ? BigInt(0) : transactionFee(tx),
+    blockHeight: block.header.height,
+    blockHash: block.hash,
+    confirmationTime: block.header.timestamp,
+    ...(executionError ? { executionError } : {}),
+  };
+}
+
+/**
+ * 验证双签证据，无效时返回原因
+ * 两票必须高度与轮次都相同、区块不同，区块哈希与区块头一致，且都由 validatorPubKey 签名
+ * （不同轮次各签一个区块是 view change 后的正常投票，不构成双签）
+ */
+async function verifyEquivocationEvidence(evidence: EquivocationEvidence, scheme: SignatureScheme): Promise<string | undefined> {
+  const { validatorPubKey, voteA, voteB } = evidence;
+  if (!validatorPubKey || !voteA?.header || !voteB?.header) {
+    return 'Malformed evidence';
+  }
+
+  if (voteA.header.height !== voteB.header.height) {
+    return `Votes are for different heights: ${voteA.header.height} vs ${voteB.header.height}`;
+  }
+
+  const roundA = voteA.header.round ?? 0;
+  const roundB = voteB.header.round ?? 0;
+  if (roundA !== roundB) {
+    return `Votes are for different rounds: ${roundA} vs ${roundB}`;
+  }
+
+  if (voteA.blockHash === voteB.blockHash) {
+    return 'Votes are for the same block';
+  }
+
+  for (const vote of [voteA, voteB]) {
+    if ((await hashBlock(vote.header)) !== vote.blockHash) {
+      return `Block hash does not match header: ${vote.blockHash}`;
+    }
+    if (!(await verifyBlockSignature(vote.blockHash, vote.signature, validatorPubKey, scheme))) {
+      return `Invalid validator signature for block ${vote.blockHash}`;
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * BigInt 安全的 JSON 响应
  */
@@ -20,8 +20,17 @@ import type {
   Transaction,
   WorldState,
   GenesisConfig,
+  GenesisProposer,
+  StateCheckpoint,
+  PremineAllocation,
+  VestingSchedule,
+  Timestamp,
+  SigningDomain,
+  SignatureScheme,
+  FeeConfig,
   Address,
   HexString,
+  AccountState,
 } from '../types';
 
 import {
@@ -33,6 +42,10 @@ import {
   publicKeyToAddress,
 } from '../crypto';
 
+import { MemoryTreeStore, updateStateTree, EMPTY_STATE_ROOT } from '../state-tree';
+import { buildAccountUpdates, splitBlockReward } from '../execution';
+import type { RewardSigner } from '../execution';
+
 // ============================================
 // 创世配置
 // ============================================
@@ -57,10 +70,17 @@ export const DEFAULT_GENESIS_CONFIG: GenesisConfig = {
   premine: [
     {
       address: '0x262ec0e5cbab9ed4680a756cd77515d97bfd5b07', // Node 0 / Faucet
-      amount: '5000000000000000000000000', // 5M CFT
+      amount: '4000000000000000000000000', // 4M CFT
       description: 'Faucet & Proposer Pool',
       vestingMonths: 0,
     },
+    {
+      address: '0x262ec0e5cbab9ed4680a756cd77515d97bfd5b07', // Node 0（测试密钥，用于锁仓转账测试）
+      amount: '1000000000000000000000000', // 1M CFT
+      description: 'Node 0 Vesting',
+      cliffMonths: 12, // 锁定 1 年
+      vestingMonths: 36, // 之后 3 年线性释放
+    },
     {
       address: '0x90ce275b6ce31eafabc83f2dff9f193adb5e5807', // Node 1
       amount: '2000000000000000000000000', // 2M CFT
@@ -77,14 +97,15 @@ export const DEFAULT_GENESIS_CONFIG: GenesisConfig = {
       address: '0x0123456789abcdef0123456789abcdef01234567',
       amount: '1000000000000000000000000', // 1M CFT
       description: 'Ecosystem',
-      vestingMonths: 0,
+      cliffMonths: 12, // 锁定 1 年
+      vestingMonths: 36, // 之后 3 年线性释放
     }
   ],
 
   // 共识参数
   blockTime: 3000, // 3秒出块
-  blockReward: '0', // 用户指定：不再自动增发
-  halvingInterval: 2100000, // ~2年减半（虽然奖励为0，保留参数防报错）
+  blockReward: '0', // 默认不增发；设为非零后每个区块铸造奖励（见 calculateBlockReward）
+  halvingInterval: 2100000, // 每 2100000 个区块奖励减半（3 秒出块约 2 年）
 
   // 验证者节点（创世验证者）
   validators: [
@@ -104,9 +125,31 @@ export const DEFAULT_GENESIS_CONFIG: GenesisConfig = {
     },
   ],
 
+  // 法定人数按人数计算（true 时按 stake 加权）
+  stakeWeightedQuorum: false,
+
+  // 解除质押后需等待 100 个区块（3 秒出块约 5 分钟）才能取回
+  unbondingBlocks: 100,
+
+  // 自该高度起拒绝不含链标识的旧版签名载荷（0 表示从创世起即要求版本化载荷）
+  signatureActivationHeight: 0,
+
+  // 授权提议者（按高度与轮次轮换出块；Validator 用其公钥验证 proposerSignature）
+  proposers: [
+    {
+      id: 'node-0',
+      publicKey: '0x262ec0e5cbab9ed4680a756cd77515d97bfd5b0774e1f6ad0449f6b9ed23c85b',
+    },
+    {
+      id: 'node-3',
+      publicKey: '0xab3cf0371a3e6bc89d4320fdaadb4be46bce7cb28be919d71df4147af697267a',
+    },
+  ],
+
   // Gas 配置
   minGasPrice: '0',
   maxGasLimit: '10000000',
+  replacementFeeBump: 10, // 同 nonce 替换至少提高 10% gasPrice
 
   // 治理参数
   governance: {
@@ -259,48 +302,177 @@ export function generateInitialWorldState(
 }
 
 /**
- * 计算状态根
+ * 计算状态根（账户状态树，与 ConsensusCoordinator 写入时重建的根一致）
  */
 async function computeStateRoot(state: InitialState): Promise<HexString> {
-  const stateData = {
-    balances: Object.entries(state.balances).map(([k, v]) => [k, v.toString()]),
-    nonces: state.nonces,
-    stakes: Object.entries(state.stakes).map(([k, v]) => [k, v.toString()]),
-    validators: state.validatorAddresses, // Use addresses for state root
-  };
+  const accounts = new Map<Address, AccountState>();
+  for (const address of Object.keys(state.balances)) {
+    accounts.set(address, {
+      balance: state.balances[address],
+      nonce: state.nonces[address] || 0,
+      lastUpdated: 0,
+    });
+  }
 
-  const { sha256Hex, objectToBytes } = await import('../crypto');
-  return sha256Hex(objectToBytes(stateData));
+  const updates = await buildAccountUpdates(accounts, accounts.keys());
+  return updateStateTree(new MemoryTreeStore(), EMPTY_STATE_ROOT, updates);
 }
 
 // ============================================
 // 区块奖励计算
 // ============================================
 
+/** 减半次数达到该值后奖励必然为 0 */
+const MAX_HALVINGS = 256;
+
 /**
- * 计算指定高度的区块奖励
+ * 计算指定高度的区块奖励：blockReward 每 halvingInterval 个区块减半（创世区块没有奖励）
  */
 export function calculateBlockReward(
   blockHeight: number,
   config: GenesisConfig = DEFAULT_GENESIS_CONFIG
 ): bigint {
-  // 用户指定不自动增发
-  return BigInt(0);
+  if (blockHeight <= 0) return BigInt(0);
+
+  const halvings = config.halvingInterval > 0 ? Math.floor(blockHeight / config.halvingInterval) : 0;
+  if (halvings >= MAX_HALVINGS) return BigInt(0);
+
+  return BigInt(config.blockReward || '0') >> BigInt(halvings);
 }
 
 /**
- * 计算总供应量（优化版）
+ * 计算截至 currentBlockHeight（含）的总供应量：初始供应量 + 已铸造的区块奖励
+ * 按减半周期分段求和，不逐块累加
  */
 export function calculateTotalSupply(
   currentBlockHeight: number,
   config: GenesisConfig = DEFAULT_GENESIS_CONFIG
 ): bigint {
-  const initialSupply = BigInt(config.initialSupply);
+  let supply = BigInt(config.initialSupply);
+  if (currentBlockHeight <= 0) return supply;
+
+  const interval = config.halvingInterval > 0 ? config.halvingInterval : Infinity;
+  for (let start = 1; start <= currentBlockHeight;) {
+    const reward = calculateBlockReward(start, config);
+    if (reward === BigInt(0)) break;
+
+    // [start, end] 属于同一减半周期
+    const end = Math.min(currentBlockHeight, (Math.floor(start / interval) + 1) * interval - 1);
+    supply += reward * BigInt(end - start + 1);
+    start = end + 1;
+  }
 
-  // 由于奖励为0，总供应量恒定
-  // 如果未来开启奖励，使用公式法：initial + height * reward (如果不考虑减半)
+  return supply;
+}
 
-  return initialSupply;
+/**
+ * 区块奖励的分配：提议者与签署上一区块的验证者（投票公钥）
+ * 本区块的投票在执行时尚未产生，因此按上一区块的提交签名分配，所有节点结果一致
+ * 签名者须为创世验证者，权重规则与法定人数相同：
+ * 按质押加权时使用 bonded 中的已绑定质押（缺省为创世质押）
+ */
+export function calculateBlockRewards(
+  config: GenesisConfig,
+  blockHeight: number,
+  proposerId: string,
+  lastCommitSigners: HexString[],
+  bonded?: Map<HexString, bigint>
+): Map<Address, bigint> {
+  const reward = calculateBlockReward(blockHeight, config);
+  const proposer = (config.proposers ?? DEFAULT_GENESIS_CONFIG.proposers).find(p => p.id === proposerId);
+  if (reward === BigInt(0) || !proposer) return new Map();
+
+  const signers: RewardSigner[] = [];
+  for (const publicKey of new Set(lastCommitSigners)) {
+    const validator = config.validators.find(v => v.publicKey === publicKey);
+    if (!validator) continue;
+    signers.push({
+      address: publicKeyToAddress(validator.publicKey),
+      weight: config.stakeWeightedQuorum ? bonded?.get(validator.publicKey) ?? BigInt(validator.stake) : BigInt(1),
+    });
+  }
+
+  return splitBlockReward(reward, publicKeyToAddress(proposer.publicKey), signers);
+}
+
+// ============================================
+// 预挖释放计划
+// ============================================
+
+/** 释放计划中的一个月（与 getTokenInfo 一致，按 30 天计） */
+export const VESTING_MONTH_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 预挖分配在 timestamp 时的释放计划
+ * genesisTime 起 cliffMonths 内全部锁定，之后 vestingMonths 内按时间线性释放（向下取整）
+ * genesisTime 必须取创世区块头时间：initGenesis 可以覆盖配置中的 genesisTime，且不会写回配置
+ */
+export function buildVestingSchedule(
+  allocation: PremineAllocation,
+  genesisTime: Timestamp,
+  timestamp: Timestamp
+): VestingSchedule {
+  const cliffMonths = allocation.cliffMonths || 0;
+  const vestingMonths = allocation.vestingMonths || 0;
+  const startTime = genesisTime;
+  const cliffEndTime = startTime + cliffMonths * VESTING_MONTH_MS;
+  const endTime = cliffEndTime + vestingMonths * VESTING_MONTH_MS;
+  const totalAmount = BigInt(allocation.amount);
+
+  let released: bigint;
+  if (timestamp >= endTime) {
+    released = totalAmount;
+  } else if (timestamp < cliffEndTime) {
+    released = BigInt(0);
+  } else {
+    released = totalAmount * BigInt(timestamp - cliffEndTime) / BigInt(endTime - cliffEndTime);
+  }
+
+  return {
+    beneficiary: allocation.address.toLowerCase(),
+    totalAmount: totalAmount.toString(),
+    releasedAmount: released.toString(),
+    startTime,
+    cliffEndTime,
+    endTime,
+    cliffMonths,
+    vestingMonths,
+  };
+}
+
+/**
+ * 地址名下全部预挖分配的释放计划（无锁仓的分配同样列出，已全部释放）
+ */
+export function getVestingSchedules(
+  config: GenesisConfig,
+  genesisTime: Timestamp,
+  address: Address,
+  timestamp: Timestamp
+): VestingSchedule[] {
+  const key = address.toLowerCase();
+  return config.premine
+    .filter(allocation => allocation.address.toLowerCase() === key)
+    .map(allocation => buildVestingSchedule(allocation, genesisTime, timestamp));
+}
+
+/**
+ * timestamp 时各地址仍锁定的预挖数量（只包含大于 0 的地址）
+ * 执行交易时发送方转出后的余额不得低于锁定数量（见 executeTransactions）
+ * 必须使用区块头时间计算，提议者、Coordinator 与副本才能得到相同结果
+ */
+export function calculateLockedBalances(
+  config: GenesisConfig,
+  genesisTime: Timestamp,
+  timestamp: Timestamp
+): Map<Address, bigint> {
+  const locked = new Map<Address, bigint>();
+  for (const allocation of config.premine) {
+    const schedule = buildVestingSchedule(allocation, genesisTime, timestamp);
+    const amount = BigInt(schedule.totalAmount) - BigInt(schedule.releasedAmount);
+    if (amount <= BigInt(0)) continue;
+    locked.set(schedule.beneficiary, (locked.get(schedule.beneficiary) ?? BigInt(0)) + amount);
+  }
+  return locked;
 }
 
 // ============================================
@@ -333,6 +505,38 @@ export function validateGenesisConfig(config: GenesisConfig): { valid: boolean;
     if (BigInt(validator.stake) <= BigInt(0)) {
       errors.push(`Validator ${validator.id} has invalid stake`);
     }
+    if (!Number.isInteger(validator.commission) || validator.commission < 0 || validator.commission > 100) {
+      errors.push(`Validator ${validator.id} has invalid commission (0-100)`);
+    }
+  }
+
+  // 验证解绑期
+  const unbondingBlocks = config.unbondingBlocks ?? DEFAULT_GENESIS_CONFIG.unbondingBlocks;
+  if (!Number.isInteger(unbondingBlocks) || unbondingBlocks < 0) {
+    errors.push('Unbonding period must be a non-negative number of blocks');
+  }
+
+  // 验证副本检查点
+  if (config.stateCheckpoint) {
+    const { height, blockHash, stateRoot } = config.stateCheckpoint;
+    if (!Number.isInteger(height) || height < 0 || !/^0x[0-9a-f]{64}$/i.test(blockHash) || !/^0x[0-9a-f]{64}$/i.test(stateRoot)) {
+      errors.push('State checkpoint must have a non-negative height and 32-byte blockHash / stateRoot');
+    }
+  }
+
+  // 验证预挖释放计划
+  for (const allocation of config.premine) {
+    for (const months of [allocation.vestingMonths || 0, allocation.cliffMonths || 0]) {
+      if (!Number.isInteger(months) || months < 0) {
+        errors.push(`Premine allocation ${allocation.address} has invalid vesting schedule`);
+        break;
+      }
+    }
+  }
+
+  // 验证提议者
+  if (!config.proposers || config.proposers.length === 0) {
+    errors.push('At least 1 authorized proposer required');
   }
 
   // 验证区块时间
@@ -358,6 +562,72 @@ export async function loadGenesisConfig(kv: KVNamespace): Promise<GenesisConfig>
   return stored || DEFAULT_GENESIS_CONFIG;
 }
 
+/**
+ * 加载授权提议者列表
+ * KV 中较早保存的配置没有 proposers 字段时回退到默认配置
+ */
+export async function loadAuthorizedProposers(kv: KVNamespace): Promise<GenesisProposer[]> {
+  const config = await loadGenesisConfig(kv);
+  return config.proposers ?? DEFAULT_GENESIS_CONFIG.proposers;
+}
+
+/**
+ * 提议者收取手续费的地址（由其公钥派生）；未授权的提议者返回 undefined
+ */
+export async function loadFeeRecipient(kv: KVNamespace, proposerId: string): Promise<Address | undefined> {
+  const proposer = (await loadAuthorizedProposers(kv)).find(p => p.id === proposerId);
+  return proposer ? publicKeyToAddress(proposer.publicKey) : undefined;
+}
+
+/**
+ * 加载手续费参数（KV 中较早保存的配置没有该字段时回退到默认配置）
+ */
+export async function loadFeeConfig(kv: KVNamespace): Promise<FeeConfig> {
+  const config = await loadGenesisConfig(kv);
+  return {
+    minGasPrice: BigInt(config.minGasPrice ?? DEFAULT_GENESIS_CONFIG.minGasPrice),
+    maxGasLimit: BigInt(config.maxGasLimit ?? DEFAULT_GENESIS_CONFIG.maxGasLimit),
+    replacementFeeBump: config.replacementFeeBump ?? DEFAULT_GENESIS_CONFIG.replacementFeeBump,
+  };
+}
+
+/**
+ * 签名域取自节点环境变量 CHAIN_ID / NETWORK_ID（所有 Worker 配置一致）
+ */
+export function getSigningDomain(env: { CHAIN_ID: string; NETWORK_ID: string }): SigningDomain {
+  return { chainId: env.CHAIN_ID, networkId: env.NETWORK_ID };
+}
+
+/**
+ * 加载旧版签名载荷的截止高度（KV 中较早保存的配置没有该字段时回退到默认配置）
+ */
+export async function loadSignatureActivationHeight(kv: KVNamespace): Promise<number> {
+  const config = await loadGenesisConfig(kv);
+  return config.signatureActivationHeight ?? DEFAULT_GENESIS_CONFIG.signatureActivationHeight;
+}
+
+/**
+ * 加载验证者状态副本的受信检查点（未配置时副本从创世重新执行）
+ */
+export async function loadStateCheckpoint(kv: KVNamespace): Promise<StateCheckpoint | undefined> {
+  const config = await loadGenesisConfig(kv);
+  return config.stateCheckpoint;
+}
+
+/**
+ * 指定高度的签名校验方案：激活高度之前仍接受旧版载荷
+ */
+export async function loadSignatureScheme(
+  kv: KVNamespace,
+  env: { CHAIN_ID: string; NETWORK_ID: string },
+  height: number
+): Promise<SignatureScheme> {
+  return {
+    domain: getSigningDomain(env),
+    allowLegacy: height < await loadSignatureActivationHeight(kv),
+  };
+}
+
 /**
  * 保存创世配置到 KV
  */
@@ -386,28 +656,23 @@ export interface TokenInfo {
 
 /**
  * 获取代币信息
+ * genesisTime 为创世区块头时间（缺省取配置中的 genesisTime）
  */
 export async function getTokenInfo(
   currentBlockHeight: number,
-  config: GenesisConfig = DEFAULT_GENESIS_CONFIG
+  config: GenesisConfig = DEFAULT_GENESIS_CONFIG,
+  genesisTime: Timestamp = config.genesisTime
 ): Promise<TokenInfo> {
   const totalSupply = calculateTotalSupply(currentBlockHeight, config);
 
   // 计算流通供应量（扣除未释放的预挖）
   let circulatingSupply = BigInt(0);
   for (const allocation of config.premine) {
-    const monthsSinceGenesis = Math.floor(
-      (Date.now() - config.genesisTime) / (30 * 24 * 60 * 60 * 1000)
-    );
-    const vestedMonths = Math.min(monthsSinceGenesis, allocation.vestingMonths || 0);
-    const vestedAmount = BigInt(allocation.amount) * BigInt(vestedMonths) / BigInt(allocation.vestingMonths || 1);
-    circulatingSupply += vestedAmount;
+    circulatingSupply += BigInt(buildVestingSchedule(allocation, genesisTime, Date.now()).releasedAmount);
   }
 
   // 加上挖矿产出
-  for (let i = 1; i <= currentBlockHeight; i++) {
-    circulatingSupply += calculateBlockReward(i, config);
-  }
+  circulatingSupply += totalSupply - BigInt(config.initialSupply);
 
   const halvings = Math.floor(currentBlockHeight / config.halvingInterval);
   const nextHalving = (halvings + 1) * config.halvingInterval;
@@ -0,0 +1,684 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * ValidatorReplica - Validator 独立状态副本（Durable Object）
+ * ============================================
+ *
+ * 核心职责：
+ * 1. 每个 Validator Worker 持有自己的副本，不读取 Proposer 写入的世界状态
+ * 2. 从创世配置独立计算初始状态，逐块重新执行已提交区块（区块哈希、链接、状态根均需一致）
+ *    状态树上线前的链配置了受信检查点（stateCheckpoint）时，从检查点的状态起追块
+ * 3. 用本地状态验证新提案的状态根，以及区块头承诺的验证者集合
+ * 4. 落后时按批从 Coordinator 拉取已提交区块追块
+ * 5. 持久化最近签名的 (height, round, blockHash)，拒绝在更低高度、或同一高度不更高的轮次签署冲突区块
+ *
+ * 设计原则：
+ * - Coordinator 只作为区块来源，区块内容全部在本地重新验证
+ * - 区块与本地状态不一致时停止同步（haltedReason），需人工重置，绝不自动跟随
+ * - 账户与状态树沿用 ./storage 的行布局，副本自身的元数据单独存放
+ */
+
+import type {
+  Block,
+  AccountState,
+  Address,
+  BlockHash,
+  HexString,
+  ConsensusConfig,
+  ReplicaMeta,
+  ReplicaSyncResult,
+  StateLeavesResponse,
+  StakingSnapshot,
+  StateCheckpoint,
+  LastSignedRecord,
+  ValidatorEnv,
+} from '../types';
+
+import { hashBlock, hashValidatorSet } from '../crypto';
+
+import {
+  DEFAULT_GENESIS_CONFIG,
+  generateInitialWorldState,
+  loadFeeRecipient,
+  loadGenesisConfig,
+  loadStateCheckpoint,
+  calculateBlockRewards,
+  calculateLockedBalances,
+} from './genesis';
+
+import {
+  accountKey,
+  loadAccounts,
+  putMany,
+  createStateTreeStore,
+  flushStateTree,
+  buildAccountStateTree,
+  loadStakingState,
+  loadValidatorStakes,
+  buildStakingRows,
+  buildStakingSnapshotRows,
+} from './storage';
+import type { StorageReader } from './storage';
+import type { StakingState } from '../staking';
+import { collectDelegationIds, bondedStakeByPublicKey, buildStakingUpdates, reviveStakingSnapshot } from '../staking';
+
+import { updateStateTree } from '../state-tree';
+import { roundStartsAt } from '../schedule';
+import { buildValidatorSet } from '../quorum';
+import type { MemoryTreeStore } from '../state-tree';
+
+import {
+  collectTouchedAddresses,
+  executeTransactions,
+  buildAccountUpdates,
+} from '../execution';
+import type { ExecutionFailure } from '../execution';
+
+// ============================================
+// 常量定义
+// ============================================
+
+/** 副本元数据 key（账户 / 状态树行与 Coordinator 布局相同） */
+const REPLICA_META_KEY = 'replica:meta';
+
+/** 最近签名记录 key（重置副本时保留） */
+const LAST_SIGNED_KEY = 'replica:lastSigned';
+
+/** 未执行 initGenesis 时 Coordinator 使用的创世哈希 */
+const GENESIS_HASH = '0x0000000000000000000000000000000000000000000000000000000000000000';
+
+/** 每次从 Coordinator 拉取的区块数 */
+const SYNC_BATCH_SIZE = 20;
+
+/** 单次同步最多拉取的批数（超出部分留给下一次同步） */
+const MAX_SYNC_BATCHES = 50;
+
+/**
+ * 在副本状态上执行区块的结果（未落盘）
+ */
+interface ReplicaExecution {
+  accounts: Map<Address, AccountState>;
+  changed: Set<Address>;
+  staking: StakingState;
+  failed: ExecutionFailure[];
+  stateRoot: BlockHash;
+  treeStore: MemoryTreeStore;
+}
+
+// ============================================
+// ValidatorReplica Durable Object
+// ============================================
+
+export class ValidatorReplica {
+  private state: DurableObjectState;
+  private env: ValidatorEnv;
+
+  constructor(state: DurableObjectState, env: ValidatorEnv) {
+    this.state = state;
+    this.env = env;
+  }
+
+  // ============================================
+  // 初始化
+  // ============================================
+
+  private async loadMeta(reader: StorageReader): Promise<ReplicaMeta | undefined> {
+    return reader.get<ReplicaMeta>(REPLICA_META_KEY);
+  }
+
+  /**
+   * 构建初始状态：配置了受信检查点时从检查点起，否则从创世起
+   */
+  private async bootstrap(): Promise<ReplicaMeta> {
+    const checkpoint = await loadStateCheckpoint(this.env.CONFIG_KV);
+    return checkpoint ? this.bootstrapFromCheckpoint(checkpoint) : this.bootstrapFromGenesis();
+  }
+
+  /**
+   * 由创世配置独立构建初始状态
+   * 创世区块的哈希取自 Coordinator，但其状态根必须与本地计算结果一致
+   */
+  private async bootstrapFromGenesis(): Promise<ReplicaMeta> {
+    const initialState = generateInitialWorldState(DEFAULT_GENESIS_CONFIG);
+
+    const accounts = new Map<Address, AccountState>();
+    for (const address of Object.keys(initialState.balances)) {
+      accounts.set(address.toLowerCase(), {
+        balance: initialState.balances[address],
+        nonce: initialState.nonces[address] || 0,
+        lastUpdated: 0,
+      });
+    }
+
+    const treeStore = createStateTreeStore(this.state.storage);
+    const stateRoot = await buildAccountStateTree(treeStore, accounts);
+
+    const genesis = await this.fetchGenesisBlock();
+    const meta: ReplicaMeta = {
+      height: 0,
+      blockHash: genesis?.hash ?? GENESIS_HASH,
+      blockTimestamp: genesis?.header.timestamp,
+      stateRoot,
+      genesisTime: genesis?.header.timestamp,
+      lastSyncedAt: Date.now(),
+    };
+    if (genesis && genesis.header.stateRoot !== stateRoot) {
+      meta.haltedReason = `Genesis state root mismatch. Local: ${stateRoot}, chain: ${genesis.header.stateRoot}`;
+    }
+
+    await this.state.storage.transaction(async (txn) => {
+      const writes: Record<string, unknown> = { [REPLICA_META_KEY]: meta };
+      for (const [address, account] of accounts) {
+        writes[accountKey(address)] = account;
+      }
+      await putMany(txn, writes);
+      await flushStateTree(txn, treeStore);
+    });
+
+    console.log(`[ValidatorReplica] Bootstrapped from genesis, stateRoot ${stateRoot}`);
+    return meta;
+  }
+
+  /**
+   * 从受信检查点构建初始状态
+   * 账户与质押取自 Coordinator 在检查点状态根下的叶子（分页读取），但区块哈希与本地重建的状态根
+   * 必须与配置中的检查点一致，之后的区块照常逐块验证
+   */
+  private async bootstrapFromCheckpoint(checkpoint: StateCheckpoint): Promise<ReplicaMeta> {
+    const [block] = await this.fetchBlocks(checkpoint.height, 1);
+    if (!block || block.header.height !== checkpoint.height) {
+      throw new Error(`Checkpoint block ${checkpoint.height} not found`);
+    }
+
+    const accounts = new Map<Address, AccountState>();
+    const fetched: StakingSnapshot = { validators: {}, delegations: {} };
+    let after: string | undefined;
+    do {
+      const query = `root=${checkpoint.stateRoot}${after ? `&after=${after}` : ''}`;
+      const response = await this.coordinator.fetch(`http://do/internal/state-leaves?${query}`);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch state at checkpoint ${checkpoint.height}: HTTP ${response.status}`);
+      }
+      const page = await response.json() as StateLeavesResponse;
+      for (const [address, account] of Object.entries(page.accounts)) {
+        accounts.set(address.toLowerCase(), {
+          balance: BigInt(account.balance),
+          nonce: account.nonce,
+          lastUpdated: block.header.timestamp,
+        });
+      }
+      Object.assign(fetched.validators, page.staking.validators);
+      Object.assign(fetched.delegations, page.staking.delegations);
+      after = page.next;
+    } while (after);
+    const staking = reviveStakingSnapshot(fetched);
+    const genesis = await this.fetchGenesisBlock();
+
+    const treeStore = createStateTreeStore(this.state.storage);
+    const stateRoot = await buildAccountStateTree(treeStore, accounts, staking);
+
+    const meta: ReplicaMeta = {
+      height: checkpoint.height,
+      blockHash: block.hash,
+      blockTimestamp: block.header.timestamp,
+      stateRoot,
+      checkpointHeight: checkpoint.height,
+      genesisTime: genesis?.header.timestamp,
+      lastCommitSigners: (block.votes ?? []).map(vote => vote.validatorPubKey),
+      lastSyncedAt: Date.now(),
+    };
+    if (block.hash !== checkpoint.blockHash || (await hashBlock(block.header)) !== block.hash) {
+      meta.haltedReason = `Checkpoint block hash mismatch at height ${checkpoint.height}. Trusted: ${checkpoint.blockHash}, chain: ${block.hash}`;
+    } else if (stateRoot !== checkpoint.stateRoot) {
+      meta.haltedReason = `Checkpoint state root mismatch at height ${checkpoint.height}. Local: ${stateRoot}, trusted: ${checkpoint.stateRoot}`;
+    }
+
+    await this.state.storage.transaction(async (txn) => {
+      const writes: Record<string, unknown> = { [REPLICA_META_KEY]: meta, ...buildStakingSnapshotRows(staking) };
+      for (const [address, account] of accounts) {
+        writes[accountKey(address)] = account;
+      }
+      await putMany(txn, writes);
+      await flushStateTree(txn, treeStore);
+    });
+
+    console.log(`[ValidatorReplica] Bootstrapped from checkpoint ${checkpoint.height}, stateRoot ${stateRoot}`);
+    return meta;
+  }
+
+  /**
+   * 清空副本，重新从创世（或受信检查点）追块（副本因链重置或检查点变更而停止同步时使用）
+   */
+  async reset(): Promise<ReplicaSyncResult> {
+    const lastSigned = await this.getLastSigned();
+    await this.state.storage.deleteAll();
+    if (lastSigned) {
+      await this.state.storage.put(LAST_SIGNED_KEY, lastSigned);
+    }
+    return this.sync();
+  }
+
+  // ============================================
+  // 区块执行
+  // ============================================
+
+  /**
+   * 在副本当前状态上执行区块，返回新状态（不写入存储）
+   * 手续费计入区块提议者（地址由授权提议者公钥派生）；区块奖励按上一区块的签名者分配
+   * 预挖锁仓按区块头时间计算；质押交易与奖励池按与 Coordinator 相同的规则更新
+   */
+  private async execute(reader: StorageReader, meta: ReplicaMeta, block: Block): Promise<ReplicaExecution> {
+    const feeRecipient = await loadFeeRecipient(this.env.CONFIG_KV, block.header.proposer);
+    const genesisConfig = await loadGenesisConfig(this.env.CONFIG_KV);
+    const staking = await loadStakingState(
+      reader,
+      genesisConfig.validators,
+      collectDelegationIds(block.transactions),
+      genesisConfig.unbondingBlocks ?? DEFAULT_GENESIS_CONFIG.unbondingBlocks
+    );
+    const rewards = calculateBlockRewards(
+      genesisConfig,
+      block.header.height,
+      block.header.proposer,
+      meta.lastCommitSigners ?? [],
+      bondedStakeByPublicKey(genesisConfig.validators, staking.records)
+    );
+    // 释放计划从创世区块头时间起算（较早的副本元数据没有记录时向 Coordinator 读取创世区块）
+    const genesisTime = meta.genesisTime
+      ?? (await this.fetchGenesisBlock())?.header.timestamp
+      ?? genesisConfig.genesisTime;
+    const accounts = await loadAccounts(reader, collectTouchedAddresses(block.transactions, feeRecipient, rewards));
+    const { failed, changed } = executeTransactions(accounts, block.transactions, block.header.timestamp, {
+      height: block.header.height,
+      feeRecipient,
+      rewards,
+      locked: calculateLockedBalances(genesisConfig, genesisTime, block.header.timestamp),
+      staking,
+    });
+
+    const treeStore = createStateTreeStore(reader);
+    const stateRoot = await updateStateTree(treeStore, meta.stateRoot, [
+      ...await buildAccountUpdates(accounts, changed),
+      ...await buildStakingUpdates(staking),
+    ]);
+
+    return { accounts, changed, staking, failed, stateRoot, treeStore };
+  }
+
+  /**
+   * 校验区块哈希及其与本地链头的衔接
+   * view change 后的区块（round > 0）不得早于上一区块时间 + round * consensusTimeoutMs
+   * （consensusTimeoutMs 取自协调器的共识配置，与其推进轮次使用同一来源）
+   * live 为待签名的提案时，本地时钟也必须已到达该轮次，提议者不能靠把区块时间写到未来提前接管
+   */
+  private async checkLink(meta: ReplicaMeta, block: Block, live: boolean): Promise<string | undefined> {
+    if (block.header.height !== meta.height + 1) {
+      return `Invalid block height. Expected: ${meta.height + 1}, got: ${block.header.height}`;
+    }
+
+    if (block.header.prevHash !== meta.blockHash) {
+      return 'Invalid previous block hash';
+    }
+
+    if ((await hashBlock(block.header)) !== block.hash) {
+      return `Invalid block hash at height ${block.header.height}`;
+    }
+
+    const round = block.header.round ?? 0;
+    if (round > 0 && meta.blockTimestamp !== undefined) {
+      const timeoutMs = await this.fetchConsensusTimeoutMs();
+      const earliest = roundStartsAt(meta.blockTimestamp, round, timeoutMs);
+      if (block.header.timestamp < earliest) {
+        return `Round ${round} proposal before view change timeout. Earliest: ${earliest}, got: ${block.header.timestamp}`;
+      }
+      if (live && Date.now() < earliest) {
+        return `Round ${round} has not started yet. Starts at: ${earliest}, local time: ${Date.now()}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 验证提案：在本地状态上模拟执行，状态根必须与区块头一致（任何一笔交易无效即拒绝）
+   * 副本落后时先追块
+   */
+  async validateProposal(block: Block): Promise<{ valid: boolean; error?: string }> {
+    let meta = await this.loadMeta(this.state.storage);
+
+    if (!meta || meta.height < block.header.height - 1) {
+      const sync = await this.sync();
+      if (sync.error) {
+        return { valid: false, error: `Replica sync failed: ${sync.error}` };
+      }
+      meta = (await this.loadMeta(this.state.storage))!;
+    }
+
+    if (meta.haltedReason) {
+      return { valid: false, error: `Replica halted: ${meta.haltedReason}` };
+    }
+
+    const linkError = await this.checkLink(meta, block, true);
+    if (linkError) {
+      return { valid: false, error: linkError };
+    }
+
+    const validatorSetHash = await this.currentValidatorSetHash(this.state.storage);
+    if (block.header.validatorSetHash !== validatorSetHash) {
+      return {
+        valid: false,
+        error: `Invalid validator set hash. Expected: ${validatorSetHash}, got: ${block.header.validatorSetHash}`
+      };
+    }
+
+    const { failed, stateRoot } = await this.execute(this.state.storage, meta, block);
+    if (failed.length > 0) {
+      return { valid: false, error: failed[0].error };
+    }
+
+    if (stateRoot !== block.header.stateRoot) {
+      return {
+        valid: false,
+        error: `Invalid state root. Expected: ${stateRoot}, got: ${block.header.stateRoot}`
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * 执行已提交区块并落盘
+   * 与 commitBlock 相同，执行失败的交易被跳过；区块与本地状态不一致时返回错误
+   */
+  async ingestBlock(block: Block): Promise<{ success: boolean; error?: string }> {
+    return this.state.storage.transaction(async (txn) => {
+      const meta = await this.loadMeta(txn);
+      if (!meta) {
+        return { success: false, error: 'Replica not initialized' };
+      }
+
+      // 并发同步时可能已被执行
+      if (block.header.height <= meta.height) {
+        return { success: true };
+      }
+
+      const linkError = await this.checkLink(meta, block, false);
+      if (linkError) {
+        return { success: false, error: linkError };
+      }
+
+      const { accounts, changed, staking, stateRoot, treeStore } = await this.execute(txn, meta, block);
+      if (stateRoot !== block.header.stateRoot) {
+        return {
+          success: false,
+          error: `State root mismatch at height ${block.header.height}. Computed: ${stateRoot}, header: ${block.header.stateRoot}`
+        };
+      }
+
+      const newMeta: ReplicaMeta = {
+        height: block.header.height,
+        blockHash: block.hash,
+        blockTimestamp: block.header.timestamp,
+        stateRoot,
+        genesisTime: meta.genesisTime,
+        lastCommitSigners: (block.votes ?? []).map(vote => vote.validatorPubKey),
+        lastSyncedAt: Date.now(),
+      };
+
+      const writes: Record<string, unknown> = { [REPLICA_META_KEY]: newMeta, ...buildStakingRows(staking) };
+      for (const address of changed) {
+        writes[accountKey(address)] = accounts.get(address) as AccountState;
+      }
+      await putMany(txn, writes);
+      await flushStateTree(txn, treeStore);
+
+      return { success: true };
+    });
+  }
+
+  // ============================================
+  // 防双签
+  // ============================================
+
+  /**
+   * 签名前登记 (height, round, blockHash)
+   * 已签过更高高度时拒绝；同一高度只允许在严格更高的轮次签署新区块（view change 后的接管提案），
+   * 相同或更低轮次的不同区块一律拒绝；同一轮次的同一区块可以重复签名（Proposer 重试）
+   */
+  async recordSignature(height: number, round: number, blockHash: BlockHash): Promise<{ success: boolean; error?: string; lastSigned?: LastSignedRecord }> {
+    return this.state.storage.transaction(async (txn) => {
+      const last = await txn.get<LastSignedRecord>(LAST_SIGNED_KEY);
+
+      if (last) {
+        if (height < last.height) {
+          return {
+            success: false,
+            error: `Double-sign protection: already signed height ${last.height}, refusing height ${height}`,
+            lastSigned: last,
+          };
+        }
+        if (height === last.height) {
+          const lastRound = last.round ?? 0;
+          if (round === lastRound && blockHash === last.blockHash) {
+            return { success: true, lastSigned: last };
+          }
+          if (round <= lastRound) {
+            return {
+              success: false,
+              error: `Double-sign protection: already signed ${last.blockHash} at height ${height} round ${lastRound}, refusing round ${round}`,
+              lastSigned: last,
+            };
+          }
+        }
+      }
+
+      const record: LastSignedRecord = { height, round, blockHash, signedAt: Date.now() };
+      await txn.put(LAST_SIGNED_KEY, record);
+      return { success: true, lastSigned: record };
+    });
+  }
+
+  async getLastSigned(): Promise<LastSignedRecord | null> {
+    return (await this.state.storage.get<LastSignedRecord>(LAST_SIGNED_KEY)) || null;
+  }
+
+  // ============================================
+  // 追块同步
+  // ============================================
+
+  /**
+   * 从 Coordinator 按批拉取本地高度之后的已提交区块并逐块执行
+   * 区块不一致时记录 haltedReason 并停止，之后的同步直接返回错误
+   */
+  async sync(): Promise<ReplicaSyncResult> {
+    let meta = await this.loadMeta(this.state.storage);
+    let applied = 0;
+
+    try {
+      if (!meta) {
+        meta = await this.bootstrap();
+      } else if (meta.height === 0 && meta.checkpointHeight === undefined && !meta.haltedReason) {
+        // 仍在高度 0 时 Coordinator 可能重新执行了 initGenesis，刷新创世哈希
+        const genesis = await this.fetchGenesisBlock();
+        if ((genesis?.hash ?? GENESIS_HASH) !== meta.blockHash) {
+          await this.state.storage.deleteAll();
+          meta = await this.bootstrap();
+        }
+      }
+
+      for (let batch = 0; batch < MAX_SYNC_BATCHES; batch++) {
+        if (meta.haltedReason) {
+          return { height: meta.height, applied, caughtUp: false, error: meta.haltedReason };
+        }
+
+        const blocks = await this.fetchBlocks(meta.height + 1, SYNC_BATCH_SIZE);
+        if (blocks.length === 0 || blocks[0].header.height !== meta.height + 1) {
+          return { height: meta.height, applied, caughtUp: true };
+        }
+
+        for (const block of blocks) {
+          const result = await this.ingestBlock(block);
+          if (!result.success) {
+            meta = { ...meta, haltedReason: result.error };
+            await this.state.storage.put(REPLICA_META_KEY, meta);
+            console.error(`[ValidatorReplica] Halted at height ${meta.height}:`, result.error);
+            return { height: meta.height, applied, caughtUp: false, error: result.error };
+          }
+          applied++;
+        }
+
+        meta = (await this.loadMeta(this.state.storage))!;
+        if (blocks.length < SYNC_BATCH_SIZE) {
+          return { height: meta.height, applied, caughtUp: true };
+        }
+      }
+
+      return { height: meta.height, applied, caughtUp: false };
+    } catch (error) {
+      console.error('[ValidatorReplica] Sync failed:', error);
+      return {
+        height: meta?.height ?? 0,
+        applied,
+        caughtUp: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private get coordinator(): DurableObjectStub {
+    const doId = this.env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+    return this.env.CONSENSUS_COORDINATOR.get(doId);
+  }
+
+  /**
+   * 拉取 [from, from + limit) 范围内已提交的区块（按高度升序）
+   */
+  private async fetchBlocks(from: number, limit: number): Promise<Block[]> {
+    const start = from + limit - 1;
+    const response = await this.coordinator.fetch(`http://do/blocks?start=${start}&limit=${limit}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blocks from height ${from}: HTTP ${response.status}`);
+    }
+
+    const { blocks } = await response.json() as { blocks: any[] };
+
+    // BigInt 还原
+    return blocks
+      .map(block => ({
+        ...block,
+        transactions: block.transactions.map((tx: any) => ({
+          ...tx,
+          amount: BigInt(tx.amount || '0'),
+          gasPrice: BigInt(tx.gasPrice || '0'),
+          gasLimit: BigInt(tx.gasLimit || '0'),
+        })),
+      }) as Block)
+      .sort((a, b) => a.header.height - b.header.height);
+  }
+
+  /**
+   * 提交下一区块的验证者集合哈希：成员取自共识配置，加权时按副本中执行前的已绑定质押
+   * （与 Coordinator 的 loadValidatorSet 规则一致）
+   */
+  private async currentValidatorSetHash(reader: StorageReader): Promise<HexString> {
+    const { validators, stakeWeighted } = await this.fetchConsensusConfig();
+    const genesisConfig = await loadGenesisConfig(this.env.CONFIG_KV);
+    const stakes = await loadValidatorStakes(reader, genesisConfig.validators);
+    return hashValidatorSet(buildValidatorSet(
+      validators,
+      genesisConfig.validators,
+      stakeWeighted ?? false,
+      bondedStakeByPublicKey(genesisConfig.validators, stakes)
+    ));
+  }
+
+  private async fetchConsensusConfig(): Promise<ConsensusConfig> {
+    const response = await this.coordinator.fetch('http://do/internal/consensus-config');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch consensus config: HTTP ${response.status}`);
+    }
+    return await response.json() as ConsensusConfig;
+  }
+
+  private async fetchConsensusTimeoutMs(): Promise<number> {
+    return (await this.fetchConsensusConfig()).consensusTimeoutMs;
+  }
+
+  private async fetchGenesisBlock(): Promise<Block | undefined> {
+    const response = await this.coordinator.fetch('http://do/block/0');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch genesis block: HTTP ${response.status}`);
+    }
+    const { block } = await response.json() as { block?: Block };
+    return block;
+  }
+
+  // ============================================
+  // 查询
+  // ============================================
+
+  async getStatus(): Promise<ReplicaMeta | null> {
+    return (await this.loadMeta(this.state.storage)) || null;
+  }
+
+  // ============================================
+  // HTTP 接口
+  // ============================================
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+
+    try {
+      // 验证提案（Validator Worker 调用）
+      if (path === '/validate' && request.method === 'POST') {
+        const { block } = await request.json() as { block: any };
+
+        // BigInt 还原
+        block.transactions = block.transactions.map((tx: any) => ({
+          ...tx,
+          amount: BigInt(tx.amount || '0'),
+          gasPrice: BigInt(tx.gasPrice || '0'),
+          gasLimit: BigInt(tx.gasLimit || '0'),
+        }));
+
+        const result = await this.validateProposal(block);
+        return Response.json(result);
+      }
+
+      // 签名前登记（Validator Worker 调用，拒绝时不得签名）
+      if (path === '/record-signature' && request.method === 'POST') {
+        const { height, round, blockHash } = await request.json() as { height: number; round?: number; blockHash: BlockHash };
+        const result = await this.recordSignature(height, round ?? 0, blockHash);
+        return Response.json(result, { status: result.success ? 200 : 409 });
+      }
+
+      // 追块
+      if (path === '/sync' && request.method === 'POST') {
+        const result = await this.sync();
+        return Response.json(result, { status: result.error ? 409 : 200 });
+      }
+
+      // 重置副本并从创世重新追块
+      if (path === '/reset' && request.method === 'POST') {
+        const result = await this.reset();
+        return Response.json(result, { status: result.error ? 409 : 200 });
+      }
+
+      if (path === '/status' && request.method === 'GET') {
+        return Response.json({
+          replica: await this.getStatus(),
+          lastSigned: await this.getLastSigned(),
+        });
+      }
+
+      return Response.json({ error: 'Not found' }, { status: 404 });
+    } catch (error) {
+      console.error('[ValidatorReplica] Error:', error);
+      return Response.json(
+        { error: error instanceof Error ? error.message : 'Unknown error' },
+        { status: 500 }
+      );
+    }
+  }
+}
@@ -0,0 +1,862 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * ConsensusCoordinator 存储布局
+ * ============================================
+ *
+ * SQLite-backed DO 中每个 key 是独立的一行，事务只读写它真正改动的行：
+ * - meta                 链元数据（高度、最新哈希、交易总数）
+ * - config               共识配置
+ * - queue                Pending Queue 锁状态（processing / currentBlock）
+ * - account:<address>    账户余额与 nonce
+ * - block:<height>       完整区块（高度左补零，字典序 = 数值序）
+ * - pending:<txHash>     待处理交易
+ * - pendingfrom:<address>:<txHash>
+ *                        发送方的待处理交易索引（值为 txHash，入队时只读取发送方自己的交易）
+ * - addrtx:<address>:<direction>:<height>:<txIndex>
+ *                        地址交易索引（all / sent / received 各一份）
+ * - txidx:<txHash>       已确认交易位置（height, txIndex）
+ * - smt:<nodeHash>       状态树节点（内容寻址，历史版本保留）
+ * - accthist:<address>:<height>
+ *                        账户在该区块执行后的余额与 nonce（仅在变化时写入）
+ * - historyStart         账户历史从该高度起完整（更早的高度无法查询）
+ * - blockdiff:<height>   区块执行前后改动账户的余额与 nonce（与账户历史一样从 historyStart 之后开始记录）
+ * - evicted:<height>:<txHash>
+ *                        提交该区块后被 Mempool 维护淘汰的交易
+ * - replaced:<txHash>    被同 nonce 更高手续费交易替换出队列的交易
+ * - evidence:<height>:<validatorPubKey>
+ *                        已验证的双签证据
+ * - commit:<height>      区块的提交证书（验证者集合哈希、签名与法定人数规则）
+ * - validator:<address>  验证者的委托总量与累计奖励（rewardPerShare）
+ * - delegation:<delegator>:<validator>
+ *                        委托数量、待领取奖励与解绑中的条目
+ * - schemaVersion        存储布局版本
+ *
+ * 旧版把所有数据放在单个 `state` key 中（ConsensusCoordinatorState），
+ * 启动时由 migrateStorage() 一次性拆分；之后每个版本的新索引也在这里回填。
+ */
+
+import type {
+  AccountHistoryEntry,
+  AccountState,
+  EvictedTransaction,
+  EvidenceRecord,
+  Address,
+  AddressTxIndexEntry,
+  Block,
+  ChainMeta,
+  ConsensusConfig,
+  ConsensusCoordinatorState,
+  DelegationState,
+  GenesisValidator,
+  PendingEntry,
+  PendingQueueState,
+  StakingSnapshot,
+  Transaction,
+  TxDirection,
+  TxLocation,
+  ValidatorStakeState,
+  WorldState,
+} from '../types';
+import type { StateTreeNode } from '../state-tree';
+import { MemoryTreeStore, updateStateTree, EMPTY_STATE_ROOT } from '../state-tree';
+import { buildAccountUpdates } from '../execution';
+import type { StakingState } from '../staking';
+import { createStakingState, buildStakingSnapshotUpdates } from '../staking';
+import { publicKeyToAddress } from '../crypto';
+
+// ============================================
+// Key 定义
+// ============================================
+
+/** 当前存储布局版本 */
+export const STORAGE_SCHEMA_VERSION = 6;
+
+export const STORAGE_KEYS = {
+  meta: 'meta',
+  config: 'config',
+  queue: 'queue',
+  schemaVersion: 'schemaVersion',
+  lastBackupTime: 'lastBackupTime',
+  historyStart: 'historyStart',
+  /** 旧版单 blob 状态 */
+  legacyState: 'state',
+} as const;
+
+export const STORAGE_PREFIXES = {
+  account: 'account:',
+  block: 'block:',
+  pending: 'pending:',
+  pendingSender: 'pendingfrom:',
+  addressTx: 'addrtx:',
+  txIndex: 'txidx:',
+  stateNode: 'smt:',
+  accountHistory: 'accthist:',
+  blockDiff: 'blockdiff:',
+  evicted: 'evicted:',
+  replaced: 'replaced:',
+  evidence: 'evidence:',
+  commit: 'commit:',
+  validatorStake: 'validator:',
+  delegation: 'delegation:',
+} as const;
+
+/** DO storage 单次 get/put 的 key 数量上限 */
+const MAX_KEYS_PER_CALL = 128;
+
+/** 高度左补零位数 */
+const HEIGHT_PAD = 12;
+
+/** 区块内交易序号左补零位数 */
+const TX_INDEX_PAD = 6;
+
+export function accountKey(address: Address): string {
+  return `${STORAGE_PREFIXES.account}${address.toLowerCase()}`;
+}
+
+export function blockKey(height: number): string {
+  return `${STORAGE_PREFIXES.block}${padHeight(height)}`;
+}
+
+export function pendingKey(txHash: string): string {
+  return `${STORAGE_PREFIXES.pending}${txHash}`;
+}
+
+/** 某发送方全部待处理交易的前缀 */
+export function pendingSenderPrefix(address: Address): string {
+  return `${STORAGE_PREFIXES.pendingSender}${address.toLowerCase()}:`;
+}
+
+export function pendingSenderKey(address: Address, txHash: string): string {
+  return pendingSenderPrefix(address) + txHash;
+}
+
+export function txIndexKey(txHash: string): string {
+  return `${STORAGE_PREFIXES.txIndex}${txHash.toLowerCase()}`;
+}
+
+export function blockDiffKey(height: number): string {
+  return `${STORAGE_PREFIXES.blockDiff}${padHeight(height)}`;
+}
+
+export function evictedKey(height: number, txHash: string): string {
+  return `${STORAGE_PREFIXES.evicted}${padHeight(height)}:${txHash}`;
+}
+
+export function replacedKey(txHash: string): string {
+  return `${STORAGE_PREFIXES.replaced}${txHash.toLowerCase()}`;
+}
+
+export function evidenceKey(height: number, validatorPubKey: string): string {
+  return `${STORAGE_PREFIXES.evidence}${padHeight(height)}:${validatorPubKey.toLowerCase()}`;
+}
+
+export function commitKey(height: number): string {
+  return `${STORAGE_PREFIXES.commit}${padHeight(height)}`;
+}
+
+export function validatorStakeKey(address: Address): string {
+  return `${STORAGE_PREFIXES.validatorStake}${address.toLowerCase()}`;
+}
+
+/** id 为 delegationId（`<delegator>:<validator>`） */
+export function delegationKey(id: string): string {
+  return `${STORAGE_PREFIXES.delegation}${id}`;
+}
+
+/** 某委托人全部委托的前缀 */
+export function delegatorPrefix(delegator: Address): string {
+  return `${STORAGE_PREFIXES.delegation}${delegator.toLowerCase()}:`;
+}
+
+export function stateNodeKey(hash: string): string {
+  return `${STORAGE_PREFIXES.stateNode}${hash}`;
+}
+
+/** 某地址的账户历史前缀 */
+export function accountHistoryPrefix(address: Address): string {
+  return `${STORAGE_PREFIXES.accountHistory}${address.toLowerCase()}:`;
+}
+
+export function accountHistoryKey(address: Address, height: number): string {
+  return accountHistoryPrefix(address) + padHeight(height);
+}
+
+export function padHeight(height: number): string {
+  return height.toString().padStart(HEIGHT_PAD, '0');
+}
+
+/** 某地址某方向的索引前缀 */
+export function addressTxPrefix(address: Address, direction: TxDirection): string {
+  return `${STORAGE_PREFIXES.addressTx}${address.toLowerCase()}:${direction}:`;
+}
+
+/** 索引游标 = key 中前缀之后的部分（`<height>:<txIndex>`） */
+export function addressTxCursor(height: number, txIndex: number): string {
+  return `${padHeight(height)}:${txIndex.toString().padStart(TX_INDEX_PAD, '0')}`;
+}
+
+// ============================================
+// 通用读写
+// ============================================
+
+/** storage 与 storage.transaction 的 txn 均满足该接口 */
+export type StorageReader = Pick<DurableObjectTransaction, 'get' | 'list'>;
+export type StorageWriter = Pick<DurableObjectTransaction, 'get' | 'list' | 'put' | 'delete'>;
+
+/**
+ * 批量读取（自动按 128 个 key 分片）
+ */
+export async function getMany<T>(reader: StorageReader, keys: string[]): Promise<Map<string, T>> {
+  const result = new Map<string, T>();
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_CALL) {
+    const chunk = await reader.get<T>(keys.slice(i, i + MAX_KEYS_PER_CALL));
+    for (const [k, v] of chunk) {
+      result.set(k, v);
+    }
+  }
+  return result;
+}
+
+/**
+ * 批量写入（自动按 128 个 key 分片）
+ */
+export async function putMany(writer: StorageWriter, entries: Record<string, unknown>): Promise<void> {
+  const keys = Object.keys(entries);
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_CALL) {
+    const chunk: Record<string, unknown> = {};
+    for (const k of keys.slice(i, i + MAX_KEYS_PER_CALL)) {
+      chunk[k] = entries[k];
+    }
+    await writer.put(chunk);
+  }
+}
+
+/**
+ * 批量删除（自动按 128 个 key 分片）
+ */
+export async function deleteMany(writer: StorageWriter, keys: string[]): Promise<void> {
+  for (let i = 0; i < keys.length; i += MAX_KEYS_PER_CALL) {
+    await writer.delete(keys.slice(i, i + MAX_KEYS_PER_CALL));
+  }
+}
+
+// ============================================
+// 账户
+// ============================================
+
+export function emptyAccount(): AccountState {
+  return { balance: BigInt(0), nonce: 0, lastUpdated: 0 };
+}
+
+/**
+ * 读取一组账户（不存在的账户返回空账户）
+ */
+export async function loadAccounts(
+  reader: StorageReader,
+  addresses: Iterable<Address>
+): Promise<Map<Address, AccountState>> {
+  const unique = [...new Set([...addresses].map(a => a.toLowerCase()))];
+  const stored = await getMany<AccountState>(reader, unique.map(accountKey));
+
+  const accounts = new Map<Address, AccountState>();
+  for (const address of unique) {
+    accounts.set(address, stored.get(accountKey(address)) || emptyAccount());
+  }
+  return accounts;
+}
+
+export async function loadAccount(reader: StorageReader, address: Address): Promise<AccountState> {
+  return (await reader.get<AccountState>(accountKey(address))) || emptyAccount();
+}
+
+/**
+ * 拼装完整世界状态（全量扫描账户，仅用于 /state 与快照）
+ */
+export async function loadWorldState(reader: StorageReader, meta: ChainMeta): Promise<WorldState> {
+  const rows = await reader.list<AccountState>({ prefix: STORAGE_PREFIXES.account });
+
+  const balances: Record<Address, bigint> = {};
+  const nonces: Record<Address, number> = {};
+  for (const [key, account] of rows) {
+    const address = key.slice(STORAGE_PREFIXES.account.length);
+    balances[address] = account.balance;
+    nonces[address] = account.nonce;
+  }
+
+  return { ...meta, balances, nonces };
+}
+
+// ============================================
+// Pending Queue
+// ============================================
+
+/**
+ * 按进入队列顺序读取全部待处理交易
+ */
+export async function loadPendingTransactions(reader: StorageReader): Promise<Transaction[]> {
+  const rows = await reader.list<PendingEntry>({ prefix: STORAGE_PREFIXES.pending });
+  return [...rows.values()]
+    .sort((a, b) => a.receivedAt - b.receivedAt || (a.tx.hash < b.tx.hash ? -1 : 1))
+    .map(entry => entry.tx);
+}
+
+/**
+ * 读取某发送方的待处理交易（经 pendingfrom 索引，不扫描整个队列）
+ */
+export async function loadSenderPendingTransactions(reader: StorageReader, address: Address): Promise<Transaction[]> {
+  const index = await reader.list<string>({ prefix: pendingSenderPrefix(address) });
+  const rows = await getMany<PendingEntry>(reader, [...index.values()].map(pendingKey));
+  return [...rows.values()].map(entry => entry.tx);
+}
+
+/**
+ * 生成待处理交易行及其发送方索引
+ */
+export function buildPendingRows(tx: Transaction, receivedAt: number): Record<string, unknown> {
+  return {
+    [pendingKey(tx.hash)]: { tx, receivedAt } as PendingEntry,
+    [pendingSenderKey(tx.from, tx.hash)]: tx.hash,
+  };
+}
+
+/**
+ * 将交易移出队列（同时删除发送方索引）
+ */
+export async function deletePendingTransactions(writer: StorageWriter, txs: Transaction[]): Promise<void> {
+  await deleteMany(writer, txs.flatMap(tx => [pendingKey(tx.hash), pendingSenderKey(tx.from, tx.hash)]));
+}
+
+/**
+ * 最近被淘汰的交易（按高度倒序）
+ */
+export async function listEvictedTransactions(reader: StorageReader, limit: number): Promise<EvictedTransaction[]> {
+  const rows = await reader.list<EvictedTransaction>({
+    prefix: STORAGE_PREFIXES.evicted,
+    reverse: true,
+    limit,
+  });
+  return [...rows.values()];
+}
+
+/**
+ * 最近的双签证据（按高度倒序）
+ */
+export async function listEvidence(reader: StorageReader, limit: number): Promise<EvidenceRecord[]> {
+  const rows = await reader.list<EvidenceRecord>({
+    prefix: STORAGE_PREFIXES.evidence,
+    reverse: true,
+    limit,
+  });
+  return [...rows.values()];
+}
+
+// ============================================
+// 地址交易索引
+// ============================================
+
+/**
+ * 生成区块的地址索引行
+ * 每笔交易为双方各写一条 all 索引，并为发送方写 sent、接收方写 received
+ */
+export function buildAddressTxIndex(block: Block): Record<string, AddressTxIndexEntry> {
+  const entries: Record<string, AddressTxIndexEntry> = {};
+  const height = block.header.height;
+
+  block.transactions.forEach((tx, txIndex) => {
+    const entry: AddressTxIndexEntry = { height, txIndex, hash: tx.hash };
+    const cursor = addressTxCursor(height, txIndex);
+
+    entries[addressTxPrefix(tx.from, 'all') + cursor] = entry;
+    entries[addressTxPrefix(tx.to, 'all') + cursor] = entry;
+    entries[addressTxPrefix(tx.from, 'sent') + cursor] = entry;
+    entries[addressTxPrefix(tx.to, 'received') + cursor] = entry;
+  });
+
+  return entries;
+}
+
+/**
+ * 按高度倒序分页读取地址索引
+ * 返回的 nextCursor 可直接作为下一页的 cursor
+ */
+export async function listAddressTxIndex(
+  reader: StorageReader,
+  address: Address,
+  options: { direction: TxDirection; fromHeight?: number; toHeight?: number; cursor?: string; limit: number }
+): Promise<{ entries: AddressTxIndexEntry[]; nextCursor?: string }> {
+  const prefix = addressTxPrefix(address, options.direction);
+
+  // reverse 模式下 start 为下界（含），end 为上界（不含）
+  const start = prefix + (options.fromHeight !== undefined ? padHeight(options.fromHeight) : '');
+  let end = options.toHeight !== undefined
+    ? prefix + padHeight(options.toHeight + 1)
+    : prefix + '~';
+  if (options.cursor && prefix + options.cursor < end) {
+    end = prefix + options.cursor;
+  }
+
+  // 多取一条用于判断是否还有下一页
+  const rows = await reader.list<AddressTxIndexEntry>({
+    start,
+    end,
+    reverse: true,
+    limit: options.limit + 1,
+  });
+
+  const entries = [...rows.values()];
+  let nextCursor: string | undefined;
+  if (entries.length > options.limit) {
+    entries.length = options.limit;
+    const last = entries[entries.length - 1];
+    nextCursor = addressTxCursor(last.height, last.txIndex);
+  }
+
+  return { entries, nextCursor };
+}
+
+// ============================================
+// 交易哈希索引
+// ============================================
+
+/**
+ * 生成区块的交易位置索引行
+ */
+export function buildTxIndex(block: Block): Record<string, TxLocation> {
+  const entries: Record<string, TxLocation> = {};
+  block.transactions.forEach((tx, txIndex) => {
+    entries[txIndexKey(tx.hash)] = { height: block.header.height, txIndex };
+  });
+  return entries;
+}
+
+/**
+ * 生成区块的全部索引行（地址索引 + 交易哈希索引）
+ */
+export function buildBlockIndexes(block: Block): Record<string, unknown> {
+  return { ...buildAddressTxIndex(block), ...buildTxIndex(block) };
+}
+
+// ============================================
+// 账户历史
+// ============================================
+
+/**
+ * 生成账户历史行：changed 中每个账户记录其在 height 执行后的值
+ */
+export function buildAccountHistory(
+  accounts: Map<Address, AccountState>,
+  changed: Iterable<Address>,
+  height: number,
+  timestamp: number
+): Record<string, AccountHistoryEntry> {
+  const entries: Record<string, AccountHistoryEntry> = {};
+  for (const address of changed) {
+    const account = accounts.get(address)!;
+    entries[accountHistoryKey(address, height)] = {
+      height,
+      balance: account.balance,
+      nonce: account.nonce,
+      timestamp,
+    };
+  }
+  return entries;
+}
+
+/**
+ * 查询账户在 height 执行后的状态 = 高度不超过 height 的最后一条历史
+ * 返回 undefined 表示此前账户从未变化（余额与 nonce 均为 0）
+ */
+export async function findAccountHistoryAt(
+  reader: StorageReader,
+  address: Address,
+  height: number
+): Promise<AccountHistoryEntry | undefined> {
+  const prefix = accountHistoryPrefix(address);
+  const rows = await reader.list<AccountHistoryEntry>({
+    start: prefix,
+    end: prefix + padHeight(height + 1),
+    reverse: true,
+    limit: 1,
+  });
+  return rows.values().next().value;
+}
+
+/**
+ * 读取高度区间内的账户历史（按高度升序，超过 limit 时保留最近的 limit 条）
+ */
+export async function listAccountHistory(
+  reader: StorageReader,
+  address: Address,
+  options: { fromHeight?: number; toHeight?: number; limit: number }
+): Promise<AccountHistoryEntry[]> {
+  const prefix = accountHistoryPrefix(address);
+  const rows = await reader.list<AccountHistoryEntry>({
+    start: prefix + (options.fromHeight !== undefined ? padHeight(options.fromHeight) : ''),
+    end: options.toHeight !== undefined ? prefix + padHeight(options.toHeight + 1) : prefix + '~',
+    reverse: true,
+    limit: options.limit,
+  });
+  return [...rows.values()].reverse();
+}
+
+// ============================================
+// 质押
+// ============================================
+
+/**
+ * 读取全部创世验证者的质押汇总（未写入过的不在结果中）
+ */
+export async function loadValidatorStakes(
+  reader: StorageReader,
+  genesisValidators: GenesisValidator[]
+): Promise<Map<Address, ValidatorStakeState>> {
+  const addresses = genesisValidators.map(v => publicKeyToAddress(v.publicKey));
+  const stored = await getMany<ValidatorStakeState>(reader, addresses.map(validatorStakeKey));
+
+  const records = new Map<Address, ValidatorStakeState>();
+  for (const address of addresses) {
+    const record = stored.get(validatorStakeKey(address));
+    if (record) records.set(address, record);
+  }
+  return records;
+}
+
+/**
+ * 读取执行区块所需的质押状态：全部验证者汇总与 delegationIds 对应的委托
+ */
+export async function loadStakingState(
+  reader: StorageReader,
+  genesisValidators: GenesisValidator[],
+  delegationIds: string[],
+  unbondingBlocks: number
+): Promise<StakingState> {
+  const records = await loadValidatorStakes(reader, genesisValidators);
+  const stored = await getMany<DelegationState>(reader, delegationIds.map(delegationKey));
+
+  const delegations = new Map<string, DelegationState>();
+  for (const id of delegationIds) {
+    const delegation = stored.get(delegationKey(id));
+    if (delegation) delegations.set(id, delegation);
+  }
+  return createStakingState(genesisValidators, records, delegations, unbondingBlocks);
+}
+
+/**
+ * 读取某委托人的全部委托（按验证者地址）
+ */
+export async function listDelegations(
+  reader: StorageReader,
+  delegator: Address
+): Promise<Map<Address, DelegationState>> {
+  const prefix = delegatorPrefix(delegator);
+  const rows = await reader.list<DelegationState>({ prefix });
+
+  const delegations = new Map<Address, DelegationState>();
+  for (const [key, delegation] of rows) {
+    delegations.set(key.slice(prefix.length), delegation);
+  }
+  return delegations;
+}
+
+/**
+ * 生成快照中全部质押的行（检查点 / 备份恢复时整体写入）
+ */
+export function buildStakingSnapshotRows(snapshot: StakingSnapshot): Record<string, unknown> {
+  const entries: Record<string, unknown> = {};
+  for (const [address, record] of Object.entries(snapshot.validators)) {
+    entries[validatorStakeKey(address)] = record;
+  }
+  for (const [id, delegation] of Object.entries(snapshot.delegations)) {
+    entries[delegationKey(id)] = delegation;
+  }
+  return entries;
+}
+
+/**
+ * 生成区块改动的质押行
+ */
+export function buildStakingRows(state: StakingState): Record<string, unknown> {
+  const entries: Record<string, unknown> = {};
+  for (const address of state.changedValidators) {
+    entries[validatorStakeKey(address)] = state.records.get(address);
+  }
+  for (const id of state.changedDelegations) {
+    entries[delegationKey(id)] = state.delegations.get(id);
+  }
+  return entries;
+}
+
+// ============================================
+// 状态树节点
+// ============================================
+
+/**
+ * 以 DO storage 为后端的状态树节点存储
+ * 新节点先留在内存中，由 flushStateTree 在同一事务内写入
+ */
+export function createStateTreeStore(reader: StorageReader): MemoryTreeStore {
+  return new MemoryTreeStore(hash => reader.get<StateTreeNode>(stateNodeKey(hash)));
+}
+
+export async function flushStateTree(writer: StorageWriter, store: MemoryTreeStore): Promise<void> {
+  const entries: Record<string, StateTreeNode> = {};
+  for (const [hash, node] of store.written) {
+    entries[stateNodeKey(hash)] = node;
+  }
+  await putMany(writer, entries);
+}
+
+/**
+ * 由全部账户（与质押状态）从空树构建状态树，返回根（节点写入 store）
+ */
+export async function buildAccountStateTree(
+  store: MemoryTreeStore,
+  accounts: Map<Address, AccountState>,
+  staking?: StakingSnapshot
+): Promise<string> {
+  const updates = await buildAccountUpdates(accounts, accounts.keys());
+  if (staking) updates.push(...await buildStakingSnapshotUpdates(staking));
+  return updateStateTree(store, EMPTY_STATE_ROOT, updates);
+}
+
+// ============================================
+// 快照读写（迁移 / 备份 / 恢复 / 创世）
+// ============================================
+
+/**
+ * 将完整快照写入分表布局
+ * 写入是幂等的：中途失败后重跑会得到相同结果
+ */
+export async function writeSnapshot(writer: StorageWriter, snapshot: ConsensusCoordinatorState): Promise<void> {
+  const { worldState, pendingQueue, blockHistory, consensusConfig } = snapshot;
+  const { balances, nonces, ...meta } = worldState;
+
+  const entries: Record<string, unknown> = {
+    [STORAGE_KEYS.meta]: meta as ChainMeta,
+    [STORAGE_KEYS.config]: consensusConfig,
+  };
+
+  const { transactions, ...queueState } = pendingQueue;
+  entries[STORAGE_KEYS.queue] = queueState as PendingQueueState;
+
+  // 保持原有队列顺序
+  transactions.forEach((tx, index) => {
+    Object.assign(entries, buildPendingRows(tx, pendingQueue.lastUpdated + index));
+  });
+
+  const accounts = new Map<Address, AccountState>();
+  const addresses = new Set([...Object.keys(balances), ...Object.keys(nonces)]);
+  for (const address of addresses) {
+    const account: AccountState = {
+      balance: balances[address] || BigInt(0),
+      nonce: nonces[address] || 0,
+      lastUpdated: worldState.lastUpdated,
+    };
+    accounts.set(address.toLowerCase(), account);
+    entries[accountKey(address)] = account;
+  }
+
+  if (snapshot.staking) {
+    Object.assign(entries, buildStakingSnapshotRows(snapshot.staking));
+  }
+
+  // 状态树由账户与质押状态重建（快照中不携带树节点）
+  const treeStore = new MemoryTreeStore();
+  const stateRoot = await buildAccountStateTree(treeStore, accounts, snapshot.staking);
+  (entries[STORAGE_KEYS.meta] as ChainMeta).stateRoot = stateRoot;
+  for (const [hash, node] of treeStore.written) {
+    entries[stateNodeKey(hash)] = node;
+  }
+
+  for (const [height, block] of Object.entries(blockHistory)) {
+    entries[blockKey(Number(height))] = block;
+    Object.assign(entries, buildBlockIndexes(block));
+  }
+
+  // 快照不携带账户历史：以当前账户作为最新高度的检查点，历史从这里开始
+  const latestHeight = worldState.latestBlockHeight;
+  const latestTimestamp = blockHistory[latestHeight]?.header.timestamp ?? worldState.lastUpdated;
+  Object.assign(entries, buildAccountHistory(accounts, accounts.keys(), latestHeight, latestTimestamp));
+  entries[STORAGE_KEYS.historyStart] = latestHeight;
+
+  if (snapshot.lastBackupTime) {
+    entries[STORAGE_KEYS.lastBackupTime] = snapshot.lastBackupTime;
+  }
+
+  await putMany(writer, entries);
+}
+
+/**
+ * 从分表布局导出完整快照（备份格式保持与旧版 `state` 一致）
+ */
+export async function readSnapshot(reader: StorageReader): Promise<ConsensusCoordinatorState | null> {
+  const meta = await reader.get<ChainMeta>(STORAGE_KEYS.meta);
+  if (!meta) return null;
+
+  const worldState = await loadWorldState(reader, meta);
+  const queueState = await reader.get<PendingQueueState>(STORAGE_KEYS.queue);
+  const transactions = await loadPendingTransactions(reader);
+  const consensusConfig = await reader.get<ConsensusConfig>(STORAGE_KEYS.config);
+  const lastBackupTime = await reader.get<number>(STORAGE_KEYS.lastBackupTime);
+
+  const blockRows = await reader.list<Block>({ prefix: STORAGE_PREFIXES.block });
+  const blockHistory: Record<number, Block> = {};
+  for (const block of blockRows.values()) {
+    blockHistory[block.header.height] = block;
+  }
+
+  const staking: StakingSnapshot = { validators: {}, delegations: {} };
+  const validatorRows = await reader.list<ValidatorStakeState>({ prefix: STORAGE_PREFIXES.validatorStake });
+  for (const [key, record] of validatorRows) {
+    staking.validators[key.slice(STORAGE_PREFIXES.validatorStake.length)] = record;
+  }
+  const delegationRows = await reader.list<DelegationState>({ prefix: STORAGE_PREFIXES.delegation });
+  for (const [key, delegation] of delegationRows) {
+    staking.delegations[key.slice(STORAGE_PREFIXES.delegation.length)] = delegation;
+  }
+
+  return {
+    worldState,
+    pendingQueue: {
+      lastUpdated: Date.now(),
+      processing: false,
+      ...queueState,
+      transactions,
+    },
+    blockHistory,
+    consensusConfig: consensusConfig!,
+    lastBackupTime: lastBackupTime || 0,
+    staking,
+  };
+}
+
+// ============================================
+// 布局迁移
+// ============================================
+
+/**
+ * v1：将旧版单 blob 状态拆分为分表布局（writeSnapshot 同时生成全部索引）
+ */
+async function migrateLegacyBlob(storage: DurableObjectStorage): Promise<void> {
+  const legacy = await storage.get<ConsensusCoordinatorState>(STORAGE_KEYS.legacyState);
+  if (!legacy) return;
+
+  const blockCount = Object.keys(legacy.blockHistory || {}).length;
+  console.log(`[Storage] Migrating legacy state blob (${blockCount} blocks)...`);
+
+  await writeSnapshot(storage, {
+    ...legacy,
+    blockHistory: legacy.blockHistory || {},
+  });
+
+  // 所有行写入成功后才删除旧 blob，中途失败可安全重跑
+  await storage.delete(STORAGE_KEYS.legacyState);
+  console.log('[Storage] Legacy state migrated');
+}
+
+/**
+ * v2：为已有区块回填地址交易索引
+ */
+async function backfillAddressTxIndex(storage: DurableObjectStorage): Promise<void> {
+  const blocks = await storage.list<Block>({ prefix: STORAGE_PREFIXES.block });
+  console.log(`[Storage] Backfilling address index for ${blocks.size} blocks...`);
+
+  for (const block of blocks.values()) {
+    await putMany(storage, buildAddressTxIndex(block));
+  }
+}
+
+/**
+ * v3：为已有区块回填交易哈希索引
+ */
+async function backfillTxIndex(storage: DurableObjectStorage): Promise<void> {
+  const blocks = await storage.list<Block>({ prefix: STORAGE_PREFIXES.block });
+  console.log(`[Storage] Backfilling tx hash index for ${blocks.size} blocks...`);
+
+  for (const block of blocks.values()) {
+    await putMany(storage, buildTxIndex(block));
+  }
+}
+
+/**
+ * v4：由当前账户构建状态树，并记录状态树根
+ * 此前区块头中的 stateRoot 为旧的整体哈希，无法用于证明
+ */
+async function buildInitialStateTree(storage: DurableObjectStorage): Promise<void> {
+  const meta = await storage.get<ChainMeta>(STORAGE_KEYS.meta);
+  if (!meta) return;
+
+  const rows = await storage.list<AccountState>({ prefix: STORAGE_PREFIXES.account });
+  const accounts = new Map<Address, AccountState>();
+  for (const [key, account] of rows) {
+    accounts.set(key.slice(STORAGE_PREFIXES.account.length), account);
+  }
+  console.log(`[Storage] Building state tree for ${accounts.size} accounts...`);
+
+  const treeStore = createStateTreeStore(storage);
+  const stateRoot = await buildAccountStateTree(treeStore, accounts);
+  await flushStateTree(storage, treeStore);
+  await storage.put(STORAGE_KEYS.meta, { ...meta, stateRoot });
+}
+
+/**
+ * v5：以当前账户作为最新高度的历史检查点
+ * 旧区块执行时未记录逐块账户值，迁移前的高度无法查询历史余额
+ */
+async function backfillAccountHistory(storage: DurableObjectStorage): Promise<void> {
+  const meta = await storage.get<ChainMeta>(STORAGE_KEYS.meta);
+  if (!meta) return;
+
+  const rows = await storage.list<AccountState>({ prefix: STORAGE_PREFIXES.account });
+  const accounts = new Map<Address, AccountState>();
+  for (const [key, account] of rows) {
+    accounts.set(key.slice(STORAGE_PREFIXES.account.length), account);
+  }
+  console.log(`[Storage] Checkpointing account history for ${accounts.size} accounts at height ${meta.latestBlockHeight}...`);
+
+  const latestBlock = await storage.get<Block>(blockKey(meta.latestBlockHeight));
+  const timestamp = latestBlock?.header.timestamp ?? meta.lastUpdated;
+  await putMany(storage, buildAccountHistory(accounts, accounts.keys(), meta.latestBlockHeight, timestamp));
+  await storage.put(STORAGE_KEYS.historyStart, meta.latestBlockHeight);
+}
+
+/**
+ * v6：为已在队列中的交易建立发送方索引
+ */
+async function backfillPendingSenderIndex(storage: DurableObjectStorage): Promise<void> {
+  const rows = await storage.list<PendingEntry>({ prefix: STORAGE_PREFIXES.pending });
+  console.log(`[Storage] Indexing ${rows.size} pending transactions by sender...`);
+
+  const entries: Record<string, string> = {};
+  for (const { tx } of rows.values()) {
+    entries[pendingSenderKey(tx.from, tx.hash)] = tx.hash;
+  }
+  await putMany(storage, entries);
+}
+
+/** 按版本顺序执行的迁移步骤，每一步都必须可安全重跑 */
+const MIGRATIONS: Array<{ version: number; migrate: (storage: DurableObjectStorage) => Promise<void> }> = [
+  { version: 1, migrate: migrateLegacyBlob },
+  { version: 2, migrate: backfillAddressTxIndex },
+  { version: 3, migrate: backfillTxIndex },
+  { version: 4, migrate: buildInitialStateTree },
+  { version: 5, migrate: backfillAccountHistory },
+  { version: 6, migrate: backfillPendingSenderIndex },
+];
+
+/**
+ * 将存储升级到当前布局版本
+ * 必须在 blockConcurrencyWhile 中调用，迁移完成前不处理任何请求
+ */
+export async function migrateStorage(storage: DurableObjectStorage): Promise<void> {
+  const version = (await storage.get<number>(STORAGE_KEYS.schemaVersion)) || 0;
+  if (version >= STORAGE_SCHEMA_VERSION) return;
+
+  for (const step of MIGRATIONS) {
+    if (version < step.version) {
+      await step.migrate(storage);
+      await storage.put(STORAGE_KEYS.schemaVersion, step.version);
+    }
+  }
+}
@@ -0,0 +1,431 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * 交易执行 - 状态转换函数
+ * ============================================
+ *
+ * packBlock、commitBlock 与 Validator 共用同一套执行规则，
+ * 保证三方对同一区块计算出相同的状态根。
+ */
+
+import type { Address, AccountState, AccountDiff, Transaction, Timestamp, FeeConfig } from './types';
+import type { StateTreeUpdate, AccountLeafValue } from './state-tree';
+import { accountStateKey, hashAccountLeaf } from './state-tree';
+import type { StakingState } from './staking';
+import { debitsAmount, isStakingAction, applyStakingAction, distributeValidatorReward } from './staking';
+
+/** 未指定 gasLimit 时的默认值（普通转账） */
+export const DEFAULT_GAS_LIMIT = BigInt(21000);
+
+/**
+ * 交易手续费：gasPrice × gasLimit，全额从发送方扣除并支付给出块的提议者
+ */
+export function transactionFee(tx: { gasPrice: bigint; gasLimit: bigint }): bigint {
+  return tx.gasPrice * tx.gasLimit;
+}
+
+/**
+ * 发送方需要支付的总额（转出金额 + 手续费）
+ * 解除质押与领取只支付手续费，amount 不从余额扣除
+ */
+export function transactionCost(tx: Pick<Transaction, 'amount' | 'gasPrice' | 'gasLimit' | 'action'>): bigint {
+  return (debitsAmount(tx.action) ? tx.amount : BigInt(0)) + transactionFee(tx);
+}
+
+/**
+ * 检查 gasPrice / gasLimit 是否在创世配置允许的范围内，不满足时返回原因
+ */
+export function checkGasLimits(tx: { gasPrice: bigint; gasLimit: bigint }, config: FeeConfig): string | undefined {
+  if (tx.gasPrice < config.minGasPrice) {
+    return `Gas price too low. Minimum: ${config.minGasPrice}, got: ${tx.gasPrice}`;
+  }
+  if (tx.gasLimit <= BigInt(0) || tx.gasLimit > config.maxGasLimit) {
+    return `Invalid gas limit. Maximum: ${config.maxGasLimit}, got: ${tx.gasLimit}`;
+  }
+  return undefined;
+}
+
+/**
+ * 替换同 nonce 待处理交易所需的最低 gasPrice：原价提高 bumpPercent（向上取整），且至少高 1
+ */
+export function minimumReplacementGasPrice(gasPrice: bigint, bumpPercent: number): bigint {
+  const bumped = (gasPrice * BigInt(100 + bumpPercent) + BigInt(99)) / BigInt(100);
+  return bumped > gasPrice ? bumped : gasPrice + BigInt(1);
+}
+
+/**
+ * 执行失败的交易
+ */
+export interface ExecutionFailure {
+  tx: Transaction;
+  index: number;
+  error: string;
+}
+
+/**
+ * 执行结果
+ */
+export interface ExecutionResult {
+  /** 成功执行的交易（按区块顺序） */
+  executed: Transaction[];
+
+  /** 执行失败（被跳过）的交易 */
+  failed: ExecutionFailure[];
+
+  /** 状态发生变化的账户（小写地址） */
+  changed: Set<Address>;
+}
+
+/**
+ * 执行区块所需的上下文
+ */
+export interface BlockExecutionContext {
+  /** 区块高度（计算解绑期） */
+  height?: number;
+
+  /** 手续费接收方（出块的提议者）；没有时手续费被销毁 */
+  feeRecipient?: Address;
+
+  /** 区块奖励（见 splitBlockReward） */
+  rewards?: Map<Address, bigint>;
+
+  /** 发送方仍锁定的预挖数量（见 calculateLockedBalances） */
+  locked?: Map<Address, bigint>;
+
+  /** 质押状态（见 loadStakingState）；没有时质押交易全部失败 */
+  staking?: StakingState;
+}
+
+/**
+ * 区块涉及的全部地址（小写，去重），包括手续费与区块奖励的接收方
+ */
+export function collectTouchedAddresses(
+  txs: Transaction[],
+  feeRecipient?: Address,
+  rewards?: Map<Address, bigint>
+): Address[] {
+  const addresses = txs.flatMap(tx => [tx.from.toLowerCase(), tx.to.toLowerCase()]);
+  if (feeRecipient) addresses.push(feeRecipient.toLowerCase());
+  if (rewards) addresses.push(...[...rewards.keys()].map(address => address.toLowerCase()));
+  return [...new Set(addresses)];
+}
+
+/**
+ * 区块奖励的分配对象（签署上一区块的验证者）
+ */
+export interface RewardSigner {
+  address: Address;
+  /** 分配权重（与法定人数相同：不加权为 1，加权为 stake） */
+  weight: bigint;
+}
+
+/**
+ * 按权重把区块奖励全部分给签名验证者（佣金是验证者对委托人奖励的抽成，不在这里扣除）
+ * 提议者奖励：整除余数归提议者，没有签名者时全部归提议者，分配总额恰好等于 reward
+ */
+export function splitBlockReward(
+  reward: bigint,
+  proposer: Address,
+  signers: RewardSigner[]
+): Map<Address, bigint> {
+  const shares = new Map<Address, bigint>();
+  if (reward <= BigInt(0)) return shares;
+
+  const credit = (address: Address, amount: bigint) => {
+    if (amount <= BigInt(0)) return;
+    const key = address.toLowerCase();
+    shares.set(key, (shares.get(key) ?? BigInt(0)) + amount);
+  };
+
+  let distributed = BigInt(0);
+  const totalWeight = signers.reduce((sum, s) => sum + s.weight, BigInt(0));
+  if (totalWeight > BigInt(0)) {
+    for (const signer of signers) {
+      const share = reward * signer.weight / totalWeight;
+      credit(signer.address, share);
+      distributed += share;
+    }
+  }
+
+  credit(proposer, reward - distributed);
+  return shares;
+}
+
+/**
+ * 按顺序执行交易，直接修改 accounts 中的账户（与 context.staking 中的质押状态）
+ * 无效交易（nonce 不连续 / 余额不足以支付金额与手续费 / 质押操作无效）被跳过并记录原因，不影响后续交易
+ * 手续费计入 feeRecipient（出块的提议者）；没有接收方时手续费被销毁
+ * 手续费为 0 时不改动接收方账户，手续费上线前的区块状态根保持不变
+ * 质押交易不向 to（验证者）转账：绑定的金额进入质押，claim 把奖励与到期的解绑金额计入发送方
+ * 全部交易执行后铸造区块奖励（rewards 见 splitBlockReward），奖励不能被同一区块的交易花费；
+ * 创世验证者的份额扣除 commission% 佣金（计入验证者余额）后计入其奖励池，由委托人按质押领取
+ * locked 为发送方仍锁定的预挖数量（见 calculateLockedBalances），转出后余额不得低于该值
+ */
+export function executeTransactions(
+  accounts: Map<Address, AccountState>,
+  txs: Transaction[],
+  timestamp: Timestamp,
+  context: BlockExecutionContext = {}
+): ExecutionResult {
+  const { height, feeRecipient, rewards, locked, staking } = context;
+  const executed: Transaction[] = [];
+  const failed: ExecutionFailure[] = [];
+  const changed = new Set<Address>();
+
+  const getAccount = (address: Address): AccountState => {
+    let account = accounts.get(address);
+    if (!account) {
+      account = { balance: BigInt(0), nonce: 0, lastUpdated: 0 };
+      accounts.set(address, account);
+    }
+    return account;
+  };
+
+  txs.forEach((tx, index) => {
+    const from = tx.from.toLowerCase();
+    const to = tx.to.toLowerCase();
+    const sender = getAccount(from);
+
+    // 验证 nonce
+    if (tx.nonce !== sender.nonce) {
+      failed.push({ tx, index, error: `Invalid nonce for ${from}. Expected: ${sender.nonce}, got: ${tx.nonce}` });
+      return;
+    }
+
+    // 验证余额（金额 + 手续费）
+    const fee = transactionFee(tx);
+    const cost = transactionCost(tx);
+    if (sender.balance < cost) {
+      failed.push({ tx, index, error: `Insufficient balance for ${from}. Has: ${sender.balance}, needs: ${cost}` });
+      return;
+    }
+
+    // 验证锁仓：只能花费已释放的部分
+    const lockedAmount = locked?.get(from) ?? BigInt(0);
+    if (sender.balance - cost < lockedAmount) {
+      const unlocked = sender.balance > lockedAmount ? sender.balance - lockedAmount : BigInt(0);
+      failed.push({ tx, index, error: `Transfer exceeds unlocked balance for ${from}. Unlocked: ${unlocked}, needs: ${cost}` });
+      return;
+    }
+
+    // 执行质押操作（失败时不修改状态）
+    let payout = BigInt(0);
+    if (isStakingAction(tx.action)) {
+      if (!staking || height === undefined) {
+        failed.push({ tx, index, error: 'Staking is not available' });
+        return;
+      }
+      const result = applyStakingAction(staking, tx, height);
+      if (result.error) {
+        failed.push({ tx, index, error: result.error });
+        return;
+      }
+      payout = result.payout;
+    }
+
+    // 执行转账（自转账时 sender 与 recipient 为同一对象）
+    sender.balance -= cost;
+    if (isStakingAction(tx.action)) {
+      sender.balance += payout;
+    } else {
+      const recipient = getAccount(to);
+      recipient.balance += tx.amount;
+      recipient.lastUpdated = timestamp;
+      changed.add(to);
+    }
+
+    // 支付手续费
+    if (fee > BigInt(0) && feeRecipient) {
+      const collector = getAccount(feeRecipient.toLowerCase());
+      collector.balance += fee;
+      collector.lastUpdated = timestamp;
+      changed.add(feeRecipient.toLowerCase());
+    }
+
+    // 更新 nonce
+    sender.nonce += 1;
+
+    sender.lastUpdated = timestamp;
+    changed.add(from);
+
+    executed.push(tx);
+  });
+
+  for (const [address, amount] of rewards ?? []) {
+    const key = address.toLowerCase();
+    // 创世验证者的份额进入奖励池，只有佣金直接计入其余额
+    const credited = staking ? distributeValidatorReward(staking, key, amount) : amount;
+    if (credited <= BigInt(0)) continue;
+    const account = getAccount(key);
+    account.balance += credited;
+    account.lastUpdated = timestamp;
+    changed.add(key);
+  }
+
+  return { executed, failed, changed };
+}
+
+/**
+ * 发送方下一个可用 nonce：从账户 nonce 起连续排队的 nonce 之后的第一个
+ * 有缺口时返回缺口处的 nonce
+ */
+export function nextPendingNonce(accountNonce: number, pendingNonces: Iterable<number>): number {
+  const queued = new Set(pendingNonces);
+  let nonce = accountNonce;
+  while (queued.has(nonce)) nonce++;
+  return nonce;
+}
+
+/**
+ * 从待处理交易（按进入队列顺序）中选出可打包的交易
+ * 每个发送方只能按 nonce 顺序出块：只有 nonce 等于其下一个 nonce 的交易可选，
+ * 多个发送方的可选交易之间按 gasPrice 从高到低，相同时按进入队列的先后；
+ * nonce 有缺口的交易留在队列中等待
+ */
+export function selectTransactionsForBlock(
+  accounts: Map<Address, AccountState>,
+  pending: Transaction[],
+  maxTxs: number
+): Transaction[] {
+  const arrival = new Map(pending.map((tx, index) => [tx.hash, index]));
+
+  // 每个发送方的交易按 nonce 排序
+  const queues = new Map<Address, Transaction[]>();
+  for (const tx of pending) {
+    const from = tx.from.toLowerCase();
+    if (!queues.has(from)) queues.set(from, []);
+    queues.get(from)!.push(tx);
+  }
+  const nextNonce = new Map<Address, number>();
+  for (const [from, txs] of queues) {
+    txs.sort((a, b) => a.nonce - b.nonce);
+    nextNonce.set(from, accounts.get(from)?.nonce ?? 0);
+  }
+
+  const selected: Transaction[] = [];
+  while (selected.length < maxTxs) {
+    let best: { from: Address; tx: Transaction } | undefined;
+
+    for (const [from, txs] of queues) {
+      const expected = nextNonce.get(from)!;
+      // 过期 / 重复 nonce 的交易不会被选中（由提交后的 Mempool 维护淘汰）
+      while (txs.length > 0 && txs[0].nonce < expected) txs.shift();
+      const head = txs[0];
+      if (!head || head.nonce !== expected) continue;
+      if (!best || head.gasPrice > best.tx.gasPrice ||
+        (head.gasPrice === best.tx.gasPrice && arrival.get(head.hash)! < arrival.get(best.tx.hash)!)) {
+        best = { from, tx: head };
+      }
+    }
+
+    if (!best) break;
+    selected.push(best.tx);
+    queues.get(best.from)!.shift();
+    nextNonce.set(best.from, best.tx.nonce + 1);
+  }
+
+  return selected;
+}
+
+/**
+ * 按当前账户状态重新检查待处理交易（不修改 accounts）
+ * 每个发送方按 nonce 顺序模拟扣款（金额 + 手续费）：nonce 过期、重复或余额不足的交易被淘汰，
+ * nonce 超前的交易保留（等待缺口被填上）
+ */
+export function revalidatePendingTransactions(
+  accounts: Map<Address, AccountState>,
+  txs: Transaction[]
+): { kept: Transaction[]; evicted: Array<{ tx: Transaction; reason: string }> } {
+  const kept: Transaction[] = [];
+  const evicted: Array<{ tx: Transaction; reason: string }> = [];
+  const senders = new Map<Address, { baseNonce: number; nonce: number; balance: bigint }>();
+
+  const ordered = [...txs].sort((a, b) => a.nonce - b.nonce);
+  for (const tx of ordered) {
+    const from = tx.from.toLowerCase();
+    let sender = senders.get(from);
+    if (!sender) {
+      const account = accounts.get(from);
+      const nonce = account?.nonce ?? 0;
+      sender = { baseNonce: nonce, nonce, balance: account?.balance ?? BigInt(0) };
+      senders.set(from, sender);
+    }
+
+    if (tx.nonce < sender.baseNonce) {
+      evicted.push({ tx, reason: `Stale nonce for ${from}. Expected: ${sender.baseNonce}, got: ${tx.nonce}` });
+      continue;
+    }
+
+    if (tx.nonce < sender.nonce) {
+      evicted.push({ tx, reason: `Duplicate nonce ${tx.nonce} for ${from}` });
+      continue;
+    }
+
+    if (tx.nonce === sender.nonce) {
+      const cost = transactionCost(tx);
+      if (sender.balance < cost) {
+        evicted.push({ tx, reason: `Insufficient balance for ${from}. Has: ${sender.balance}, needs: ${cost}` });
+        continue;
+      }
+      sender.balance -= cost;
+      sender.nonce += 1;
+    }
+
+    kept.push(tx);
+  }
+
+  // 保持原有队列顺序
+  const keptHashes = new Set(kept.map(tx => tx.hash));
+  return { kept: txs.filter(tx => keptHashes.has(tx.hash)), evicted };
+}
+
+/**
+ * 生成改动账户的状态树更新
+ */
+export async function buildAccountUpdates(
+  accounts: Map<Address, AccountState>,
+  changed: Iterable<Address>
+): Promise<StateTreeUpdate[]> {
+  return Promise.all([...changed].map(async address => {
+    const account = accounts.get(address)!;
+    const value: AccountLeafValue = { address, balance: account.balance, nonce: account.nonce };
+    return {
+      key: await accountStateKey(address),
+      valueHash: await hashAccountLeaf(account.balance, account.nonce),
+      value,
+    };
+  }));
+}
+
+/**
+ * 复制账户（executeTransactions 会原地修改，执行前保留一份用于计算差异）
+ */
+export function cloneAccounts(accounts: Map<Address, AccountState>): Map<Address, AccountState> {
+  return new Map([...accounts].map(([address, account]) => [address, { ...account }]));
+}
+
+/**
+ * 计算改动账户的前后差异（按地址排序），余额与 nonce 均未变的账户不记录
+ */
+export function buildStateDiff(
+  before: Map<Address, AccountState>,
+  after: Map<Address, AccountState>,
+  changed: Iterable<Address>
+): AccountDiff[] {
+  const diffs: AccountDiff[] = [];
+  for (const address of [...changed].sort()) {
+    const prev = before.get(address);
+    const next = after.get(address)!;
+    const diff: AccountDiff = {
+      address,
+      balanceBefore: prev?.balance ?? BigInt(0),
+      balanceAfter: next.balance,
+      nonceBefore: prev?.nonce ?? 0,
+      nonceAfter: next.nonce,
+    };
+    if (diff.balanceBefore !== diff.balanceAfter || diff.nonceBefore !== diff.nonceAfter) {
+      diffs.push(diff);
+    }
+  }
+  return diffs;
+}
@@ -0,0 +1,292 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * 轻客户端 - 区块头同步与证明验证
+ * ============================================
+ *
+ * 不信任 API 网关：
+ * 1. 从创世区块向前逐个验证区块头（哈希、prevHash 链接、提交证书的签名域与法定人数）
+ * 2. 跟踪验证者集合：初始集合必须是调用方配置的受信集合；集合变化时，新集合必须由区块头的
+ *    validatorSetHash 承诺（计入区块哈希），且上一个受信集合中签名的权重超过其总权重的 1/3
+ *    （至少一个诚实验证者对承诺了新集合的区块头签名；网关无法替换证书中的集合）
+ * 3. 交易与账户只相对已验证区块头的 txRoot / stateRoot 验证
+ */
+
+import type {
+  Address,
+  BlockHash,
+  BlockHeader,
+  HexString,
+  SigningDomain,
+  SignedHeader,
+  HeadersResponse,
+  CommitCertificate,
+  ValidatorSet,
+  AccountProofResponse,
+  TransactionProofResponse,
+} from './types';
+import { hashBlock, hashValidatorSet, verifyBlockSignature, verifyCommit, verifyMerkleProof } from './crypto';
+import { accountStateKey, hashAccountLeaf, verifyStateProof } from './state-tree';
+
+// ============================================
+// 类型
+// ============================================
+
+export interface LightClientOptions {
+  /** API 地址 */
+  apiUrl: string;
+
+  /** 受信的创世区块哈希（缺省时信任首次同步到的创世区块） */
+  trustedGenesisHash?: BlockHash;
+
+  /** 受信的初始验证者集合哈希（高度 1 的证书集合必须与之一致） */
+  trustedValidatorSetHash: HexString;
+
+  /** 期望的签名域，链标识不一致的证书一律拒绝 */
+  domain: SigningDomain;
+
+  /** 链的签名激活高度，之前的区块接受旧版投票载荷（缺省为 0：只接受带域标签的签名） */
+  signatureActivationHeight?: number;
+
+  /** 自定义 fetch（测试或非浏览器环境） */
+  fetch?: typeof fetch;
+}
+
+/**
+ * 已验证的区块头
+ */
+export interface VerifiedHeader {
+  height: number;
+  hash: BlockHash;
+  header: BlockHeader;
+}
+
+/**
+ * 已验证的账户状态
+ */
+export interface VerifiedAccount {
+  address: Address;
+  balance: bigint;
+  nonce: number;
+  exists: boolean;
+  /** 证明所对应的已验证高度 */
+  height: number;
+}
+
+// ============================================
+// 轻客户端
+// ============================================
+
+/** 集合变化时上一个受信集合需要签名的权重比例（严格大于 1/3） */
+function trustThreshold(totalWeight: bigint): bigint {
+  return totalWeight / BigInt(3) + BigInt(1);
+}
+
+export class LightClient {
+  private options: LightClientOptions;
+  private fetcher: typeof fetch;
+  private headers = new Map<number, VerifiedHeader>();
+  private latest?: VerifiedHeader;
+  private validatorSet?: { hash: HexString; set: ValidatorSet };
+
+  constructor(options: LightClientOptions) {
+    this.options = options;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /** 最新已验证区块头 */
+  get latestHeader(): VerifiedHeader | undefined {
+    return this.latest;
+  }
+
+  /** 当前受信的验证者集合 */
+  get trustedValidatorSet(): ValidatorSet | undefined {
+    return this.validatorSet?.set;
+  }
+
+  getHeader(height: number): VerifiedHeader | undefined {
+    return this.headers.get(height);
+  }
+
+  /**
+   * 同步并验证区块头直到 targetHeight（缺省为 API 报告的最新高度）
+   * 任一区块头验证失败时抛出错误，已验证的前缀保留
+   */
+  async sync(targetHeight?: number): Promise<VerifiedHeader> {
+    let next = this.latest ? this.latest.height + 1 : 0;
+
+    while (targetHeight === undefined || next <= targetHeight) {
+      const query = targetHeight === undefined ? `from=${next}` : `from=${next}&to=${targetHeight}`;
+      const page = await this.request<HeadersResponse>(`/headers?${query}`).catch(error => {
+        // 已经是最新高度时网关返回 404
+        if (this.latest && targetHeight === undefined) return undefined;
+        throw error;
+      });
+      if (!page || page.headers.length === 0) break;
+
+      for (const signed of page.headers) {
+        await this.verifyHeader(signed);
+      }
+      next = this.latest!.height + 1;
+      if (targetHeight === undefined && next > page.latestHeight) break;
+    }
+
+    if (!this.latest || (targetHeight !== undefined && this.latest.height < targetHeight)) {
+      throw new Error(`Light client could not sync to height ${targetHeight ?? 'latest'}`);
+    }
+    return this.latest;
+  }
+
+  /**
+   * 验证交易默克尔证明（相对已验证区块头的 txRoot）
+   */
+  async verifyTransaction(proof: TransactionProofResponse): Promise<boolean> {
+    const verified = this.headers.get(proof.blockHeight);
+    if (!verified || verified.hash !== proof.blockHash) return false;
+    return verifyMerkleProof(proof.txHash, proof, verified.header.txRoot);
+  }
+
+  /**
+   * 验证账户状态证明（相对已验证区块头的 stateRoot）
+   */
+  async verifyAccountProof(proof: AccountProofResponse): Promise<boolean> {
+    const verified = this.headers.get(proof.height);
+    if (!verified || verified.hash !== proof.blockHash || verified.header.stateRoot !== proof.stateRoot) {
+      return false;
+    }
+
+    const key = await accountStateKey(proof.address);
+    const valueHash = proof.exists ? await hashAccountLeaf(BigInt(proof.balance), proof.nonce) : null;
+    return verifyStateProof(verified.header.stateRoot, key, valueHash, proof.proof);
+  }
+
+  /**
+   * 同步到最新高度并返回经证明验证的账户状态
+   */
+  async getVerifiedAccount(address: Address): Promise<VerifiedAccount> {
+    const { height } = await this.sync();
+    const proof = await this.request<AccountProofResponse>(`/account/${address.toLowerCase()}/proof?height=${height}`);
+    if (!(await this.verifyAccountProof(proof))) {
+      throw new Error(`Invalid state proof for ${address} at height ${height}`);
+    }
+    return {
+      address: proof.address,
+      balance: proof.exists ? BigInt(proof.balance) : BigInt(0),
+      nonce: proof.exists ? proof.nonce : 0,
+      exists: proof.exists,
+      height,
+    };
+  }
+
+  // ============================================
+  // 内部
+  // ============================================
+
+  private async verifyHeader(signed: SignedHeader): Promise<void> {
+    const { header, hash, certificate } = signed;
+    const expectedHeight = this.latest ? this.latest.height + 1 : 0;
+
+    if (header.height !== expectedHeight) {
+      throw new Error(`Unexpected header height ${header.height} (expected ${expectedHeight})`);
+    }
+    if ((await hashBlock(header)) !== hash) {
+      throw new Error(`Header hash mismatch at height ${header.height}`);
+    }
+
+    if (header.height === 0) {
+      const trusted = this.options.trustedGenesisHash;
+      if (trusted && trusted.toLowerCase() !== hash) {
+        throw new Error(`Genesis hash mismatch. Trusted: ${trusted}, got: ${hash}`);
+      }
+    } else {
+      if (header.prevHash !== this.latest!.hash) {
+        throw new Error(`Header ${header.height} does not link to ${this.latest!.hash}`);
+      }
+      if (!certificate) {
+        throw new Error(`Missing commit certificate for height ${header.height}`);
+      }
+      await this.verifyCertificate(header, hash, certificate);
+    }
+
+    this.latest = { height: header.height, hash, header };
+    this.headers.set(header.height, this.latest);
+  }
+
+  private async verifyCertificate(header: BlockHeader, hash: BlockHash, certificate: CommitCertificate): Promise<void> {
+    const { height } = header;
+    if (certificate.height !== height || certificate.blockHash !== hash) {
+      throw new Error(`Commit certificate does not match header ${height}`);
+    }
+
+    const { domain } = this.options;
+    if (certificate.domain.chainId !== domain.chainId || certificate.domain.networkId !== domain.networkId) {
+      throw new Error(
+        `Commit certificate at height ${height} is for chain ${certificate.domain.chainId}/${certificate.domain.networkId}`
+      );
+    }
+
+    // 区块头承诺了提交集合时，证书中的集合必须与之一致（签名覆盖区块哈希，也就覆盖了该承诺）
+    const setHash = await hashValidatorSet(certificate.validatorSet);
+    if (header.validatorSetHash && header.validatorSetHash.toLowerCase() !== setHash) {
+      throw new Error(`Validator set at height ${height} does not match the header commitment`);
+    }
+    if (!this.validatorSet) {
+      if (this.options.trustedValidatorSetHash.toLowerCase() !== setHash) {
+        throw new Error(`Validator set at height ${height} is not trusted`);
+      }
+    } else if (this.validatorSet.hash !== setHash) {
+      if (!header.validatorSetHash) {
+        throw new Error(`Validator set change at height ${height} is not committed in the header`);
+      }
+      await this.verifyValidatorSetChange(height, certificate);
+    }
+
+    // 集合受信后（初始配置或上一集合背书）再按该集合验证法定人数
+    const verification = await verifyCommit(certificate, setHash, this.signatureActivationHeight, domain);
+    if (!verification.valid) {
+      throw new Error(`Invalid commit certificate at height ${height}: ${verification.error}`);
+    }
+    this.validatorSet = { hash: setHash, set: certificate.validatorSet };
+  }
+
+  /**
+   * 新集合签名的证书中，上一个受信集合成员的签名权重必须超过其总权重的 1/3
+   * 调用前已确认区块头承诺了新集合，这些签名因此认可的是区块头中的集合而不只是区块
+   */
+  private async verifyValidatorSetChange(height: number, certificate: CommitCertificate): Promise<void> {
+    const trusted = this.validatorSet!.set;
+    const weights = new Map(trusted.members.map(m => [m.publicKey.toLowerCase(), BigInt(m.weight)]));
+    const totalWeight = [...weights.values()].reduce((sum, weight) => sum + weight, BigInt(0));
+    const scheme = { domain: this.options.domain, allowLegacy: height < this.signatureActivationHeight };
+
+    const signers = new Set<string>();
+    for (const vote of certificate.signatures) {
+      const publicKey = vote.validatorPubKey.toLowerCase();
+      if (!weights.has(publicKey) || signers.has(publicKey)) continue;
+      if (await verifyBlockSignature(certificate.blockHash, vote.signature, vote.validatorPubKey, scheme)) {
+        signers.add(publicKey);
+      }
+    }
+
+    const signedWeight = [...signers].reduce((sum, key) => sum + weights.get(key)!, BigInt(0));
+    if (signedWeight < trustThreshold(totalWeight)) {
+      throw new Error(
+        `Validator set change at height ${height} not endorsed by the trusted set. ` +
+        `Required: ${trustThreshold(totalWeight)}, got: ${signedWeight}`
+      );
+    }
+  }
+
+  private get signatureActivationHeight(): number {
+    return this.options.signatureActivationHeight ?? 0;
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    const response = await this.fetcher(`${this.options.apiUrl}${path}`);
+    const result = await response.json() as { success?: boolean; data?: T; error?: string };
+    if (!response.ok || result.success === false) {
+      throw new Error(result.error || `Request failed: ${path}`);
+    }
+    return result.data as T;
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * 法定人数 - 由验证者集合推导提交阈值
+ * ============================================
+ *
+ * BFT 要求 n >= 3f + 1，提交需要 2f+1 票（n = 3f+1 时）；
+ * 一般形式为权重严格大于总权重的 2/3。不加权时每个验证者权重为 1，
+ * 加权时权重为已绑定的质押（创世 stake + 委托，见 staking.ts）。
+ */
+
+import type { HexString, GenesisValidator, ValidatorSet } from './types';
+
+/**
+ * 严格大于 2/3 总权重的最小整数权重
+ */
+export function quorumThreshold(totalWeight: bigint): bigint {
+  if (totalWeight <= BigInt(0)) return BigInt(1);
+  return totalWeight - (totalWeight - BigInt(1)) / BigInt(3);
+}
+
+/**
+ * 由活跃验证者公钥构建验证者集合
+ * 加权时权重取 bonded 中的已绑定质押（缺省为 genesisValidators 中同公钥的 stake），未登记的验证者权重为 0
+ */
+export function buildValidatorSet(
+  publicKeys: HexString[],
+  genesisValidators: GenesisValidator[],
+  stakeWeighted: boolean,
+  bonded?: Map<HexString, bigint>
+): ValidatorSet {
+  const members = [...new Set(publicKeys)].map(publicKey => {
+    const registered = genesisValidators.find(v => v.publicKey === publicKey);
+    return {
+      id: registered?.id,
+      publicKey,
+      weight: !stakeWeighted ? BigInt(1) : registered ? bonded?.get(publicKey) ?? BigInt(registered.stake) : BigInt(0),
+    };
+  });
+
+  const totalWeight = members.reduce((sum, m) => sum + m.weight, BigInt(0));
+
+  return {
+    members,
+    stakeWeighted,
+    totalWeight,
+    threshold: quorumThreshold(totalWeight),
+  };
+}
+
+/**
+ * 按人数计算的所需签名数（2f+1）
+ */
+export function requiredSignatureCount(validatorCount: number): number {
+  return Number(quorumThreshold(BigInt(validatorCount)));
+}
+
+/**
+ * 统计签名者的总权重（同一公钥只计一次，集合外的公钥不计）
+ */
+export function tallyVotingPower(set: ValidatorSet, signers: Iterable<HexString>): bigint {
+  const weights = new Map(set.members.map(m => [m.publicKey, m.weight]));
+  let power = BigInt(0);
+  for (const publicKey of new Set(signers)) {
+    power += weights.get(publicKey) ?? BigInt(0);
+  }
+  return power;
+}
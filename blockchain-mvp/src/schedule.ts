@@ -0,0 +1,59 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * 提议者轮换 - 按高度与轮次的出块调度
+ * ============================================
+ *
+ * 每个高度从第 0 轮开始，由授权提议者按 (height + round) 轮询出块；
+ * 若 consensusTimeoutMs 内没有区块提交，进入下一轮，由下一位提议者接管（view change）。
+ * 轮次只由时间推进：第 r 轮从该高度视图开始后 r * consensusTimeoutMs 起生效。
+ */
+
+import type { GenesisProposer, Timestamp } from './types';
+
+/**
+ * 指定高度与轮次的提议者
+ */
+export function scheduledProposer(
+  proposers: GenesisProposer[],
+  height: number,
+  round: number
+): GenesisProposer {
+  if (proposers.length === 0) {
+    throw new Error('No authorized proposers');
+  }
+  return proposers[(height + round) % proposers.length];
+}
+
+/**
+ * 视图开始后经过的轮次
+ */
+export function currentRound(viewStartedAt: Timestamp, now: Timestamp, timeoutMs: number): number {
+  if (timeoutMs <= 0 || now <= viewStartedAt) return 0;
+  return Math.floor((now - viewStartedAt) / timeoutMs);
+}
+
+/**
+ * 第 round 轮的最早开始时间
+ */
+export function roundStartsAt(viewStartedAt: Timestamp, round: number, timeoutMs: number): Timestamp {
+  return viewStartedAt + round * timeoutMs;
+}
+
+/**
+ * 提议者在 fromRound 之后（含）最近一次被调度的轮次，未授权时返回 undefined
+ * 轮询周期为提议者数量，因此最多向后查找一个周期
+ */
+export function nextScheduledRound(
+  proposers: GenesisProposer[],
+  height: number,
+  fromRound: number,
+  proposerId: string
+): number | undefined {
+  for (let round = fromRound; round < fromRound + proposers.length; round++) {
+    if (scheduledProposer(proposers, height, round).id === proposerId) {
+      return round;
+    }
+  }
+  return undefined;
+}
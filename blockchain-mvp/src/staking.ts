@@ -0,0 +1,391 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * 质押与委托 - 状态转换
+ * ============================================
+ *
+ * 规则：
+ * 1. 质押只能绑定到创世验证者；验证者的自抵押即委托人为自己的委托
+ * 2. 已绑定的质押 = 创世质押 + 委托总量，按质押加权时即投票权重与奖励分配权重
+ * 3. 验证者的奖励份额按 rewardPerShare 累计给其全部质押（创世质押的份额归验证者自己），
+ *    委托变化或领取前先结算，分配奖励时不需要遍历委托人
+ * 4. 解除的质押立即失去权重，unbondingBlocks 个区块后通过 claim 取回余额
+ *
+ * 质押状态保存在状态树的 `validator:<address>` 与 `delegation:<delegator>:<validator>` 叶子中，
+ * 没有写入过的叶子视为全 0，创世状态根不受影响。
+ */
+
+import type {
+  Address,
+  HexString,
+  Transaction,
+  TransactionAction,
+  GenesisValidator,
+  ValidatorStakeState,
+  DelegationState,
+  StakingSnapshot,
+} from './types';
+import type { StateTreeUpdate } from './state-tree';
+import {
+  validatorStateKey,
+  delegationStateKey,
+  hashValidatorStakeLeaf,
+  hashDelegationLeaf,
+} from './state-tree';
+import { publicKeyToAddress } from './crypto';
+
+/** rewardPerShare 的定点精度 */
+export const REWARD_PRECISION = BigInt('1000000000000000000');
+
+/** 每个委托同时处于解绑期的条目上限 */
+export const MAX_UNBONDING_ENTRIES = 16;
+
+// ============================================
+// 交易类型
+// ============================================
+
+/** 全部交易类型（提交时校验） */
+export const TRANSACTION_ACTIONS: TransactionAction[] = ['transfer', 'stake', 'unstake', 'delegate', 'undelegate', 'claim'];
+
+/**
+ * 是否为质押操作（非转账）
+ */
+export function isStakingAction(action?: TransactionAction): boolean {
+  return action !== undefined && action !== 'transfer';
+}
+
+/**
+ * 交易是否从余额中转出 amount（转账与绑定质押）；解除与领取只支付手续费
+ */
+export function debitsAmount(action?: TransactionAction): boolean {
+  return !action || action === 'transfer' || action === 'stake' || action === 'delegate';
+}
+
+/**
+ * 委托标识：`<delegator>:<validator>`（小写）
+ */
+export function delegationId(delegator: Address, validator: Address): string {
+  return `${delegator.toLowerCase()}:${validator.toLowerCase()}`;
+}
+
+function parseDelegationId(id: string): { delegator: Address; validator: Address } {
+  const [delegator, validator] = id.split(':');
+  return { delegator, validator };
+}
+
+/**
+ * 不依赖链上状态的检查（入队前与执行时共用），不满足时返回原因
+ * stake / unstake 必须由验证者本人发起，delegate / undelegate 必须由其他账户发起
+ */
+export function checkStakingTransaction(
+  tx: Pick<Transaction, 'from' | 'to' | 'amount' | 'action'>,
+  validators: GenesisValidator[]
+): string | undefined {
+  const action = tx.action;
+  if (!isStakingAction(action)) return undefined;
+
+  const to = tx.to.toLowerCase();
+  const validator = validators.find(v => publicKeyToAddress(v.publicKey) === to);
+  if (!validator) {
+    return `Unknown validator ${to}`;
+  }
+
+  const isSelf = tx.from.toLowerCase() === to;
+  if ((action === 'stake' || action === 'unstake') && !isSelf) {
+    return `Only validator ${validator.id} can ${action}; use ${action === 'stake' ? 'delegate' : 'undelegate'} instead`;
+  }
+  if ((action === 'delegate' || action === 'undelegate') && isSelf) {
+    return `Validator ${validator.id} must use ${action === 'delegate' ? 'stake' : 'unstake'} for its own stake`;
+  }
+
+  if (action === 'claim') {
+    if (tx.amount !== BigInt(0)) return 'Claim amount must be 0';
+  } else if (tx.amount <= BigInt(0)) {
+    return `Invalid ${action} amount: ${tx.amount}`;
+  }
+
+  return undefined;
+}
+
+// ============================================
+// 质押状态
+// ============================================
+
+export function emptyValidatorStake(): ValidatorStakeState {
+  return { delegated: BigInt(0), rewardPerShare: BigInt(0) };
+}
+
+export function emptyDelegation(): DelegationState {
+  return { amount: BigInt(0), rewardDebt: BigInt(0), rewards: BigInt(0), unbonding: [] };
+}
+
+/**
+ * 执行区块使用的质押状态：全部创世验证者的汇总与区块涉及的委托
+ * 执行时原地修改，changed* 记录需要写回存储与状态树的叶子
+ */
+export interface StakingState {
+  /** 创世验证者（按小写地址） */
+  validators: Map<Address, GenesisValidator>;
+
+  records: Map<Address, ValidatorStakeState>;
+
+  /** key 为 delegationId */
+  delegations: Map<string, DelegationState>;
+
+  /** 解绑期（区块数） */
+  unbondingBlocks: number;
+
+  changedValidators: Set<Address>;
+  changedDelegations: Set<string>;
+}
+
+/**
+ * 由存储中读取的汇总与委托构建质押状态（缺失的视为全 0）
+ */
+export function createStakingState(
+  genesisValidators: GenesisValidator[],
+  records: Map<Address, ValidatorStakeState>,
+  delegations: Map<string, DelegationState>,
+  unbondingBlocks: number
+): StakingState {
+  const validators = new Map(genesisValidators.map(v => [publicKeyToAddress(v.publicKey), v]));
+  return {
+    validators,
+    records: new Map([...validators.keys()].map(address => [address, records.get(address) ?? emptyValidatorStake()])),
+    delegations,
+    unbondingBlocks,
+    changedValidators: new Set(),
+    changedDelegations: new Set(),
+  };
+}
+
+/**
+ * 区块中质押交易涉及的委托
+ */
+export function collectDelegationIds(txs: Transaction[]): string[] {
+  const ids = txs.filter(tx => isStakingAction(tx.action)).map(tx => delegationId(tx.from, tx.to));
+  return [...new Set(ids)];
+}
+
+/**
+ * 已绑定的质押：创世质押 + 委托总量
+ */
+export function bondedStake(validator: GenesisValidator, record?: ValidatorStakeState): bigint {
+  return BigInt(validator.stake) + (record?.delegated ?? BigInt(0));
+}
+
+/**
+ * 各验证者已绑定的质押（按公钥，用于法定人数权重）
+ */
+export function bondedStakeByPublicKey(
+  genesisValidators: GenesisValidator[],
+  records: Map<Address, ValidatorStakeState>
+): Map<HexString, bigint> {
+  return new Map(genesisValidators.map(v => [v.publicKey, bondedStake(v, records.get(publicKeyToAddress(v.publicKey)))]));
+}
+
+/**
+ * 委托参与奖励分配的权重：验证者的自抵押另计创世质押
+ */
+function delegationWeight(state: StakingState, id: string, delegation: DelegationState): bigint {
+  const { delegator, validator } = parseDelegationId(id);
+  const genesis = delegator === validator ? state.validators.get(validator) : undefined;
+  return delegation.amount + (genesis ? BigInt(genesis.stake) : BigInt(0));
+}
+
+/**
+ * 委托截至当前 rewardPerShare 的全部待领取奖励（不修改状态）
+ */
+export function pendingDelegationRewards(
+  delegation: DelegationState,
+  weight: bigint,
+  record: ValidatorStakeState
+): bigint {
+  return delegation.rewards + weight * record.rewardPerShare / REWARD_PRECISION - delegation.rewardDebt;
+}
+
+/**
+ * 查询用：委托（含验证者创世质押份额）的待领取奖励
+ */
+export function describeDelegationRewards(
+  state: StakingState,
+  delegator: Address,
+  validator: Address
+): bigint {
+  const id = delegationId(delegator, validator);
+  const delegation = state.delegations.get(id) ?? emptyDelegation();
+  const record = state.records.get(validator.toLowerCase()) ?? emptyValidatorStake();
+  return pendingDelegationRewards(delegation, delegationWeight(state, id, delegation), record);
+}
+
+/**
+ * 结算委托的奖励，返回（可修改的）委托
+ */
+function settle(state: StakingState, id: string, validator: Address): DelegationState {
+  const delegation = state.delegations.get(id) ?? emptyDelegation();
+  const record = state.records.get(validator)!;
+  const accrued = delegationWeight(state, id, delegation) * record.rewardPerShare / REWARD_PRECISION;
+  delegation.rewards += accrued - delegation.rewardDebt;
+  delegation.rewardDebt = accrued;
+  state.delegations.set(id, delegation);
+  return delegation;
+}
+
+/**
+ * 委托数量变化后按新权重重置 rewardDebt（调用前必须先 settle）
+ */
+function resetDebt(state: StakingState, id: string, delegation: DelegationState, validator: Address): void {
+  const record = state.records.get(validator)!;
+  delegation.rewardDebt = delegationWeight(state, id, delegation) * record.rewardPerShare / REWARD_PRECISION;
+}
+
+/**
+ * 执行质押操作（余额扣款与手续费由 executeTransactions 处理）
+ * 成功时返回取回到余额的数量（claim），失败时不修改状态
+ */
+export function applyStakingAction(
+  state: StakingState,
+  tx: Transaction,
+  height: number
+): { payout: bigint; error?: string } {
+  const validators = [...state.validators.values()];
+  const staticError = checkStakingTransaction(tx, validators);
+  if (staticError) return { payout: BigInt(0), error: staticError };
+
+  const validator = tx.to.toLowerCase();
+  const id = delegationId(tx.from, validator);
+  const record = state.records.get(validator)!;
+
+  switch (tx.action) {
+    case 'stake':
+    case 'delegate': {
+      const delegation = settle(state, id, validator);
+      delegation.amount += tx.amount;
+      record.delegated += tx.amount;
+      resetDebt(state, id, delegation, validator);
+      break;
+    }
+
+    case 'unstake':
+    case 'undelegate': {
+      const current = state.delegations.get(id) ?? emptyDelegation();
+      if (current.amount < tx.amount) {
+        return { payout: BigInt(0), error: `Insufficient bonded stake on ${validator}. Bonded: ${current.amount}, requested: ${tx.amount}` };
+      }
+      if (current.unbonding.length >= MAX_UNBONDING_ENTRIES) {
+        return { payout: BigInt(0), error: `Too many unbonding entries on ${validator} (max ${MAX_UNBONDING_ENTRIES}); claim first` };
+      }
+      const delegation = settle(state, id, validator);
+      delegation.amount -= tx.amount;
+      record.delegated -= tx.amount;
+      delegation.unbonding.push({ amount: tx.amount, releaseHeight: height + state.unbondingBlocks });
+      resetDebt(state, id, delegation, validator);
+      break;
+    }
+
+    case 'claim': {
+      // 没有可领取的数量时只支付手续费，不写入空的委托叶子
+      const current = state.delegations.get(id) ?? emptyDelegation();
+      const matured = current.unbonding.filter(e => e.releaseHeight <= height);
+      const payout = pendingDelegationRewards(current, delegationWeight(state, id, current), record) +
+        matured.reduce((sum, e) => sum + e.amount, BigInt(0));
+      if (payout === BigInt(0)) return { payout };
+
+      const delegation = settle(state, id, validator);
+      delegation.rewards = BigInt(0);
+      delegation.unbonding = delegation.unbonding.filter(e => e.releaseHeight > height);
+      state.changedDelegations.add(id);
+      return { payout };
+    }
+  }
+
+  state.changedValidators.add(validator);
+  state.changedDelegations.add(id);
+  return { payout: BigInt(0) };
+}
+
+/**
+ * 把奖励计入验证者的奖励池：先扣除 commission% 作为验证者佣金，其余按已绑定质押累计到 rewardPerShare
+ * （整除余数被销毁）。验证者自己的创世质押与自抵押同样按比例分得，因此佣金实际只抽取委托人的份额
+ * 返回由调用方计入验证者余额的数量：佣金；不是创世验证者或没有已绑定质押时为全部奖励
+ */
+export function distributeValidatorReward(state: StakingState, address: Address, amount: bigint): bigint {
+  const key = address.toLowerCase();
+  const validator = state.validators.get(key);
+  const record = state.records.get(key);
+  if (!validator || !record) return amount;
+
+  const bonded = bondedStake(validator, record);
+  if (bonded <= BigInt(0)) return amount;
+
+  const commission = amount * BigInt(validator.commission) / BigInt(100);
+  record.rewardPerShare += (amount - commission) * REWARD_PRECISION / bonded;
+  state.changedValidators.add(key);
+  return commission;
+}
+
+/**
+ * 生成质押叶子的状态树更新
+ */
+async function buildStakingLeafUpdates(
+  validators: Array<[Address, ValidatorStakeState]>,
+  delegations: Array<[string, DelegationState]>
+): Promise<StateTreeUpdate[]> {
+  const validatorUpdates = await Promise.all(validators.map(async ([address, record]) => ({
+    key: await validatorStateKey(address),
+    valueHash: await hashValidatorStakeLeaf(record),
+    value: { address, ...record },
+  })));
+
+  const delegationUpdates = await Promise.all(delegations.map(async ([id, delegation]) => {
+    const { delegator, validator } = parseDelegationId(id);
+    return {
+      key: await delegationStateKey(delegator, validator),
+      valueHash: await hashDelegationLeaf(delegation),
+      value: { delegator, validator, ...delegation },
+    };
+  }));
+
+  return [...validatorUpdates, ...delegationUpdates];
+}
+
+/**
+ * 生成区块改动的质押叶子的状态树更新
+ */
+export async function buildStakingUpdates(state: StakingState): Promise<StateTreeUpdate[]> {
+  return buildStakingLeafUpdates(
+    [...state.changedValidators].map(address => [address, state.records.get(address)!]),
+    [...state.changedDelegations].map(id => [id, state.delegations.get(id)!])
+  );
+}
+
+/**
+ * 生成快照中全部质押叶子的状态树更新（重建状态树）
+ */
+export async function buildStakingSnapshotUpdates(snapshot: StakingSnapshot): Promise<StateTreeUpdate[]> {
+  return buildStakingLeafUpdates(Object.entries(snapshot.validators), Object.entries(snapshot.delegations));
+}
+
+/**
+ * 还原 JSON 传输后的质押快照（bigint 字段为十进制字符串）
+ */
+export function reviveStakingSnapshot(snapshot: StakingSnapshot): StakingSnapshot {
+  const validators: StakingSnapshot['validators'] = {};
+  for (const [address, record] of Object.entries(snapshot.validators)) {
+    validators[address] = {
+      delegated: BigInt(record.delegated),
+      rewardPerShare: BigInt(record.rewardPerShare),
+    };
+  }
+
+  const delegations: StakingSnapshot['delegations'] = {};
+  for (const [id, delegation] of Object.entries(snapshot.delegations)) {
+    delegations[id] = {
+      amount: BigInt(delegation.amount),
+      rewardDebt: BigInt(delegation.rewardDebt),
+      rewards: BigInt(delegation.rewards),
+      unbonding: (delegation.unbonding || []).map(e => ({ amount: BigInt(e.amount), releaseHeight: e.releaseHeight })),
+    };
+  }
+  return { validators, delegations };
+}
@@ -0,0 +1,422 @@
+/**
+ * ============================================
+ * Cloudflare Serverless Blockchain MVP
+ * 状态树 - 压缩稀疏默克尔树（Compact Sparse Merkle Tree）
+ * ============================================
+ *
+ * 设计：
+ * 1. 叶子 key = SHA-256(状态键字符串)，如 `account:<address>`、`validator:<address>`、
+ *    `delegation:<delegator>:<validator>`，共 256 位路径
+ * 2. 只含一个叶子的子树直接用该叶子表示，空子树为全 0 哈希
+ *    leaf   = SHA-256(0x00 || key || valueHash)
+ *    branch = SHA-256(0x01 || left || right)
+ * 3. 树的形状只由叶子集合决定，与写入顺序无关，因此增量更新与全量重建得到相同的根
+ * 4. 节点按哈希内容寻址存储，旧版本的根仍然可以查询（历史状态证明）
+ *
+ * 本模块不依赖 Durable Object，Validator 可以用证明（witness）在内存中重建所需路径。
+ */
+
+import type { HexString, Address, StateProof, ValidatorStakeState, DelegationState } from './types';
+import { sha256, sha256Hex, hexToBytes, bytesToHex, addHexPrefix } from './crypto';
+
+// ============================================
+// 常量与节点类型
+// ============================================
+
+/** 空树 / 空子树哈希 */
+export const EMPTY_STATE_ROOT: HexString = addHexPrefix('00'.repeat(32));
+
+const LEAF_PREFIX = 0x00;
+const BRANCH_PREFIX = 0x01;
+const KEY_BITS = 256;
+
+export type StateTreeNode =
+  | {
+    type: 'leaf';
+    /** 叶子路径 key（32 字节哈希） */
+    key: HexString;
+    /** 叶子值的哈希 */
+    valueHash: HexString;
+    /** 叶子原始值（仅 DO 存储，用于历史查询；witness 中不携带） */
+    value?: unknown;
+  }
+  | { type: 'branch'; left: HexString; right: HexString };
+
+/**
+ * 单个叶子更新
+ */
+export interface StateTreeUpdate {
+  key: HexString;
+  valueHash: HexString;
+  value?: unknown;
+}
+
+// ============================================
+// 节点存储
+// ============================================
+
+/**
+ * 节点存储接口（DO storage / 内存 / witness）
+ */
+export interface StateTreeStore {
+  get(hash: HexString): Promise<StateTreeNode | undefined>;
+  put(hash: HexString, node: StateTreeNode): void;
+}
+
+/**
+ * 内存节点存储
+ * 可选的 fallback 用于从持久化存储按需读取；新写入的节点记录在 written 中，由调用方决定是否落盘
+ */
+export class MemoryTreeStore implements StateTreeStore {
+  readonly written = new Map<HexString, StateTreeNode>();
+  private cache = new Map<HexString, StateTreeNode>();
+  private fallback?: (hash: HexString) => Promise<StateTreeNode | undefined>;
+
+  constructor(fallback?: (hash: HexString) => Promise<StateTreeNode | undefined>) {
+    this.fallback = fallback;
+  }
+
+  async get(hash: HexString): Promise<StateTreeNode | undefined> {
+    const local = this.written.get(hash) || this.cache.get(hash);
+    if (local || !this.fallback) return local;
+
+    const node = await this.fallback(hash);
+    if (node) this.cache.set(hash, node);
+    return node;
+  }
+
+  put(hash: HexString, node: StateTreeNode): void {
+    this.written.set(hash, node);
+  }
+}
+
+// ============================================
+// 哈希
+// ============================================
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((n, p) => n + p.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+}
+
+export async function hashStateLeaf(key: HexString, valueHash: HexString): Promise<HexString> {
+  const hash = await sha256(concatBytes(new Uint8Array([LEAF_PREFIX]), hexToBytes(key), hexToBytes(valueHash)));
+  return addHexPrefix(bytesToHex(hash));
+}
+
+export async function hashStateBranch(left: HexString, right: HexString): Promise<HexString> {
+  const hash = await sha256(concatBytes(new Uint8Array([BRANCH_PREFIX]), hexToBytes(left), hexToBytes(right)));
+  return addHexPrefix(bytesToHex(hash));
+}
+
+/**
+ * 取 key 第 depth 位（从最高位开始）
+ */
+function keyBit(key: HexString, depth: number): number {
+  const bytes = hexToBytes(key);
+  return (bytes[depth >> 3] >> (7 - (depth & 7))) & 1;
+}
+
+// ============================================
+// 状态键与账户叶子编码
+// ============================================
+
+/**
+ * 将状态键字符串映射为树路径
+ */
+export async function stateKey(name: string): Promise<HexString> {
+  return sha256Hex(name);
+}
+
+export async function accountStateKey(address: Address): Promise<HexString> {
+  return stateKey(`account:${address.toLowerCase()}`);
+}
+
+/**
+ * 账户叶子在 DO 中保存的原始值
+ */
+export interface AccountLeafValue {
+  address: Address;
+  balance: bigint;
+  nonce: number;
+}
+
+/**
+ * 账户叶子的规范编码：`account|<balance 十进制>|<nonce>`
+ */
+export function encodeAccountLeaf(balance: bigint, nonce: number): string {
+  return `account|${balance.toString(10)}|${nonce}`;
+}
+
+export async function hashAccountLeaf(balance: bigint, nonce: number): Promise<HexString> {
+  return sha256Hex(encodeAccountLeaf(balance, nonce));
+}
+
+// ============================================
+// 质押叶子编码
+// ============================================
+
+export async function validatorStateKey(address: Address): Promise<HexString> {
+  return stateKey(`validator:${address.toLowerCase()}`);
+}
+
+export async function delegationStateKey(delegator: Address, validator: Address): Promise<HexString> {
+  return stateKey(`delegation:${delegator.toLowerCase()}:${validator.toLowerCase()}`);
+}
+
+/**
+ * 验证者质押叶子的规范编码：`validator|<delegated>|<rewardPerShare>`
+ */
+export function encodeValidatorStakeLeaf(state: ValidatorStakeState): string {
+  return `validator|${state.delegated.toString(10)}|${state.rewardPerShare.toString(10)}`;
+}
+
+/**
+ * 委托叶子的规范编码：`delegation|<amount>|<rewardDebt>|<rewards>|<解绑 amount@releaseHeight，逗号分隔>`
+ */
+export function encodeDelegationLeaf(state: DelegationState): string {
+  const unbonding = state.unbonding.map(e => `${e.amount.toString(10)}@${e.releaseHeight}`).join(',');
+  return `delegation|${state.amount.toString(10)}|${state.rewardDebt.toString(10)}|${state.rewards.toString(10)}|${unbonding}`;
+}
+
+export async function hashValidatorStakeLeaf(state: ValidatorStakeState): Promise<HexString> {
+  return sha256Hex(encodeValidatorStakeLeaf(state));
+}
+
+export async function hashDelegationLeaf(state: DelegationState): Promise<HexString> {
+  return sha256Hex(encodeDelegationLeaf(state));
+}
+
+// ============================================
+// 更新
+// ============================================
+
+async function putLeaf(store: StateTreeStore, update: StateTreeUpdate): Promise<HexString> {
+  const hash = await hashStateLeaf(update.key, update.valueHash);
+  store.put(hash, { type: 'leaf', key: update.key, valueHash: update.valueHash, value: update.value });
+  return hash;
+}
+
+async function putBranch(store: StateTreeStore, left: HexString, right: HexString): Promise<HexString> {
+  const hash = await hashStateBranch(left, right);
+  store.put(hash, { type: 'branch', left, right });
+  return hash;
+}
+
+async function loadNode(store: StateTreeStore, hash: HexString): Promise<StateTreeNode> {
+  const node = await store.get(hash);
+  if (!node) {
+    throw new Error(`Missing state tree node: ${hash}`);
+  }
+  return node;
+}
+
+/**
+ * 用一组更新（key 互不相同）构建空子树
+ */
+async function buildSubtree(store: StateTreeStore, depth: number, updates: StateTreeUpdate[]): Promise<HexString> {
+  if (updates.length === 0) return EMPTY_STATE_ROOT;
+  if (updates.length === 1) return putLeaf(store, updates[0]);
+  if (depth >= KEY_BITS) throw new Error('State tree key collision');
+
+  const left = updates.filter(u => keyBit(u.key, depth) === 0);
+  const right = updates.filter(u => keyBit(u.key, depth) === 1);
+
+  return putBranch(
+    store,
+    await buildSubtree(store, depth + 1, left),
+    await buildSubtree(store, depth + 1, right)
+  );
+}
+
+async function updateSubtree(
+  store: StateTreeStore,
+  nodeHash: HexString,
+  depth: number,
+  updates: StateTreeUpdate[]
+): Promise<HexString> {
+  if (updates.length === 0) return nodeHash;
+  if (nodeHash === EMPTY_STATE_ROOT) return buildSubtree(store, depth, updates);
+
+  const node = await loadNode(store, nodeHash);
+
+  if (node.type === 'leaf') {
+    // 已有叶子视为一次更新（若被同 key 更新覆盖则丢弃）
+    const merged = updates.some(u => u.key === node.key)
+      ? updates
+      : [...updates, { key: node.key, valueHash: node.valueHash, value: node.value }];
+    return buildSubtree(store, depth, merged);
+  }
+
+  const left = updates.filter(u => keyBit(u.key, depth) === 0);
+  const right = updates.filter(u => keyBit(u.key, depth) === 1);
+
+  return putBranch(
+    store,
+    await updateSubtree(store, node.left, depth + 1, left),
+    await updateSubtree(store, node.right, depth + 1, right)
+  );
+}
+
+/**
+ * 批量更新状态树，返回新根
+ * 同一 key 多次更新时以最后一次为准；叶子不会被删除（余额为 0 的账户保留）
+ */
+export async function updateStateTree(
+  store: StateTreeStore,
+  root: HexString,
+  updates: StateTreeUpdate[]
+): Promise<HexString> {
+  const latest = new Map<HexString, StateTreeUpdate>();
+  for (const update of updates) {
+    latest.set(update.key, update);
+  }
+  return updateSubtree(store, root, 0, [...latest.values()]);
+}
+
+// ============================================
+// 查询与证明
+// ============================================
+
+/**
+ * 读取 key 对应的叶子并生成证明（叶子不存在时为不存在证明）
+ */
+export async function getStateProof(
+  store: StateTreeStore,
+  root: HexString,
+  key: HexString
+): Promise<{ leaf?: Extract<StateTreeNode, { type: 'leaf' }>; proof: StateProof }> {
+  const siblings: HexString[] = [];
+  let nodeHash = root;
+  let depth = 0;
+
+  while (nodeHash !== EMPTY_STATE_ROOT) {
+    const node = await loadNode(store, nodeHash);
+
+    if (node.type === 'leaf') {
+      const proof: StateProof = { key, siblings, leaf: { key: node.key, valueHash: node.valueHash } };
+      return { leaf: node.key === key ? node : undefined, proof };
+    }
+
+    if (keyBit(key, depth) === 0) {
+      siblings.push(node.right);
+      nodeHash = node.left;
+    } else {
+      siblings.push(node.left);
+      nodeHash = node.right;
+    }
+    depth++;
+  }
+
+  return { proof: { key, siblings } };
+}
+
+/**
+ * 按 key 升序分页列出 root 下的叶子：只返回 key 大于 after 的叶子，最多 limit 个
+ * next 为本页最后一个叶子的 key（没有更多叶子时缺省），作为下一页的 after
+ */
+export async function listStateLeaves(
+  store: StateTreeStore,
+  root: HexString,
+  options: { after?: HexString; limit: number }
+): Promise<{ leaves: Array<Extract<StateTreeNode, { type: 'leaf' }>>; next?: HexString }> {
+  const after = options.after?.toLowerCase();
+  const leaves: Array<Extract<StateTreeNode, { type: 'leaf' }>> = [];
+
+  // bounded：当前路径与 after 的前缀相同，after 在该位为 1 时左子树整体不大于 after，直接跳过
+  // 多取一个叶子判断是否还有下一页，取满后返回 false 停止遍历
+  const visit = async (nodeHash: HexString, depth: number, bounded: boolean): Promise<boolean> => {
+    if (nodeHash === EMPTY_STATE_ROOT) return true;
+    const node = await loadNode(store, nodeHash);
+
+    if (node.type === 'leaf') {
+      if (after && node.key.toLowerCase() <= after) return true;
+      leaves.push(node);
+      return leaves.length <= options.limit;
+    }
+
+    const afterBit = bounded && after ? keyBit(after, depth) : 0;
+    if (afterBit === 0 && !(await visit(node.left, depth + 1, bounded))) return false;
+    return visit(node.right, depth + 1, bounded && afterBit === 1);
+  };
+  await visit(root, 0, after !== undefined);
+
+  const page = leaves.slice(0, options.limit);
+  return { leaves: page, next: leaves.length > options.limit ? page[page.length - 1].key : undefined };
+}
+
+/**
+ * 由证明计算根；证明结构非法时返回 null
+ */
+async function computeRootFromProof(proof: StateProof): Promise<HexString | null> {
+  const depth = proof.siblings.length;
+  if (depth > KEY_BITS) return null;
+
+  let node = EMPTY_STATE_ROOT;
+  if (proof.leaf) {
+    // 终止叶子必须位于 key 的路径上
+    for (let i = 0; i < depth; i++) {
+      if (keyBit(proof.leaf.key, i) !== keyBit(proof.key, i)) return null;
+    }
+    node = await hashStateLeaf(proof.leaf.key, proof.leaf.valueHash);
+  }
+
+  for (let i = depth - 1; i >= 0; i--) {
+    const sibling = proof.siblings[i];
+    node = keyBit(proof.key, i) === 0
+      ? await hashStateBranch(node, sibling)
+      : await hashStateBranch(sibling, node);
+  }
+
+  return node;
+}
+
+/**
+ * 验证状态证明
+ * valueHash 为 null 时验证该 key 不存在
+ */
+export async function verifyStateProof(
+  root: HexString,
+  key: HexString,
+  valueHash: HexString | null,
+  proof: StateProof
+): Promise<boolean> {
+  try {
+    if (proof.key !== key) return false;
+
+    if (valueHash === null) {
+      if (proof.leaf && proof.leaf.key === key) return false;
+    } else {
+      if (!proof.leaf || proof.leaf.key !== key || proof.leaf.valueHash !== valueHash) return false;
+    }
+
+    return (await computeRootFromProof(proof)) === root;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 将证明路径上的节点写入内存存储（Validator 用 witness 重建局部树）
+ * 调用前应先用 verifyStateProof 验证证明
+ */
+export async function seedStoreFromProof(store: StateTreeStore, proof: StateProof): Promise<void> {
+  let node = EMPTY_STATE_ROOT;
+  if (proof.leaf) {
+    node = await hashStateLeaf(proof.leaf.key, proof.leaf.valueHash);
+    store.put(node, { type: 'leaf', key: proof.leaf.key, valueHash: proof.leaf.valueHash });
+  }
+
+  for (let i = proof.siblings.length - 1; i >= 0; i--) {
+    const sibling = proof.siblings[i];
+    const [left, right] = keyBit(proof.key, i) === 0 ? [node, sibling] : [sibling, node];
+    node = await hashStateBranch(left, right);
+    store.put(node, { type: 'branch', left, right });
+  }
+}
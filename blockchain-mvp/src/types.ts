@@ -16,6 +16,7 @@ import type { HexString, Address, TxHash, BlockHash, Signature, Timestamp } from
 
 // 导出创世相关类型
 export * from './types/genesis';
+import type { VestingSchedule } from './types/genesis';
 
 // ============================================
 // 交易相关类型
@@ -56,10 +57,26 @@ export interface Transaction {
   /** Ed25519 签名 */
   signature: Signature;
 
+  /** 签名载荷版本（缺省为 0，即不含链标识的旧版载荷） */
+  signatureVersion?: number;
+
+  /** 交易类型（缺省为普通转账；质押操作的 to 为验证者地址） */
+  action?: TransactionAction;
+
   /** 原始交易数据（用于验签） */
   data?: HexString;
 }
 
+/**
+ * 交易类型
+ * - transfer：转账
+ * - stake / unstake：验证者增加 / 解除自抵押
+ * - delegate / undelegate：委托给验证者 / 解除委托
+ * - claim：领取在该验证者上的奖励与已到期的解绑
+ * 解除的质押进入解绑期（创世配置 unbondingBlocks），到期后通过 claim 取回
+ */
+export type TransactionAction = 'transfer' | 'stake' | 'unstake' | 'delegate' | 'undelegate' | 'claim';
+
 /**
  * 提交交易的请求体
  */
@@ -71,6 +88,45 @@ export interface SubmitTransactionRequest {
   timestamp: Timestamp;
   signature: Signature;
   publicKey: HexString;
+  /** 签名载荷版本（见 SIGNATURE_VERSION，缺省为旧版载荷） */
+  signatureVersion?: number;
+  /** Gas 价格（缺省为 minGasPrice） */
+  gasPrice?: string;
+  /** Gas 限制（缺省为 21000） */
+  gasLimit?: string;
+  /** 交易类型（缺省为转账，质押操作须使用版本化签名载荷） */
+  action?: TransactionAction;
+}
+
+/**
+ * 签名域：签名载荷中的链标识，防止签名在不同链 / 网络间重放
+ */
+export interface SigningDomain {
+  chainId: string;
+  networkId: string;
+}
+
+/**
+ * 签名类型标签
+ */
+export type SignatureType = 'tx' | 'vote' | 'proposal';
+
+/**
+ * 签名校验方案：签名域，以及是否仍接受旧版载荷（激活高度之前）
+ */
+export interface SignatureScheme {
+  domain: SigningDomain;
+  allowLegacy: boolean;
+}
+
+/**
+ * 手续费参数（来自创世配置 minGasPrice / maxGasLimit / replacementFeeBump）
+ */
+export interface FeeConfig {
+  minGasPrice: bigint;
+  maxGasLimit: bigint;
+  /** 替换同 nonce 交易所需的 gasPrice 涨幅（百分比） */
+  replacementFeeBump: number;
 }
 
 /**
@@ -79,6 +135,8 @@ export interface SubmitTransactionRequest {
 export interface SubmitTransactionResponse {
   success: boolean;
   txHash?: TxHash;
+  /** 被本交易替换的同 nonce 待处理交易 */
+  replacedTxHash?: TxHash;
   error?: string;
   blockHeight?: number;
   estimatedConfirmationTime?: number;
@@ -92,6 +150,7 @@ export enum TransactionStatus {
   PROCESSING = 'processing', // 正在共识中
   CONFIRMED = 'confirmed',   // 已上链
   FAILED = 'failed',         // 执行失败
+  DROPPED = 'dropped',       // 被同 nonce 更高手续费的交易替换
 }
 
 /**
@@ -100,10 +159,65 @@ export enum TransactionStatus {
 export interface TransactionReceipt {
   transaction: Transaction;
   status: TransactionStatus;
+  /** 手续费：已确认为实际扣除值，待处理为将扣除值，执行失败为 0 */
+  fee: bigint;
   blockHeight?: number;
   blockHash?: BlockHash;
   confirmationTime?: number;
   executionError?: string;
+  /** 替换该交易的交易哈希（status 为 dropped 时） */
+  replacedBy?: TxHash;
+}
+
+/**
+ * 账户交易方向过滤
+ */
+export type TxDirection = 'all' | 'sent' | 'received';
+
+/**
+ * 已确认交易位置（`txidx:<txHash>`）
+ */
+export interface TxLocation {
+  /** 所在区块高度 */
+  height: number;
+
+  /** 区块内交易序号 */
+  txIndex: number;
+}
+
+/**
+ * 地址交易索引项（`addrtx:<address>:<direction>:<height>:<txIndex>`）
+ */
+export interface AddressTxIndexEntry extends TxLocation {
+  hash: TxHash;
+}
+
+/**
+ * 账户交易分页查询参数
+ */
+export interface AccountTransactionsQuery {
+  direction?: TxDirection;
+
+  /** 起始高度（含） */
+  fromHeight?: number;
+
+  /** 结束高度（含） */
+  toHeight?: number;
+
+  /** 上一页返回的游标 */
+  cursor?: string;
+
+  limit?: number;
+}
+
+/**
+ * 账户交易分页结果（按高度倒序）
+ */
+export interface AccountTransactionsPage {
+  transactions: TransactionReceipt[];
+
+  /** 下一页游标，没有更多数据时为空 */
+  nextCursor?: string;
 }
 
 // ============================================
@@ -134,6 +248,12 @@ export interface BlockHeader {
 
   /** 交易数量 */
   txCount: number;
+
+  /** 出块轮次（view change 后递增；缺省为 0） */
+  round?: number;
+
+  /** 提交该区块的验证者集合哈希（见 hashValidatorSet；引入前的区块没有该字段） */
+  validatorSetHash?: HexString;
 }
 
 /**
@@ -157,6 +277,12 @@ export interface Block {
 
   /** 共识达成时间 */
   consensusTime?: number;
+
+  /**
+   * 执行失败的交易（区块内序号 -> 原因），commitBlock 时写入，不参与区块哈希
+   * 失败交易仍占用区块位置，但不改变状态
+   */
+  executionErrors?: Record<number, string>;
 }
 
 /**
@@ -176,6 +302,57 @@ export interface ValidatorVote {
   timestamp: Timestamp;
 }
 
+/**
+ * 交易默克尔包含证明（针对区块头 txRoot）
+ */
+export interface MerkleProof {
+  /** 叶子在区块交易列表中的序号 */
+  leafIndex: number;
+
+  /** 叶子总数（决定每层是否存在兄弟节点） */
+  leafCount: number;
+
+  /** 自底向上的兄弟节点哈希 */
+  siblings: HexString[];
+}
+
+/**
+ * 交易证明查询响应（`/tx/:hash/proof`）
+ */
+export interface TransactionProofResponse extends MerkleProof {
+  txHash: TxHash;
+  blockHeight: number;
+  blockHash: BlockHash;
+  txRoot: BlockHash;
+}
+
+/**
+ * 单个账户在一个区块中的变化
+ */
+export interface AccountDiff {
+  address: Address;
+  balanceBefore: bigint;
+  balanceAfter: bigint;
+  nonceBefore: number;
+  nonceAfter: number;
+}
+
+/**
+ * 区块状态差异（DO 中按 `blockdiff:<height>` 存储，`/block/:height/diff` 返回）
+ * 按地址排序，只包含余额或 nonce 发生变化的账户；
+ * 从 before 反向应用即可回滚该区块
+ */
+export interface BlockStateDiff {
+  height: number;
+  blockHash: BlockHash;
+
+  /** 执行前 / 后的状态树根 */
+  stateRootBefore: BlockHash;
+  stateRootAfter: BlockHash;
+
+  accounts: AccountDiff[];
+}
+
 /**
  * 轻量级区块（用于查询）
  */
@@ -241,8 +418,113 @@ export interface ConsensusConfig {
   /** 验证者列表（公钥） */
   validators: string[];
 
-  /** 所需签名数（2/3） */
+  /** 所需签名数（按人数计算的 2f+1，见 quorum.ts） */
   requiredSignatures: number;
+
+  /** 是否按创世质押加权计票（否则每个验证者权重为 1） */
+  stakeWeighted?: boolean;
+}
+
+/**
+ * 验证者集合成员
+ */
+export interface ValidatorSetMember {
+  /** 节点 ID（创世配置中有登记时） */
+  id?: string;
+
+  publicKey: HexString;
+
+  /** 投票权重（质押加权时为已绑定的质押：创世质押 + 委托，否则为 1） */
+  weight: bigint;
+}
+
+/**
+ * 当前验证者集合与法定人数
+ */
+export interface ValidatorSet {
+  members: ValidatorSetMember[];
+
+  stakeWeighted: boolean;
+
+  totalWeight: bigint;
+
+  /** 提交区块所需的最小权重（严格大于总权重的 2/3） */
+  threshold: bigint;
+}
+
+/**
+ * 提交证书的法定人数规则：签名权重严格大于验证者集合总权重的 2/3
+ */
+export const COMMIT_QUORUM_RULE = 'weight>2/3' as const;
+
+/**
+ * 提交证书（DO 中按 `commit:<height>` 存储，`/block/:height/commit` 返回）
+ * 客户端可独立验证：集合哈希与 validatorSet 一致、签名有效、签名权重达到法定人数
+ */
+export interface CommitCertificate {
+  height: number;
+
+  blockHash: BlockHash;
+
+  /** 提交时的验证者集合哈希（见 hashValidatorSet） */
+  validatorSetHash: HexString;
+
+  /** 提交时的验证者集合 */
+  validatorSet: ValidatorSet;
+
+  quorumRule: typeof COMMIT_QUORUM_RULE;
+
+  /** 投票签名的签名域 */
+  domain: SigningDomain;
+
+  /** 该高度是否仍接受旧版投票载荷（签名激活高度之前；仅供展示，验证方按自己配置的激活高度判断） */
+  legacySignatures: boolean;
+
+  /** 有效的验证者签名（投票载荷见 createBlockSignData） */
+  signatures: ValidatorVote[];
+}
+
+/**
+ * 带提交证书的区块头（轻客户端同步单元）
+ * 创世区块没有提交证书，certificate 为 null
+ */
+export interface SignedHeader {
+  hash: BlockHash;
+
+  header: BlockHeader;
+
+  certificate: CommitCertificate | null;
+}
+
+/**
+ * 区块头区间响应（`/headers?from=&to=`）
+ */
+export interface HeadersResponse {
+  headers: SignedHeader[];
+
+  /** 查询时的最新高度（to 超出时按该高度截断） */
+  latestHeight: number;
+}
+
+/**
+ * 提交证书验证结果
+ */
+export interface CommitVerification {
+  valid: boolean;
+
+  /** 签名有效且属于集合的验证者数量（去重） */
+  signers: number;
+
+  validators: number;
+
+  signedWeight: bigint;
+
+  totalWeight: bigint;
+
+  /** 按法定人数规则重新计算的阈值 */
+  threshold: bigint;
+
+  error?: string;
 }
 
 // ============================================
@@ -264,15 +546,79 @@ export interface AccountState {
 }
 
 /**
- * 世界状态（存储在 DO 中）
+ * 验证者的质押汇总（DO 中按 `validator:<address>` 存储，同时是状态树叶子）
+ * 未写入过的验证者视为全 0；创世质押来自创世配置，不计入 delegated
  */
-export interface WorldState {
-  /** 账户余额映射 */
-  balances: Record<Address, bigint>;
+export interface ValidatorStakeState {
+  /** 全部委托（含验证者自抵押）的总量 */
+  delegated: bigint;
 
-  /** 账户 nonce 映射 */
-  nonces: Record<Address, number>;
+  /** 每单位质押累计的奖励 × REWARD_PRECISION */
+  rewardPerShare: bigint;
+}
+
+/**
+ * 解绑中的质押
+ */
+export interface UnbondingEntry {
+  amount: bigint;
+
+  /** 从该高度起可以 claim */
+  releaseHeight: number;
+}
+
+/**
+ * 委托人在某个验证者上的质押（DO 中按 `delegation:<delegator>:<validator>` 存储，同时是状态树叶子）
+ * 验证者的自抵押即委托人为自己的委托
+ */
+export interface DelegationState {
+  amount: bigint;
+
+  /** 已结算到的奖励：权重 × rewardPerShare / REWARD_PRECISION */
+  rewardDebt: bigint;
+
+  /** 已结算、尚未领取的奖励 */
+  rewards: bigint;
+
+  unbonding: UnbondingEntry[];
+}
+
+/**
+ * 账户历史记录（DO 中按 `accthist:<address>:<height>` 存储）
+ * 账户在某区块执行后发生变化时写入一条
+ */
+export interface AccountHistoryEntry {
+  /** 区块高度 */
+  height: number;
 
+  /** 该区块执行后的余额 */
+  balance: bigint;
+
+  /** 该区块执行后的 nonce */
+  nonce: number;
+
+  /** 区块时间戳 */
+  timestamp: Timestamp;
+}
+
+/**
+ * 账户历史查询参数（`/account/:addr/history`）
+ */
+export interface AccountHistoryQuery {
+  /** 起始高度（含） */
+  fromHeight?: number;
+
+  /** 结束高度（含） */
+  toHeight?: number;
+
+  /** 最多返回条数（取区间内最近的记录） */
+  limit?: number;
+}
+
+/**
+ * 链元数据（世界状态中除账户外的部分，DO 中单独存储为 `meta`）
+ */
+export interface ChainMeta {
   /** 最新区块高度 */
   latestBlockHeight: number;
 
@@ -282,6 +628,9 @@ export interface WorldState {
   /** 创世区块哈希 */
   genesisHash: BlockHash;
 
+  /** 当前状态树根（最新区块执行后） */
+  stateRoot: BlockHash;
+
   /** 总交易数 */
   totalTransactions: number;
 
@@ -292,6 +641,113 @@ export interface WorldState {
   lastProposerError?: string;
 }
 
+/**
+ * 世界状态（查询时由 meta + 全部账户拼装）
+ */
+export interface WorldState extends ChainMeta {
+  /** 账户余额映射 */
+  balances: Record<Address, bigint>;
+
+  /** 账户 nonce 映射 */
+  nonces: Record<Address, number>;
+}
+
+/**
+ * 状态树证明（压缩稀疏默克尔树）
+ * siblings 自根向下排列；leaf 为路径终点的叶子，key 不同或缺省时表示不存在
+ */
+export interface StateProof {
+  key: HexString;
+  siblings: HexString[];
+  leaf?: { key: HexString; valueHash: HexString };
+}
+
+/**
+ * 账户状态证明响应（`/account/:addr/proof?height=`）
+ */
+export interface AccountProofResponse {
+  address: Address;
+  height: number;
+  blockHash: BlockHash;
+  stateRoot: BlockHash;
+  balance: string;
+  nonce: number;
+  /** 账户是否存在于状态树中（不存在时 proof 为不存在证明） */
+  exists: boolean;
+  proof: StateProof;
+}
+
+/**
+ * 状态见证（Validator 验证状态根所需的账户与证明）
+ */
+export interface StateWitness {
+  height: number;
+  blockHash: BlockHash;
+  stateRoot: BlockHash;
+  accounts: Record<Address, { balance: string; nonce: number; exists: boolean; proof: StateProof }>;
+}
+
+/**
+ * Validator 状态副本元数据（副本 DO 存储）
+ */
+export interface ReplicaMeta {
+  /** 副本已执行到的高度 */
+  height: number;
+
+  /** 该高度的区块哈希 */
+  blockHash: BlockHash;
+
+  /** 该高度的区块时间（校验 view change 轮次） */
+  blockTimestamp?: Timestamp;
+
+  /** 本地重新执行得到的状态根 */
+  stateRoot: BlockHash;
+
+  /** 副本起点的受信检查点高度（从创世起追块时缺省） */
+  checkpointHeight?: number;
+
+  /** 创世区块头时间（预挖释放计划的起点；较早的副本元数据没有该字段） */
+  genesisTime?: Timestamp;
+
+  /** 签署该高度区块的验证者公钥（下一区块的奖励分配对象） */
+  lastCommitSigners?: HexString[];
+
+  /** 最近一次同步时间 */
+  lastSyncedAt: Timestamp;
+
+  /** 与链不一致时停止同步的原因（需重置副本） */
+  haltedReason?: string;
+}
+
+/**
+ * 验证者最近签名的区块（防双签）
+ */
+export interface LastSignedRecord {
+  height: number;
+
+  /** 签名时的轮次（较早的记录没有该字段，视为第 0 轮） */
+  round?: number;
+
+  blockHash: BlockHash;
+  signedAt: Timestamp;
+}
+
+/**
+ * 副本追块结果
+ */
+export interface ReplicaSyncResult {
+  /** 同步后的高度 */
+  height: number;
+
+  /** 本次执行的区块数 */
+  applied: number;
+
+  /** 是否已追上 Coordinator 的最新区块 */
+  caughtUp: boolean;
+
+  error?: string;
+}
+
 /**
  * 待处理队列状态（DO 存储）
  */
@@ -310,6 +766,112 @@ export interface PendingQueue {
 
   /** 处理开始时间 */
   processingStartedAt?: Timestamp;
+
+  /** 持有锁的提议者所在轮次（轮次推进后旧锁作废） */
+  processingRound?: number;
+
+  /** 当前高度的视图（首次尝试出块时开始计时） */
+  view?: ProposerViewState;
+}
+
+/**
+ * 提议者视图：某高度首次尝试出块的时间，轮次由此推算
+ */
+export interface ProposerViewState {
+  height: number;
+  startedAt: Timestamp;
+}
+
+/**
+ * 当前视图（高度、轮次与被调度的提议者）
+ */
+export interface ProposerView extends ProposerViewState {
+  round: number;
+  proposer: string;
+}
+
+/**
+ * Pending Queue 锁状态（DO 中单独存储为 `queue`，交易按行存储）
+ */
+export type PendingQueueState = Omit<PendingQueue, 'transactions'>;
+
+/**
+ * 待处理交易行（`pending:<txHash>`）
+ */
+export interface PendingEntry {
+  tx: Transaction;
+
+  /** 进入队列时间（决定打包顺序） */
+  receivedAt: Timestamp;
+}
+
+/**
+ * 被 Mempool 维护淘汰的交易（`evicted:<height>:<txHash>`）
+ */
+export interface EvictedTransaction {
+  tx: Transaction;
+
+  /** 淘汰原因 */
+  reason: string;
+
+  /** 触发淘汰的区块高度 */
+  height: number;
+
+  evictedAt: Timestamp;
+}
+
+/**
+ * 被同 nonce 交易替换出队列的交易（`replaced:<txHash>`）
+ */
+export interface ReplacedTransaction {
+  tx: Transaction;
+
+  /** 替换它的交易哈希 */
+  replacedBy: TxHash;
+
+  replacedAt: Timestamp;
+}
+
+/**
+ * 双签证据中的一票：验证者对某个区块的签名（附区块头以证明高度）
+ */
+export interface EquivocationVote {
+  header: BlockHeader;
+  blockHash: BlockHash;
+  signature: Signature;
+}
+
+/**
+ * 双签证据：同一验证者在同一高度、同一轮次对两个不同区块的签名
+ */
+export interface EquivocationEvidence {
+  validatorPubKey: HexString;
+  voteA: EquivocationVote;
+  voteB: EquivocationVote;
+}
+
+/**
+ * 对作恶验证者的处罚
+ * removed - 移出 consensusConfig.validators
+ */
+export type EvidencePenalty = 'removed';
+
+/**
+ * 已验证的双签证据（`evidence:<height>:<validatorPubKey>`）
+ */
+export interface EvidenceRecord extends EquivocationEvidence {
+  /** 验证者节点 ID（创世配置中有登记时） */
+  validatorId?: string;
+
+  /** 双签高度 */
+  height: number;
+
+  penalty: EvidencePenalty;
+
+  /** 处罚后的所需签名数 */
+  requiredSignatures: number;
+
+  submittedAt: Timestamp;
 }
 
 // ============================================
@@ -317,7 +879,8 @@ export interface PendingQueue {
 // ============================================
 
 /**
- * ConsensusCoordinator 状态
+ * ConsensusCoordinator 完整状态快照
+ * 旧版存储布局（单个 `state` key），现仅用于迁移与 IPFS 备份/恢复
  */
 export interface ConsensusCoordinatorState {
   worldState: WorldState;
@@ -325,6 +888,17 @@ export interface ConsensusCoordinatorState {
   blockHistory: Record<number, Block>;
   consensusConfig: ConsensusConfig;
   lastBackupTime?: number; // 上次成功备份到 IPFS 的时间
+  /** 质押状态（较早的备份没有该字段） */
+  staking?: StakingSnapshot;
+}
+
+/**
+ * 快照中的质押状态（按 DO 存储 key 中地址部分索引）
+ */
+export interface StakingSnapshot {
+  validators: Record<Address, ValidatorStakeState>;
+  /** key 为 `<delegator>:<validator>` */
+  delegations: Record<string, DelegationState>;
 }
 
 /**
@@ -336,6 +910,7 @@ export interface StateQueryResponse {
   processing: boolean;
   consensusState: ConsensusState;
   validators: string[]; // Added validators (public keys)
+  validatorSet: ValidatorSet;
 }
 
 /**
@@ -373,11 +948,33 @@ export interface NetworkStatusResponse {
   pendingTransactions: number;
   totalTransactions: number;
   validators: string[];
+  validatorSet?: ValidatorSet;
+  /** 手续费参数（最小单位，十进制字符串）：手续费 = gasPrice × gasLimit */
+  minGasPrice: string;
+  maxGasLimit: string;
   uptime: number;
   lastUpdated?: number;
   lastError?: string;
 }
 
+/**
+ * 代币供应量响应（`/supply`，最小单位十进制字符串）
+ */
+export interface SupplyResponse {
+  /** 统计截至的区块高度 */
+  height: number;
+  initialSupply: string;
+  /** 已铸造的区块奖励 */
+  minted: string;
+  /** initialSupply + minted */
+  totalSupply: string;
+  /** 下一区块的奖励 */
+  blockReward: string;
+  halvingInterval: number;
+  /** 下一次减半的高度 */
+  nextHalving: number;
+}
+
 /**
  * 账户查询响应
  */
@@ -388,6 +985,121 @@ export interface AccountQueryResponse {
   pendingNonce: number;
 }
 
+/**
+ * 验证者质押信息（`/validators`，最小单位十进制字符串）
+ */
+export interface ValidatorInfo {
+  id: string;
+  address: Address;
+  publicKey: HexString;
+  /** 验证者对委托人奖励的抽成比例（%） */
+  commission: number;
+  /** 创世质押（不可解除） */
+  genesisStake: string;
+  /** 委托总量（含自抵押） */
+  delegated: string;
+  /** 已绑定的质押：genesisStake + delegated */
+  bonded: string;
+  /** 当前投票权重（不加权时为 1） */
+  votingPower: string;
+  /** 是否在当前验证者集合中（双签后被移出） */
+  active: boolean;
+}
+
+export interface ValidatorsResponse {
+  height: number;
+  stakeWeighted: boolean;
+  unbondingBlocks: number;
+
+  /** 提交下一区块的验证者集合哈希（下一区块头的 validatorSetHash） */
+  validatorSetHash: HexString;
+
+  validators: ValidatorInfo[];
+}
+
+/**
+ * 账户质押查询响应（`/account/:address/stake`，最小单位十进制字符串）
+ */
+export interface AccountStakeResponse {
+  address: Address;
+  height: number;
+  delegations: Array<{
+    validator: Address;
+    amount: string;
+    /** 待领取奖励（含未结算部分） */
+    rewards: string;
+    unbonding: Array<{ amount: string; releaseHeight: number }>;
+    /** 下一区块 claim 可取回的数量：奖励 + 已到期的解绑 */
+    claimable: string;
+  }>;
+  totalBonded: string;
+  totalUnbonding: string;
+  totalRewards: string;
+}
+
+/**
+ * 账户锁仓查询响应（`/account/:address/vesting`，最小单位十进制字符串）
+ */
+export interface AccountVestingResponse {
+  address: Address;
+  /** 释放进度的计算时间 */
+  timestamp: Timestamp;
+  balance: string;
+  /** 预挖分配总量 */
+  total: string;
+  /** 仍锁定的数量 */
+  locked: string;
+  /** 已释放的数量 */
+  unlocked: string;
+  /** 当前可转出的余额：balance - locked（不小于 0） */
+  spendable: string;
+  schedules: VestingSchedule[];
+}
+
+/**
+ * 历史账户查询响应（`/account/:addr?height=`）
+ */
+export interface AccountAtHeightResponse {
+  address: Address;
+  height: number;
+  balance: string;
+  nonce: number;
+}
+
+/**
+ * 某状态根下的一页叶子：账户的余额与 nonce、验证者质押与委托（副本从受信检查点起追块时使用）
+ * 按叶子 key 升序分页，next 为下一页的 after（没有更多叶子时缺省）
+ */
+export interface StateLeavesResponse {
+  root: HexString;
+  accounts: Record<Address, { balance: string; nonce: number }>;
+  staking: StakingSnapshot;
+  next?: HexString;
+}
+
+/**
+ * 余额历史中的一个点（账户在 height 执行后的值）
+ */
+export interface AccountBalancePoint {
+  height: number;
+  balance: string;
+  nonce: number;
+  timestamp: Timestamp;
+}
+
+/**
+ * 余额历史响应（`/account/:addr/history`）
+ */
+export interface AccountBalanceHistory {
+  address: Address;
+
+  /** 按高度升序，只包含账户发生变化的区块 */
+  points: AccountBalancePoint[];
+
+  /** 历史从该高度起完整，更早的余额无法查询 */
+  historyStart: number;
+}
+
 // ============================================
 // 加密相关类型
 // ============================================
@@ -496,6 +1208,8 @@ export interface ApiEnv {
   PROPOSER_URL: string;
   FAUCET_KEY: string;
   PROPOSER_SERVICE?: Fetcher;
+  /** 第二提议者（轮换出块与 view change 接管） */
+  PROPOSER_2_SERVICE?: Fetcher;
   // 备份相关 [NEW]
   PINATA_JWT?: string;
   BACKUP_ENCRYPTION_KEY?: string; // AES-256 密钥
@@ -515,6 +1229,8 @@ export interface ProposerEnv {
   CONSENSUS_TIMEOUT_MS: string;
   ALARM_TIMEOUT_MS: string;
   PROPOSER_PRIVATE_KEY: string;
+  CHAIN_ID: string;
+  NETWORK_ID: string;
   VALIDATOR_1_SERVICE?: Fetcher;
   VALIDATOR_2_SERVICE?: Fetcher;
 }
@@ -529,4 +1245,9 @@ export interface ValidatorEnv {
   NODE_ID: string;
   VALIDATOR_INDEX: string;
   VALIDATOR_PRIVATE_KEY: string;
+  CONSENSUS_TIMEOUT_MS: string;
+  CHAIN_ID: string;
+  NETWORK_ID: string;
+  /** 本验证者独立的状态副本 */
+  VALIDATOR_REPLICA: DurableObjectNamespace;
 }
@@ -46,12 +46,30 @@ export interface GenesisConfig {
   /** 创世验证者 */
   validators: GenesisValidator[];
 
+  /** 授权的区块提议者 */
+  proposers: GenesisProposer[];
+
+  /** 法定人数是否按验证者质押加权 */
+  stakeWeightedQuorum: boolean;
+
+  /** 解除质押后的解绑期（区块数） */
+  unbondingBlocks: number;
+
+  /** 自该高度起只接受含链标识的版本化签名载荷（交易、投票与提议） */
+  signatureActivationHeight: number;
+
+  /** 验证者状态副本的受信起点（缺省时从创世重新执行；状态树上线前的区块头 stateRoot 无法重算） */
+  stateCheckpoint?: StateCheckpoint;
+
   /** 最低 Gas 价格 */
   minGasPrice: string;
 
   /** 最大 Gas 限制 */
   maxGasLimit: string;
 
+  /** 替换同 nonce 待处理交易所需的 Gas 价格涨幅（百分比） */
+  replacementFeeBump: number;
+
   /** 治理参数 */
   governance: GovernanceConfig;
 }
@@ -69,8 +87,11 @@ export interface PremineAllocation {
   /** 描述 */
   description: string;
 
-  /** 锁仓月数（0表示立即释放） */
+  /** 线性释放月数（0表示 cliff 结束时一次性释放） */
   vestingMonths: number;
+
+  /** 锁定期月数（从创世时间起算，期间全部锁定；缺省为 0） */
+  cliffMonths?: number;
 }
 
 /**
@@ -86,13 +107,39 @@ export interface GenesisValidator {
   /** 地址 */
   address: Address;
 
-  /** 质押数量 */
+  /** 创世质押数量（计入投票权重与奖励分配，不能解除） */
   stake: string;
 
-  /** 佣金比例（%） */
+  /** 佣金比例（%）：验证者从其奖励份额中先行抽取，其余再按已绑定质押分给委托人 */
   commission: number;
 }
 
+/**
+ * 授权的区块提议者
+ */
+export interface GenesisProposer {
+  /** 节点 ID（与区块头 proposer 字段一致） */
+  id: string;
+
+  /** 公钥（用于验证 proposerSignature） */
+  publicKey: HexString;
+}
+
+/**
+ * 状态副本的受信检查点
+ * 该高度及之前的区块头 stateRoot 为旧版整体哈希，副本从这里的状态树起追块
+ */
+export interface StateCheckpoint {
+  /** 检查点高度（通常为状态树上线时的最新高度） */
+  height: number;
+
+  /** 该高度的区块哈希 */
+  blockHash: HexString;
+
+  /** 该高度执行后的状态树根（即下一区块执行前的根，见 /block/:height/diff 的 stateRootBefore） */
+  stateRoot: HexString;
+}
+
 /**
  * 治理配置
  */
@@ -160,7 +207,7 @@ export interface StakeInfo {
 }
 
 /**
- * 释放计划
+ * 释放计划（由预挖分配推导，见 buildVestingSchedule）
  */
 export interface VestingSchedule {
   /** 受益地址 */
@@ -169,16 +216,19 @@ export interface VestingSchedule {
   /** 总数量 */
   totalAmount: string;
 
-  /** 已释放数量 */
+  /** 已释放数量（截至查询时间） */
   releasedAmount: string;
 
-  /** 开始时间 */
+  /** 开始时间（创世时间） */
   startTime: number;
 
-  /** 结束时间 */
+  /** 锁定期结束、开始线性释放的时间 */
+  cliffEndTime: number;
+
+  /** 结束时间（全部释放） */
   endTime: number;
 
-  /** 释放周期（月） */
+  /** 锁定期（月） */
   cliffMonths: number;
 
   /** 线性释放月数 */
@@ -23,11 +23,29 @@ import type {
   SubmitTransactionResponse,
   ApiResponse,
   NetworkStatusResponse,
+  SupplyResponse,
   AccountQueryResponse,
+  AccountVestingResponse,
+  AccountStakeResponse,
+  BlockQueryResponse,
+  ValidatorsResponse,
   TransactionReceipt,
+  AccountTransactionsPage,
+  TransactionProofResponse,
+  AccountProofResponse,
+  AccountAtHeightResponse,
+  AccountBalanceHistory,
+  BlockStateDiff,
+  CommitCertificate,
+  HeadersResponse,
+  EvictedTransaction,
+  EquivocationEvidence,
+  EvidenceRecord,
+  ValidatorSet,
   ApiEnv,
   Address,
   HexString,
+  TxHash,
   StateQueryResponse,
 } from '../types';
 
@@ -42,8 +60,20 @@ import {
   addHexPrefix,
   generateRandomPrivateKey,
   getTestKeyPair,
+  SIGNATURE_VERSION,
 } from '../crypto';
 
+import {
+  getSigningDomain,
+  loadFeeConfig,
+  loadGenesisConfig,
+  calculateBlockReward,
+  calculateTotalSupply,
+  getVestingSchedules,
+} from '../durable-objects/genesis';
+import { DEFAULT_GAS_LIMIT } from '../execution';
+import { TRANSACTION_ACTIONS, isStakingAction } from '../staking';
+
 // ============================================
 // CORS 响应头
 // ============================================
@@ -81,6 +111,12 @@ export default {
         return handleSubmitTransaction(request, env, requestId);
       }
 
+      // 查询交易默克尔证明
+      if (path.startsWith('/tx/') && path.endsWith('/proof') && request.method === 'GET') {
+        const txHash = path.split('/')[2]; // /tx/:hash/proof
+        return handleQueryTransactionProof(txHash, env, requestId);
+      }
+
       // 查询交易
       if (path.startsWith('/tx/') && request.method === 'GET') {
         const txHash = path.split('/')[2];
@@ -91,7 +127,31 @@ export default {
       if (path.startsWith('/account/') && path.endsWith('/txs') && request.method === 'GET') {
         const parts = path.split('/'); // /account/:address/txs
         const address = parts[2];
-        return handleQueryAccountTransactions(address, env, requestId);
+        return handleQueryAccountTransactions(address, url.searchParams, env, requestId);
+      }
+
+      // 查询账户状态证明（?height= 指定历史区块）
+      if (path.startsWith('/account/') && path.endsWith('/proof') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/proof
+        return handleQueryAccountProof(address, url.searchParams.get('height'), env, requestId);
+      }
+
+      // 查询账户余额历史
+      if (path.startsWith('/account/') && path.endsWith('/history') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/history
+        return handleQueryAccountHistory(address, url.searchParams, env, requestId);
+      }
+
+      // 查询账户预挖锁仓
+      if (path.startsWith('/account/') && path.endsWith('/vesting') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/vesting
+        return handleQueryAccountVesting(address, env, requestId);
+      }
+
+      // 查询账户质押与委托
+      if (path.startsWith('/account/') && path.endsWith('/stake') && request.method === 'GET') {
+        const address = path.split('/')[2]; // /account/:address/stake
+        return handleQueryAccountStake(address, env, requestId);
       }
 
       // 查询账户 (Fallback if matches /account/:address only)
@@ -100,10 +160,31 @@ export default {
         const parts = path.split('/');
         if (parts.length === 3) {
           const address = parts[2];
+          const height = url.searchParams.get('height');
+          if (height !== null) {
+            return handleQueryAccountAtHeight(address, height, env, requestId);
+          }
           return handleQueryAccount(address, env, requestId);
         }
       }
 
+      // 查询区块状态差异
+      if (path.startsWith('/block/') && path.endsWith('/diff') && request.method === 'GET') {
+        const height = path.split('/')[2]; // /block/:height/diff
+        return handleQueryBlockDiff(height, env, requestId);
+      }
+
+      // 查询区块提交证书
+      if (path.startsWith('/block/') && path.endsWith('/commit') && request.method === 'GET') {
+        const height = path.split('/')[2]; // /block/:height/commit
+        return handleQueryCommitCertificate(height, env, requestId);
+      }
+
+      // 查询区块头区间及提交证书（轻客户端同步）
+      if (path === '/headers' && request.method === 'GET') {
+        return handleQueryHeaders(url.searchParams.get('from'), url.searchParams.get('to'), env, requestId);
+      }
+
       // 查询区块
       if (path.startsWith('/block/') && request.method === 'GET') {
         const heightOrHash = path.split('/')[2];
@@ -127,11 +208,36 @@ export default {
         return handleInitGenesis(request, env, requestId);
       }
 
+      // 被淘汰的待处理交易
+      if (path === '/mempool/evicted' && request.method === 'GET') {
+        return handleMempoolEvicted(url.searchParams.get('limit'), env, requestId);
+      }
+
+      // 提交双签证据
+      if (path === '/evidence' && request.method === 'POST') {
+        return handleSubmitEvidence(request, env, requestId);
+      }
+
+      // 双签证据列表
+      if (path === '/evidence' && request.method === 'GET') {
+        return handleListEvidence(url.searchParams.get('limit'), env, requestId);
+      }
+
       // 网络状态
       if (path === '/status' && request.method === 'GET') {
         return handleNetworkStatus(env, requestId);
       }
 
+      // 验证者质押与投票权重
+      if (path === '/validators' && request.method === 'GET') {
+        return handleQueryValidators(env, requestId);
+      }
+
+      // 代币供应量（初始供应量 + 按减半周期铸造的区块奖励）
+      if (path === '/supply' && request.method === 'GET') {
+        return handleSupply(env, requestId);
+      }
+
       // 获取备份列表 (Admin)
       if (path === '/admin/backup-list' && request.method === 'GET') {
         return handleBackupList(env, requestId);
@@ -208,6 +314,34 @@ async function handleSubmitTransaction(
     }, 400);
   }
 
+  // Gas 参数：缺省为 minGasPrice / 21000；旧版载荷不签名 Gas 参数，始终使用缺省值
+  if ((body.gasPrice !== undefined && !/^\d+$/.test(body.gasPrice)) ||
+    (body.gasLimit !== undefined && !/^\d+$/.test(body.gasLimit))) {
+    return jsonResponse({
+      success: false,
+      error: 'Invalid gasPrice / gasLimit (expected decimal strings)',
+      requestId,
+    }, 400);
+  }
+  const { minGasPrice } = await loadFeeConfig(env.CONFIG_KV);
+  const signedGas = !!body.signatureVersion;
+
+  // 交易类型：缺省为转账；旧版载荷不签名 action，质押操作必须使用版本化签名
+  if (body.action !== undefined && !TRANSACTION_ACTIONS.includes(body.action)) {
+    return jsonResponse({
+      success: false,
+      error: `Invalid action: ${body.action}. Expected one of: ${TRANSACTION_ACTIONS.join(', ')}`,
+      requestId,
+    }, 400);
+  }
+  if (isStakingAction(body.action) && !signedGas) {
+    return jsonResponse({
+      success: false,
+      error: `Staking transactions must be signed with signatureVersion ${SIGNATURE_VERSION}`,
+      requestId,
+    }, 400);
+  }
+
   // 构建交易对象
   const tx: Transaction = {
     hash: '', // 稍后计算
@@ -216,11 +350,15 @@ async function handleSubmitTransaction(
     amount: BigInt(body.amount || '0'),
     nonce: body.nonce,
     timestamp: body.timestamp || Date.now(),
-    gasPrice: BigInt(0),
-    gasLimit: BigInt(21000),
+    gasPrice: signedGas && body.gasPrice !== undefined ? BigInt(body.gasPrice) : minGasPrice,
+    gasLimit: signedGas && body.gasLimit !== undefined ? BigInt(body.gasLimit) : DEFAULT_GAS_LIMIT,
     signature: body.signature,
     publicKey: body.publicKey,
+    signatureVersion: body.signatureVersion,
   };
+  if (isStakingAction(body.action)) {
+    tx.action = body.action;
+  }
 
   // 计算交易哈希
   tx.hash = await hashTransaction({
@@ -232,18 +370,24 @@ async function handleSubmitTransaction(
     timestamp: tx.timestamp,
     gasPrice: tx.gasPrice.toString(),
     gasLimit: tx.gasLimit.toString(),
+    action: tx.action,
   });
 
   // 2. 验证签名（防篡改 + 防抵赖）
-  // 验证 (from, to, amount, nonce, timestamp) 是否由 publicKey 签名
+  // 验证 (from, to, amount, nonce, timestamp) 是否由 publicKey 签名；
+  // 版本化载荷还绑定 gasPrice / gasLimit 与本链的 CHAIN_ID / NETWORK_ID（旧版载荷在激活高度后由 DO 拒绝）
   const isValidSignature = await verifyTransactionSignature({
     from: tx.from,
     to: tx.to,
     amount: tx.amount.toString(),
     nonce: tx.nonce,
     timestamp: tx.timestamp,
+    gasPrice: tx.gasPrice.toString(),
+    gasLimit: tx.gasLimit.toString(),
+    action: tx.action,
     signature: tx.signature,
-  }, tx.publicKey);
+    signatureVersion: tx.signatureVersion,
+  }, tx.publicKey, getSigningDomain(env));
 
   if (!isValidSignature) {
     return jsonResponse({
@@ -277,6 +421,9 @@ async function handleSubmitTransaction(
   }
 
   console.log('[API] Transaction added to queue:', tx.hash);
+  if (addResult.replacedTxHash) {
+    console.log('[API] Replaced pending transaction:', addResult.replacedTxHash);
+  }
 
   // 立即触发 Proposer（事件驱动关键）
   // 使用 waitUntil 确保触发在后台执行，不阻塞响应
@@ -299,6 +446,7 @@ async function handleSubmitTransaction(
   const response: SubmitTransactionResponse = {
     success: true,
     txHash: tx.hash,
+    replacedTxHash: addResult.replacedTxHash,
     blockHeight: undefined, // 尚未确认
     estimatedConfirmationTime: 3000, // 预估 3 秒
   };
@@ -348,6 +496,68 @@ async function handleQueryTransaction(
   });
 }
 
+async function handleQueryAccountProof(
+  address: Address,
+  height: string | null,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (height !== null && !/^\d+$/.test(height)) {
+    return jsonResponse({ success: false, error: 'Invalid height', requestId }, 400);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const query = height !== null ? `?height=${height}` : '';
+  const response = await doStub.fetch(`http://do/account/${address.toLowerCase()}/proof${query}`, {
+    method: 'GET',
+  });
+  const result = await response.json() as AccountProofResponse & { error?: string };
+
+  if (!response.ok || result.error) {
+    return jsonResponse({
+      success: false,
+      error: result.error || 'Proof not available',
+      requestId,
+    }, response.status === 200 ? 404 : response.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: result,
+    requestId,
+  });
+}
+
+async function handleQueryTransactionProof(
+  txHash: HexString,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const response = await doStub.fetch(`http://do/tx/${txHash}/proof`, {
+    method: 'GET',
+  });
+  const result = await response.json() as TransactionProofResponse & { error?: string };
+
+  if (!response.ok || result.error) {
+    return jsonResponse({
+      success: false,
+      error: result.error || 'Proof not available',
+      requestId,
+    }, response.status === 200 ? 404 : response.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: result,
+    requestId,
+  });
+}
+
 async function handleQueryAccount(
   address: Address,
   env: ApiEnv,
@@ -373,6 +583,238 @@ async function handleQueryAccount(
   });
 }
 
+// 释放进度按当前时间计算；转账时按区块头时间执行同样的检查
+async function handleQueryAccountVesting(
+  address: Address,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const account = await queryAccount(doStub, address.toLowerCase());
+  const config = await loadGenesisConfig(env.CONFIG_KV);
+  // 释放计划从创世区块头时间起算（initGenesis 可能覆盖配置中的 genesisTime）
+  const genesis = await queryBlockByHeight(doStub, 0) as BlockQueryResponse | null;
+  const genesisTime = genesis?.block?.header.timestamp ?? config.genesisTime;
+  const timestamp = Date.now();
+  const schedules = getVestingSchedules(config, genesisTime, address, timestamp);
+
+  const total = schedules.reduce((sum, s) => sum + BigInt(s.totalAmount), BigInt(0));
+  const unlocked = schedules.reduce((sum, s) => sum + BigInt(s.releasedAmount), BigInt(0));
+  const locked = total - unlocked;
+
+  const response: AccountVestingResponse = {
+    address: address.toLowerCase(),
+    timestamp,
+    balance: account.balance.toString(),
+    total: total.toString(),
+    locked: locked.toString(),
+    unlocked: unlocked.toString(),
+    spendable: (account.balance > locked ? account.balance - locked : BigInt(0)).toString(),
+    schedules,
+  };
+
+  return jsonResponse({
+    success: true,
+    data: response,
+    requestId,
+  });
+}
+
+async function handleQueryAccountStake(
+  address: Address,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (!isValidAddress(address)) {
+    return jsonResponse({ success: false, error: 'Invalid address format', requestId }, 400);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const response = await doStub.fetch(`http://do/account/${address.toLowerCase()}/stake`, { method: 'GET' });
+  if (!response.ok) {
+    return jsonResponse({ success: false, error: `DO failed: ${response.status}`, requestId }, 500);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: await response.json() as AccountStakeResponse,
+    requestId,
+  });
+}
+
+async function handleQueryAccountAtHeight(
+  address: Address,
+  height: string,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (!/^\d+$/.test(height)) {
+    return jsonResponse({ success: false, error: 'Invalid height', requestId }, 400);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const response = await doStub.fetch(`http://do/account/${address.toLowerCase()}?height=${height}`, {
+    method: 'GET',
+  });
+  const result = await response.json() as AccountAtHeightResponse & { error?: string };
+
+  if (!response.ok || result.error) {
+    return jsonResponse({
+      success: false,
+      error: result.error || 'Account state not available',
+      requestId,
+    }, response.status === 200 ? 404 : response.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: result,
+    requestId,
+  });
+}
+
+// 支持 ?fromHeight=&toHeight=&limit=
+async function handleQueryAccountHistory(
+  address: Address,
+  searchParams: URLSearchParams,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  const query = new URLSearchParams();
+  for (const key of ['fromHeight', 'toHeight', 'limit']) {
+    const value = searchParams.get(key);
+    if (value === null || value === '') continue;
+    if (!/^\d+$/.test(value)) {
+      return jsonResponse({ success: false, error: `Invalid ${key}`, requestId }, 400);
+    }
+    query.set(key, value);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const qs = query.toString();
+  const response = await doStub.fetch(`http://do/account/${address.toLowerCase()}/history${qs ? `?${qs}` : ''}`, {
+    method: 'GET',
+  });
+  if (!response.ok) {
+    return jsonResponse({ success: false, error: `DO failed: ${response.status}`, requestId }, 500);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: await response.json() as AccountBalanceHistory,
+    requestId,
+  });
+}
+
+async function handleQueryBlockDiff(
+  height: string,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (!/^\d+$/.test(height)) {
+    return jsonResponse({ success: false, error: 'Invalid height', requestId }, 400);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const response = await doStub.fetch(`http://do/block/${height}/diff`, {
+    method: 'GET',
+  });
+  const result = await response.json() as BlockStateDiff & { error?: string };
+
+  if (!response.ok || result.error) {
+    return jsonResponse({
+      success: false,
+      error: result.error || 'State diff not available',
+      requestId,
+    }, response.status === 200 ? 404 : response.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: result,
+    requestId,
+  });
+}
+
+async function handleQueryCommitCertificate(
+  height: string,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (!/^\d+$/.test(height)) {
+    return jsonResponse({ success: false, error: 'Invalid height', requestId }, 400);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const response = await doStub.fetch(`http://do/block/${height}/commit`, {
+    method: 'GET',
+  });
+  const result = await response.json() as CommitCertificate & { error?: string };
+
+  if (!response.ok || result.error) {
+    return jsonResponse({
+      success: false,
+      error: result.error || 'Commit certificate not available',
+      requestId,
+    }, response.status === 200 ? 404 : response.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: result,
+    requestId,
+  });
+}
+
+async function handleQueryHeaders(
+  from: string | null,
+  to: string | null,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (from === null || !/^\d+$/.test(from) || (to !== null && !/^\d+$/.test(to))) {
+    return jsonResponse({ success: false, error: 'Invalid height range', requestId }, 400);
+  }
+  if (to !== null && parseInt(to) < parseInt(from)) {
+    return jsonResponse({ success: false, error: 'Invalid height range: to < from', requestId }, 400);
+  }
+
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const query = to === null ? `from=${from}` : `from=${from}&to=${to}`;
+  const response = await doStub.fetch(`http://do/headers?${query}`, {
+    method: 'GET',
+  });
+  const result = await response.json() as HeadersResponse & { error?: string };
+
+  if (!response.ok || result.error) {
+    return jsonResponse({
+      success: false,
+      error: result.error || 'Headers not available',
+      requestId,
+    }, response.status === 200 ? 404 : response.status);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: result,
+    requestId,
+  });
+}
+
 async function handleQueryBlock(
   heightOrHash: string,
   env: ApiEnv,
@@ -464,6 +906,7 @@ async function handleNetworkStatus(
     const doStub = env.CONSENSUS_COORDINATOR.get(doId);
 
     const state = await queryState(doStub);
+    const fees = await loadFeeConfig(env.CONFIG_KV);
 
     const response: NetworkStatusResponse = {
       networkId: env.NETWORK_ID || 'unknown',
@@ -473,6 +916,9 @@ async function handleNetworkStatus(
       pendingTransactions: state?.pendingCount || 0,
       totalTransactions: state?.worldState?.totalTransactions || 0,
       validators: state.validators || [],
+      validatorSet: state.validatorSet,
+      minGasPrice: fees.minGasPrice.toString(),
+      maxGasLimit: fees.maxGasLimit.toString(),
       uptime: Math.floor((Date.now() - (state?.worldState?.lastUpdated || 0)) / 1000),
       lastError: state?.worldState?.lastProposerError
     };
@@ -492,6 +938,56 @@ async function handleNetworkStatus(
   }
 }
 
+async function handleQueryValidators(
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const response = await doStub.fetch('http://do/validators', { method: 'GET' });
+  if (!response.ok) {
+    return jsonResponse({ success: false, error: `DO failed: ${response.status}`, requestId }, 500);
+  }
+
+  return jsonResponse({
+    success: true,
+    data: await response.json() as ValidatorsResponse,
+    requestId,
+  });
+}
+
+async function handleSupply(
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+  const doStub = env.CONSENSUS_COORDINATOR.get(doId);
+
+  const { height } = await queryLatestBlock(doStub);
+  const config = await loadGenesisConfig(env.CONFIG_KV);
+
+  const initialSupply = BigInt(config.initialSupply);
+  const totalSupply = calculateTotalSupply(height, config);
+  const halvingInterval = config.halvingInterval;
+
+  const response: SupplyResponse = {
+    height,
+    initialSupply: initialSupply.toString(),
+    minted: (totalSupply - initialSupply).toString(),
+    totalSupply: totalSupply.toString(),
+    blockReward: calculateBlockReward(height + 1, config).toString(),
+    halvingInterval,
+    nextHalving: halvingInterval > 0 ? (Math.floor(height / halvingInterval) + 1) * halvingInterval : 0,
+  };
+
+  return jsonResponse({
+    success: true,
+    data: response,
+    requestId,
+  });
+}
+
 // ============================================
 // 测试水龙头
 // ============================================
@@ -571,15 +1067,21 @@ async function handleFaucet(
     const faucetAccount = await queryAccount(doStub, faucetAddr);
     console.log('[Faucet] Account State:', { address: faucetAddr, balance: faucetAccount.balance.toString(), nonce: faucetAccount.nonce });
 
+    // 排在水龙头已排队的交易之后，连续请求不必等待上一笔确认
+    const faucetNonce = await getPendingNonce(doStub, faucetAddr);
+
+    const { minGasPrice } = await loadFeeConfig(env.CONFIG_KV);
     const txData = {
       from: faucetAddr,
       to: body.address.toLowerCase(),
       amount: amountWei.toString(),
-      nonce: faucetAccount.nonce,
+      nonce: faucetNonce,
       timestamp, // Fix: Added timestamp
+      gasPrice: minGasPrice.toString(),
+      gasLimit: DEFAULT_GAS_LIMIT.toString(),
     };
 
-    const signature = await signTransaction(txData, faucetKey.privateKey);
+    const signature = await signTransaction(txData, faucetKey.privateKey, getSigningDomain(env));
 
     // 构建完整交易
     const tx: Transaction = {
@@ -590,9 +1092,10 @@ async function handleFaucet(
       nonce: txData.nonce,
       publicKey: faucetKey.publicKey,
       timestamp: txData.timestamp,
-      gasPrice: BigInt(0),
-      gasLimit: BigInt(21000),
+      gasPrice: BigInt(txData.gasPrice),
+      gasLimit: BigInt(txData.gasLimit),
       signature,
+      signatureVersion: SIGNATURE_VERSION,
     };
 
     tx.hash = await hashTransaction({
@@ -660,14 +1163,14 @@ async function handleFaucet(
 async function addTransactionToQueue(
   doStub: DurableObjectStub,
   tx: Transaction
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; replacedTxHash?: TxHash }> {
   const response = await doStub.fetch('http://do/internal/add-tx', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(tx, (_, v) => typeof v === 'bigint' ? v.toString() : v),
   });
 
-  return response.json() as Promise<{ success: boolean; error?: string }>;
+  return response.json() as Promise<{ success: boolean; error?: string; replacedTxHash?: TxHash }>;
 }
 
 async function queryTransaction(
@@ -703,26 +1206,46 @@ async function queryAccount(
 }
 
 // [NEW] Query Account Transactions Handler
+// 支持 ?direction=all|sent|received&fromHeight=&toHeight=&cursor=&limit=
 async function handleQueryAccountTransactions(
   address: string,
+  searchParams: URLSearchParams,
   env: ApiEnv,
   requestId: string
 ): Promise<Response> {
   const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
   const doStub = env.CONSENSUS_COORDINATOR.get(doId);
 
+  // 只透传已知参数，数字参数必须为非负整数
+  const query = new URLSearchParams();
+  for (const key of ['direction', 'fromHeight', 'toHeight', 'cursor', 'limit']) {
+    const value = searchParams.get(key);
+    if (value === null || value === '') continue;
+    if (key !== 'direction' && key !== 'cursor' && !/^\d+$/.test(value)) {
+      return jsonResponse({ success: false, error: `Invalid ${key}`, requestId }, 400);
+    }
+    query.set(key, value);
+  }
+
   try {
-    const response = await doStub.fetch(`http://do/account/${address}/txs`);
+    const qs = query.toString();
+    const response = await doStub.fetch(`http://do/account/${address.toLowerCase()}/txs${qs ? `?${qs}` : ''}`);
     if (!response.ok) {
+      const err = await response.json().catch(() => ({})) as { error?: string };
+      if (response.status === 400) {
+        return jsonResponse({ success: false, error: err.error || 'Invalid query', requestId }, 400);
+      }
       throw new Error(`DO failed: ${response.status}`);
     }
-    const data = await response.json() as { transactions: TransactionReceipt[] };
+    const data = await response.json() as AccountTransactionsPage;
 
-    // Convert BigInts in transactions for JSON response (though global replacer handles it, we might want to be explicit)
     // The global jsonResponse replacer handles BigInts, so we just pass data.
     return jsonResponse({
       success: true,
-      data: data.transactions,
+      data: {
+        transactions: data.transactions,
+        nextCursor: data.nextCursor,
+      },
       requestId
     });
   } catch (e: any) {
@@ -735,22 +1258,13 @@ async function handleQueryAccountTransactions(
 }
 
 async function getPendingNonce(doStub: DurableObjectStub, address: Address): Promise<number> {
-  // 查询 Pending Queue 中该地址的交易
-  const response = await doStub.fetch('http://do/internal/queue', {
+  // 由 DO 计算：账户 nonce 之后连续排队的交易之后的第一个 nonce（有缺口时返回缺口）
+  const response = await doStub.fetch(`http://do/account/${address}/pending-nonce`, {
     method: 'GET',
   });
 
-  const result = await response.json() as { transactions: Transaction[] };
-
-  // 找到该地址的最大 nonce
-  const addressTxs = result.transactions.filter(tx => tx.from === address);
-  if (addressTxs.length === 0) {
-    const account = await queryAccount(doStub, address);
-    return account.nonce;
-  }
-
-  const maxNonce = Math.max(...addressTxs.map(tx => tx.nonce));
-  return maxNonce + 1;
+  const result = await response.json() as { pendingNonce: number };
+  return result.pendingNonce;
 }
 
 async function queryBlockByHeight(
@@ -789,6 +1303,7 @@ async function queryState(doStub: DurableObjectStub): Promise<{
   };
   pendingCount: number;
   validators: string[];
+  validatorSet?: ValidatorSet;
 }> {
   try {
     const response = await doStub.fetch('http://do/state', {
@@ -814,45 +1329,47 @@ async function queryState(doStub: DurableObjectStub): Promise<{
 async function triggerProposer(env: ApiEnv): Promise<{ triggered: boolean; error?: string }> {
   try {
     const proposerUrl = env.PROPOSER_URL;
-    const proposerService = env.PROPOSER_SERVICE;
+    // 同时触发所有提议者：被调度者立即出块，其余等待各自轮次以便超时后接管
+    const proposerServices = [env.PROPOSER_SERVICE, env.PROPOSER_2_SERVICE]
+      .filter((service): service is Fetcher => !!service);
 
-    if (!proposerService && !proposerUrl) {
+    if (proposerServices.length === 0 && !proposerUrl) {
       return { triggered: false, error: 'Proposer URL/Service not configured' };
     }
 
-    console.log('[API] Triggering Proposer...', { useService: !!proposerService });
+    console.log('[API] Triggering Proposer...', { services: proposerServices.length });
+
+    const init: RequestInit = {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Trigger-Source': 'api-gateway',
+      },
+      body: JSON.stringify({ timestamp: Date.now() }),
+    };
 
-    let response: Response;
-    if (proposerService) {
+    let responses: Response[];
+    if (proposerServices.length > 0) {
       // 使用 Service Binding (更可靠)
-      response = await proposerService.fetch('http://proposer/trigger', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Trigger-Source': 'api-gateway',
-        },
-        body: JSON.stringify({ timestamp: Date.now() }),
-      });
+      responses = await Promise.all(proposerServices.map(service => service.fetch('http://proposer/trigger', init)));
     } else {
       // 退回到公共 URL
-      response = await fetch(`${proposerUrl}/trigger`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Trigger-Source': 'api-gateway',
-        },
-        body: JSON.stringify({ timestamp: Date.now() }),
-      });
+      responses = [await fetch(`${proposerUrl}/trigger`, init)];
     }
 
-    if (!response.ok) {
-      const error = await response.text();
-      console.error('[API] Proposer trigger failed:', error);
-      return { triggered: false, error: `HTTP ${response.status}: ${error}` };
+    const errors: string[] = [];
+    for (const response of responses) {
+      if (response.ok) {
+        console.log('[API] Proposer triggered successfully:', await response.json());
+      } else {
+        errors.push(`HTTP ${response.status}: ${await response.text()}`);
+      }
     }
 
-    const result = await response.json();
-    console.log('[API] Proposer triggered successfully:', result);
+    if (errors.length === responses.length) {
+      console.error('[API] Proposer trigger failed:', errors);
+      return { triggered: false, error: errors.join('; ') };
+    }
 
     return { triggered: true };
 
@@ -926,6 +1443,124 @@ async function handleInitGenesis(
   }
 }
 
+/**
+ * 查询最近被 Mempool 维护淘汰的交易（?limit=，按高度倒序）
+ */
+async function handleMempoolEvicted(
+  limit: string | null,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (limit !== null && !/^\d+$/.test(limit)) {
+    return jsonResponse({ success: false, error: 'Invalid limit', requestId }, 400);
+  }
+
+  try {
+    const id = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+    const stub = env.CONSENSUS_COORDINATOR.get(id);
+
+    const response = await stub.fetch(`http://do/mempool/evicted${limit !== null ? `?limit=${limit}` : ''}`);
+    const result = await response.json() as { evicted: EvictedTransaction[] };
+
+    return jsonResponse({
+      success: true,
+      data: result,
+      requestId,
+    });
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch evicted transactions',
+      requestId,
+    }, 500);
+  }
+}
+
+/**
+ * 提交双签证据（同一验证者在同一高度对两个不同区块的签名）
+ */
+async function handleSubmitEvidence(
+  request: Request,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  let evidence: EquivocationEvidence;
+  try {
+    evidence = await request.json() as EquivocationEvidence;
+  } catch {
+    return jsonResponse({ success: false, error: 'Invalid JSON body', requestId }, 400);
+  }
+
+  if (!evidence?.validatorPubKey || !evidence.voteA || !evidence.voteB) {
+    return jsonResponse({
+      success: false,
+      error: 'Missing required fields: validatorPubKey, voteA, voteB',
+      requestId,
+    }, 400);
+  }
+
+  try {
+    const id = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+    const stub = env.CONSENSUS_COORDINATOR.get(id);
+
+    const response = await stub.fetch('http://do/evidence', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(evidence),
+    });
+    const result = await response.json() as { success: boolean; error?: string; record?: EvidenceRecord };
+
+    if (!result.success) {
+      return jsonResponse({ success: false, error: result.error, requestId }, 400);
+    }
+
+    return jsonResponse({
+      success: true,
+      data: result.record,
+      requestId,
+    });
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to submit evidence',
+      requestId,
+    }, 500);
+  }
+}
+
+/**
+ * 查询双签证据（?limit=，按高度倒序）
+ */
+async function handleListEvidence(
+  limit: string | null,
+  env: ApiEnv,
+  requestId: string
+): Promise<Response> {
+  if (limit !== null && !/^\d+$/.test(limit)) {
+    return jsonResponse({ success: false, error: 'Invalid limit', requestId }, 400);
+  }
+
+  try {
+    const id = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
+    const stub = env.CONSENSUS_COORDINATOR.get(id);
+
+    const response = await stub.fetch(`http://do/evidence${limit !== null ? `?limit=${limit}` : ''}`);
+    const result = await response.json() as { evidence: EvidenceRecord[] };
+
+    return jsonResponse({
+      success: true,
+      data: result,
+      requestId,
+    });
+  } catch (error) {
+    return jsonResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch evidence',
+      requestId,
+    }, 500);
+  }
+}
+
 /**
  * 处理获取备份列表
  */
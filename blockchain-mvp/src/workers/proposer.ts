@@ -12,8 +12,13 @@
  * 5. 并发控制（processing 锁）
  * 
  * 触发方式：
- * - API Worker 提交交易后立即 HTTP POST /internal/trigger
+ * - API Worker 提交交易后立即 HTTP POST /internal/trigger（同时触发所有提议者）
  * - Durable Objects Alarm 兜底唤醒
+ *
+ * 提议者轮换：
+ * - 每个高度按 (height + round) 轮询授权提议者，只有被调度者能获得锁
+ * - 未轮到的提议者等待到自己的轮次再重试；若被调度者在 consensusTimeoutMs 内
+ *   未能出块，轮次推进，由下一位提议者接管（view change）
  */
 
 import type {
@@ -22,6 +27,7 @@ import type {
   ValidatorVote,
   ValidateResponse,
   ProposerEnv,
+  ProposerView,
 } from '../types';
 
 import {
@@ -31,10 +37,15 @@ import {
   addHexPrefix,
 } from '../crypto';
 
+import { getSigningDomain } from '../durable-objects/genesis';
+
 // ============================================
 // 配置
 // ============================================
 
+/** 未轮到时最多等待并重试的次数（每次至多等待一个轮询周期） */
+const MAX_VIEW_CHANGE_RETRIES = 2;
+
 interface ProposerConfig {
   nodeId: string;
   validatorUrls: string[];
@@ -49,7 +60,7 @@ interface ProposerConfig {
 // ============================================
 
 export default {
-  async fetch(request: Request, env: ProposerEnv): Promise<Response> {
+  async fetch(request: Request, env: ProposerEnv, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname.replace(/\/+$/, '') || '/';
 
@@ -78,7 +89,7 @@ export default {
 
     // 核心触发接口：/internal/trigger 或 /trigger
     if ((path === '/internal/trigger' || path === '/trigger') && request.method === 'POST') {
-      return handleTrigger(request, env, config);
+      return handleTrigger(env, config, ctx);
     }
 
     // 查询状态
@@ -102,26 +113,45 @@ export default {
 // ============================================
 
 async function handleTrigger(
-  request: Request,
   env: ProposerEnv,
-  config: ProposerConfig
+  config: ProposerConfig,
+  ctx: ExecutionContext,
+  attempt: number = 0
 ): Promise<Response> {
   const startTime = Date.now();
   const requestId = crypto.randomUUID();
 
   console.log(`[Proposer ${config.nodeId}] Trigger received`, { requestId, time: startTime });
 
+  // 持有锁的轮次（未获得锁时为 undefined）
+  let round: number | undefined;
+
   try {
     // 获取 DO stub
     const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
     const doStub = env.CONSENSUS_COORDINATOR.get(doId);
 
-    // 步骤 1：尝试获取 processing 锁
+    // 步骤 1：尝试获取 processing 锁（仅当前轮次被调度的提议者可获得）
     // 关键：防止并发双花
-    const lockResult = await acquireLock(doStub);
+    const lockResult = await acquireLock(doStub, config.nodeId);
 
     if (!lockResult.success) {
       console.log(`[Proposer ${config.nodeId}] Lock acquisition failed:`, lockResult.error);
+
+      // 未轮到本提议者：等到自己的轮次再试，若届时仍未出块即接管（view change）
+      if (lockResult.retryAfterMs !== undefined && attempt < MAX_VIEW_CHANGE_RETRIES) {
+        ctx.waitUntil(
+          delay(lockResult.retryAfterMs).then(() => handleTrigger(env, config, ctx, attempt + 1))
+        );
+        return Response.json({
+          success: false,
+          error: lockResult.error,
+          view: lockResult.view,
+          retryAfterMs: lockResult.retryAfterMs,
+          requestId,
+        }, { status: 202 });
+      }
+
       return Response.json({
         success: false,
         error: lockResult.error,
@@ -130,14 +160,15 @@ async function handleTrigger(
     }
 
     const queue = lockResult.queue!;
-    console.log(`[Proposer ${config.nodeId}] Lock acquired, queue size:`, queue.transactions.length);
+    round = lockResult.view?.round ?? 0;
+    console.log(`[Proposer ${config.nodeId}] Lock acquired, queue size:`, queue.transactions.length, { round });
 
     // 步骤 2：打包区块
-    const packResult = await packBlock(doStub, config.nodeId);
+    const packResult = await packBlock(doStub, config.nodeId, round);
 
     if (!packResult.success) {
       // 打包失败，释放锁
-      await releaseLock(doStub, false);
+      await releaseLock(doStub, false, round);
       return Response.json({
         success: false,
         error: packResult.error,
@@ -148,11 +179,12 @@ async function handleTrigger(
     const block = packResult.block!;
     console.log(`[Proposer ${config.nodeId}] Block packed:`, {
       height: block.header.height,
+      round,
       txCount: block.transactions.length,
     });
 
     // 步骤 3：签名区块
-    const proposerSignature = await signBlock(block.hash, config.privateKey);
+    const proposerSignature = await signBlock(block.hash, config.privateKey, getSigningDomain(env), 'proposal');
     block.proposerSignature = proposerSignature;
 
     // 步骤 4：并行请求验证者签名（Promise.all）
@@ -165,13 +197,13 @@ async function handleTrigger(
       time: validationTime,
     });
 
-    // 检查签名数（2/3）
-    if (votes.length < 2) {
+    // 法定人数由 commitBlock 按验证者集合判定，这里只排除无票的情况
+    if (votes.length === 0) {
       // 共识失败，释放锁
-      await releaseLock(doStub, false);
+      await releaseLock(doStub, false, round);
       return Response.json({
         success: false,
-        error: `Insufficient votes: ${votes.length}/2 required`,
+        error: 'No validator votes collected',
         debug: {
           validatorUrls: config.validatorUrls,
           validationTime,
@@ -189,7 +221,7 @@ async function handleTrigger(
 
     if (!commitResult.success) {
       // 提交失败，释放锁但不清空队列（可以重试）
-      await releaseLock(doStub, false);
+      await releaseLock(doStub, false, round);
       return Response.json({
         success: false,
         error: commitResult.error,
@@ -209,6 +241,7 @@ async function handleTrigger(
       success: true,
       block: {
         height: block.header.height,
+        round,
         hash: block.hash,
         txCount: block.transactions.length,
         timestamp: block.header.timestamp,
@@ -226,7 +259,9 @@ async function handleTrigger(
       const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
       const doStub = env.CONSENSUS_COORDINATOR.get(doId);
       await reportErrorToDO(doStub, errorMessage);
-      await releaseLock(doStub, false);
+      if (round !== undefined) {
+        await releaseLock(doStub, false, round);
+      }
     } catch (e) {
       // 忽略
     }
@@ -243,38 +278,45 @@ async function handleTrigger(
 // DO 操作封装
 // ============================================
 
-async function acquireLock(doStub: DurableObjectStub): Promise<{
+async function acquireLock(doStub: DurableObjectStub, proposerId: string): Promise<{
   success: boolean;
   queue?: { transactions: Transaction[]; processing: boolean };
+  view?: ProposerView;
+  retryAfterMs?: number;
   error?: string;
 }> {
   const response = await doStub.fetch('http://do/internal/acquire-lock', {
     method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ proposerId }),
   });
 
   return response.json() as Promise<{
     success: boolean;
     queue?: { transactions: Transaction[]; processing: boolean };
+    view?: ProposerView;
+    retryAfterMs?: number;
     error?: string;
   }>;
 }
 
-async function releaseLock(doStub: DurableObjectStub, clearQueue: boolean): Promise<void> {
+async function releaseLock(doStub: DurableObjectStub, clearQueue: boolean, round: number): Promise<void> {
   await doStub.fetch('http://do/internal/release-lock', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ clearQueue }),
+    body: JSON.stringify({ clearQueue, round }),
   });
 }
 
 async function packBlock(
   doStub: DurableObjectStub,
-  proposerId: string
+  proposerId: string,
+  round: number
 ): Promise<{ success: boolean; block?: Block; error?: string }> {
   const response = await doStub.fetch('http://do/internal/pack-block', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ proposerId }),
+    body: JSON.stringify({ proposerId, round }),
   });
 
   return response.json() as Promise<{ success: boolean; block?: Block; error?: string }>;
@@ -5,13 +5,15 @@
  * ============================================
  * 
  * 核心职责：
- * 1. 无状态验签（不存储任何状态）
+ * 1. 验签与区块结构检查（Worker 本身不存储状态）
  * 2. 暴露 /validate 接口，验证区块有效性
  * 3. 验证通过后返回 Ed25519 签名
+ * 4. 状态根在本验证者独立的状态副本（ValidatorReplica DO）上重新执行验证
+ * 5. 签名前在副本中登记 (height, round, blockHash)，同一高度只在更高轮次（view change）签署新区块
  * 
  * 设计原则：
- * - 完全无状态，便于水平扩展
- * - 所有验证逻辑独立，不依赖外部状态
+ * - Worker 无状态，状态只在自己的副本 DO 中
+ * - 所有验证逻辑独立，不依赖 Proposer 的世界状态
  * - 快速响应，验证时间 < 100ms
  */
 
@@ -22,11 +24,15 @@ import type {
   ValidateResponse,
   ValidatorEnv,
   ValidatorVote,
-  WorldState,
+  ReplicaMeta,
+  LastSignedRecord,
+  FeeConfig,
 } from '../types';
 
 import {
   verifySignature,
+  verifyBlockSignature,
+  verifyTransactionSignaturesBatch,
   signBlock,
   hashBlock,
   hashTransaction,
@@ -35,10 +41,15 @@ import {
   addHexPrefix,
   hexToBytes,
   importKeyPairFromPrivateKey,
-  sha256Hex,
-  objectToBytes,
 } from '../crypto';
 
+import { loadAuthorizedProposers, loadSignatureScheme, getSigningDomain, loadFeeConfig } from '../durable-objects/genesis';
+import { checkGasLimits } from '../execution';
+import { isStakingAction } from '../staking';
+import { scheduledProposer } from '../schedule';
+
+export { ValidatorReplica } from '../durable-objects/replica';
+
 // ============================================
 // 配置
 // ============================================
@@ -84,16 +95,33 @@ export default {
       return handleValidate(request, env, config);
     }
 
-    // 查询状态（仅返回节点信息）
+    // 查询状态（节点信息、状态副本进度与最近签名记录）
     if (path === '/status' && request.method === 'GET') {
+      const replicaResponse = await getReplicaStub(env, config).fetch('http://replica/status');
+      const { replica, lastSigned } = replicaResponse.ok
+        ? await replicaResponse.json() as { replica: ReplicaMeta | null; lastSigned: LastSignedRecord | null }
+        : { replica: null, lastSigned: null };
+
       return Response.json({
         nodeId: config.nodeId,
         role: 'validator',
         index: config.validatorIndex,
-        status: 'active',
+        status: replica?.haltedReason ? 'halted' : 'active',
+        replica,
+        lastSigned,
       });
     }
 
+    // 副本追块
+    if (path === '/sync' && request.method === 'POST') {
+      return getReplicaStub(env, config).fetch('http://replica/sync', { method: 'POST' });
+    }
+
+    // 重置副本并从创世（或受信检查点）重新追块（链被重置后副本会停止同步）
+    if (path === '/replica/reset' && request.method === 'POST') {
+      return getReplicaStub(env, config).fetch('http://replica/reset', { method: 'POST' });
+    }
+
     return Response.json({ error: 'Not found' }, { status: 404 });
   },
 };
@@ -158,12 +186,33 @@ async function handleValidate(
       return Response.json(response);
     }
 
+    // 防双签：先持久化 (height, round, blockHash)，登记被拒绝时不签名
+    const guardResponse = await getReplicaStub(env, config).fetch('http://replica/record-signature', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ height: block.header.height, round: block.header.round ?? 0, blockHash: block.hash }),
+    });
+    const guard = await guardResponse.json() as { success: boolean; error?: string };
+
+    if (!guard.success) {
+      console.warn(`[Validator ${config.nodeId}] Refused to sign:`, guard.error);
+
+      const response: ValidateResponse = {
+        valid: false,
+        validatorId: config.nodeId,
+        error: guard.error || 'Double-sign protection',
+        timestamp: Date.now(),
+      };
+
+      return Response.json(response);
+    }
+
     // 验证通过，签名区块
     let signature: string;
     let publicKey: string;
 
     try {
-      signature = await signBlock(block.hash, config.privateKey);
+      signature = await signBlock(block.hash, config.privateKey, getSigningDomain(env), 'vote');
     } catch (e: any) {
       console.error(`[Validator ${config.nodeId}] Signing failed:`, e);
       throw new Error(`Signing failed: ${e.message}`);
@@ -232,6 +281,8 @@ async function validateBlock(
     stateRoot: block.header.stateRoot,
     proposer: block.header.proposer,
     txCount: block.header.txCount,
+    round: block.header.round,
+    validatorSetHash: block.header.validatorSetHash,
   });
 
   console.log(`[Validator] Hash comparison:`, {
@@ -247,13 +298,32 @@ async function validateBlock(
     };
   }
 
-  // 2. 验证提议者签名
-  // 注意：生产环境需要从配置中获取提议者公钥
-  // 这里简化处理，假设签名有效
+  // 2. 验证提议者调度与签名（公钥来自创世 / KV 配置中的授权提议者）
   if (!block.proposerSignature) {
     return { valid: false, error: 'Missing proposer signature' };
   }
 
+  const proposers = await loadAuthorizedProposers(env.CONFIG_KV);
+  const scheme = await loadSignatureScheme(env.CONFIG_KV, env, block.header.height);
+  const proposer = proposers.find(p => p.id === block.header.proposer);
+  if (!proposer) {
+    return { valid: false, error: `Unknown proposer: ${block.header.proposer}` };
+  }
+
+  // 只接受该高度与轮次被调度的提议者（轮次的时间下限由状态副本按上一区块时间校验）
+  const round = block.header.round ?? 0;
+  const scheduled = scheduledProposer(proposers, block.header.height, round);
+  if (scheduled.id !== proposer.id) {
+    return {
+      valid: false,
+      error: `Proposer ${proposer.id} is not scheduled for height ${block.header.height} round ${round} (scheduled: ${scheduled.id})`
+    };
+  }
+
+  if (!(await verifyBlockSignature(block.hash, block.proposerSignature, proposer.publicKey, scheme, 'proposal'))) {
+    return { valid: false, error: `Invalid proposer signature for ${block.header.proposer}` };
+  }
+
   // 3. 验证交易数量
   if (block.transactions.length !== block.header.txCount) {
     return {
@@ -274,6 +344,7 @@ async function validateBlock(
         timestamp: tx.timestamp,
         gasPrice: tx.gasPrice.toString(),
         gasLimit: tx.gasLimit.toString(),
+        action: tx.action,
       });
     }));
 
@@ -283,10 +354,11 @@ async function validateBlock(
     }
   }
 
-  // 5. 验证每笔交易
+  // 5. 验证每笔交易（含 Gas 参数范围）
+  const feeConfig = await loadFeeConfig(env.CONFIG_KV);
   for (let i = 0; i < block.transactions.length; i++) {
     const tx = block.transactions[i];
-    const txResult = await validateTransaction(tx, i);
+    const txResult = await validateTransaction(tx, i, feeConfig);
 
     if (!txResult.valid) {
       return {
@@ -296,13 +368,46 @@ async function validateBlock(
     }
   }
 
-  // 6. 验证状态根（通过 DO 查询当前状态并模拟执行）
-  const stateResult = await validateStateRoot(block, env);
+  // 6. 批量验证交易签名（任何一笔无效即拒绝区块；激活高度之后不接受旧版载荷）
+  if (!scheme.allowLegacy) {
+    const legacy = block.transactions.findIndex(tx => !tx.signatureVersion);
+    if (legacy !== -1) {
+      return {
+        valid: false,
+        error: `Transaction ${legacy} invalid: Legacy signature payload not accepted at height ${block.header.height}`
+      };
+    }
+  }
+
+  const signatureResults = await verifyTransactionSignaturesBatch(block.transactions.map(tx => ({
+    from: tx.from,
+    to: tx.to,
+    amount: tx.amount.toString(),
+    nonce: tx.nonce,
+    timestamp: tx.timestamp,
+    gasPrice: tx.gasPrice.toString(),
+    gasLimit: tx.gasLimit.toString(),
+    action: tx.action,
+    signature: tx.signature,
+    signatureVersion: tx.signatureVersion,
+    publicKey: tx.publicKey,
+  })), scheme.domain);
+
+  const badSignature = signatureResults.indexOf(false);
+  if (badSignature !== -1) {
+    return {
+      valid: false,
+      error: `Transaction ${badSignature} invalid: Invalid signature`
+    };
+  }
+
+  // 7. 验证状态根（在本验证者的状态副本上模拟执行）
+  const stateResult = await validateStateRoot(block, env, config);
   if (!stateResult.valid) {
     return stateResult;
   }
 
-  // 7. 验证时间戳（不能是未来时间）
+  // 8. 验证时间戳（不能是未来时间）
   const now = Date.now();
   if (block.header.timestamp > now + 60000) { // 允许 1 分钟时钟偏差
     return { valid: false, error: 'Block timestamp is in the future' };
@@ -317,7 +422,8 @@ async function validateBlock(
 
 async function validateTransaction(
   tx: Transaction,
-  index: number
+  index: number,
+  feeConfig: FeeConfig
 ): Promise<ValidationResult> {
 
   // 1. 验证交易哈希
@@ -330,6 +436,7 @@ async function validateTransaction(
     timestamp: tx.timestamp,
     gasPrice: tx.gasPrice.toString(),
     gasLimit: tx.gasLimit.toString(),
+    action: tx.action,
   });
 
   if (computedHash !== tx.hash) {
@@ -341,25 +448,37 @@ async function validateTransaction(
     return { valid: false, error: 'Missing from/to address' };
   }
 
-  // 3. 验证金额
+  // 3. 验证公钥与发送方地址匹配
+  if (!tx.publicKey || publicKeyToAddress(tx.publicKey) !== tx.from.toLowerCase()) {
+    return { valid: false, error: 'Public key does not match sender address' };
+  }
+
+  // 4. 验证金额
   if (tx.amount < BigInt(0)) {
     return { valid: false, error: 'Negative amount' };
   }
 
-  // 4. 验证时间戳
+  // 5. 验证时间戳
   const now = Date.now();
   if (tx.timestamp > now + 60000) {
     return { valid: false, error: 'Transaction timestamp is in the future' };
   }
 
-  // 5. 验证签名存在
+  // 6. 验证 Gas 参数（手续费由状态副本执行时扣除）
+  const gasError = checkGasLimits(tx, feeConfig);
+  if (gasError) {
+    return { valid: false, error: gasError };
+  }
+
+  // 7. 验证签名存在（签名本身在 validateBlock 中批量验证）
   if (!tx.signature) {
     return { valid: false, error: 'Missing signature' };
   }
 
-  // 注意：完整的签名验证需要知道发送方公钥
-  // 在实际实现中，地址应该能从公钥恢复
-  // 这里简化处理
+  // 8. 质押操作必须使用版本化签名（旧版载荷不覆盖 action；质押规则由状态副本执行时检查）
+  if (isStakingAction(tx.action) && !tx.signatureVersion) {
+    return { valid: false, error: 'Staking transaction requires a versioned signature' };
+  }
 
   return { valid: true };
 }
@@ -368,93 +487,34 @@ async function validateTransaction(
 // 状态根验证
 // ============================================
 
+/**
+ * 本验证者的状态副本（每个 Validator Worker 独立的 DO 命名空间）
+ */
+function getReplicaStub(env: ValidatorEnv, config: ValidatorConfig): DurableObjectStub {
+  const replicaId = env.VALIDATOR_REPLICA.idFromName(config.nodeId);
+  return env.VALIDATOR_REPLICA.get(replicaId);
+}
+
 async function validateStateRoot(
   block: Block,
-  env: ValidatorEnv
+  env: ValidatorEnv,
+  config: ValidatorConfig
 ): Promise<ValidationResult> {
   try {
-    // 获取 DO stub 查询当前状态
-    const doId = env.CONSENSUS_COORDINATOR.idFromName('consensus-coordinator');
-    const doStub = env.CONSENSUS_COORDINATOR.get(doId);
-
-    // 查询当前世界状态
-    const stateResponse = await doStub.fetch('http://internal/state', {
-      method: 'GET',
+    // 在本地副本上重新执行（副本落后时先追块），不读取 Proposer 的世界状态
+    const response = await getReplicaStub(env, config).fetch('http://replica/validate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ block }, (key, value) =>
+        typeof value === 'bigint' ? value.toString() : value
+      ),
     });
 
-    if (!stateResponse.ok) {
-      return { valid: false, error: 'Failed to query world state' };
-    }
-
-    const rawState = await stateResponse.json() as any;
-    const worldState = rawState.worldState;
-
-    // 修复：还原 balances 中的 BigInt
-    worldState.balances = Object.fromEntries(
-      Object.entries(worldState.balances).map(([k, v]) => [k, BigInt(v as string)])
-    );
-
-    // 验证区块高度
-    if (block.header.height !== worldState.latestBlockHeight + 1) {
-      return {
-        valid: false,
-        error: `Invalid block height. Expected: ${worldState.latestBlockHeight + 1}, got: ${block.header.height}`
-      };
-    }
-
-    // 验证前一区块哈希
-    if (block.header.prevHash !== worldState.latestBlockHash) {
-      return { valid: false, error: 'Invalid previous block hash' };
-    }
-
-    // 模拟执行交易，计算新的状态根
-    const newBalances = { ...worldState.balances };
-    const newNonces = { ...worldState.nonces };
-
-    for (const tx of block.transactions) {
-      // 验证 nonce
-      const currentNonce = newNonces[tx.from] || 0;
-      if (tx.nonce !== currentNonce) {
-        return {
-          valid: false,
-          error: `Invalid nonce for ${tx.from}. Expected: ${currentNonce}, got: ${tx.nonce}`
-        };
-      }
-
-      // 验证余额
-      const fromBalance = newBalances[tx.from] || BigInt(0);
-      if (fromBalance < tx.amount) {
-        return {
-          valid: false,
-          error: `Insufficient balance for ${tx.from}. Has: ${fromBalance}, needs: ${tx.amount}`
-        };
-      }
-
-      // 执行转账
-      newBalances[tx.from] = fromBalance - tx.amount;
-      newBalances[tx.to] = (newBalances[tx.to] || BigInt(0)) + tx.amount;
-
-      // 更新 nonce
-      newNonces[tx.from] = currentNonce + 1;
-    }
-
-    // 计算新的状态根
-    const stateData = {
-      balances: Object.entries(newBalances).map(([k, v]) => [k, (v as bigint).toString()]),
-      nonces: newNonces,
-    };
-
-    // Use statically imported sha256Hex and objectToBytes
-    const computedStateRoot = await sha256Hex(objectToBytes(stateData));
-
-    if (computedStateRoot !== block.header.stateRoot) {
-      return {
-        valid: false,
-        error: `Invalid state root. Expected: ${computedStateRoot}, got: ${block.header.stateRoot}`
-      };
+    if (!response.ok) {
+      return { valid: false, error: 'Failed to query replica state' };
     }
 
-    return { valid: true };
+    return await response.json() as ValidationResult;
 
   } catch (error) {
     console.error('[Validator] State validation error:', error);
@@ -11,17 +11,40 @@
  * 4. Alarm 兜底 - 验证 5 分钟超时强制出块
  * 5. 并发提交 - 验证队列和锁机制
  * 6. 无效交易 - 验证余额不足、nonce 错误
+ * 7. 伪造提议者 - 验证 Validator 拒绝未授权 / 未被调度 / 签名无效的区块
+ * 8. 跨链重放 - 验证其他链签名域下的交易签名被拒绝
+ * 9. 手续费 - 验证金额 + 手续费超过余额的交易被拒绝；同 nonce 提高 gasPrice 替换待处理交易
+ * 10. 轻客户端 - 从创世区块验证区块头，并用状态证明核对账户余额
+ * 11. 区块奖励 - /supply 与创世配置的奖励减半计划一致；奖励按签名权重分给验证者，整除余数归提议者
+ * 12. 预挖锁仓 - /account/:address/vesting 与创世配置的释放计划一致；超出可用余额的转账入队被拒绝、执行时被跳过
+ * 13. 质押与委托 - 委托 / 解除委托 / 领取后 /validators 与 /account/:address/stake 的变化；验证者佣金只抽取委托人的奖励
+ * 14. 副本重建 - 含旧版状态根的链上，验证者副本从受信检查点重建并追上链头
+ * 15. View Change - 第 0 轮提议者收集投票后停滞，验证者仍为第 1 轮的接管提案签名，但拒绝回到第 0 轮
+ * 16. 验证者集合替换 - 网关把证书中的集合换成自己控制的集合（保留旧集合的真实签名），轻客户端拒绝
  */
 
 import type {
   Transaction,
   Block,
+  BlockHeader,
   SubmitTransactionRequest,
+  ValidateResponse,
   TestScenario,
   TestResult,
   TestStep,
   KeyPair,
+  SigningDomain,
+  SupplyResponse,
+  AccountVestingResponse,
+  AccountStakeResponse,
+  ValidatorsResponse,
+  TransactionAction,
+  ReplicaMeta,
+  CommitCertificate,
+  SignedHeader,
+  ValidatorSet,
 } from '../src/types';
+import { COMMIT_QUORUM_RULE } from '../src/types';
 
 import {
   generateKeyPair,
@@ -30,12 +53,39 @@ import {
   hashTransaction,
   getTestKeyPair,
   addHexPrefix,
+  hashBlock,
+  signBlock,
+  computeMerkleRoot,
+  hashValidatorSet,
+  SIGNATURE_VERSION,
 } from '../src/crypto';
 
+import {
+  DEFAULT_GENESIS_CONFIG,
+  calculateBlockReward,
+  calculateBlockRewards,
+  calculateTotalSupply,
+  getVestingSchedules,
+  calculateLockedBalances,
+  generateGenesisBlock,
+} from '../src/durable-objects/genesis';
+import { executeTransactions, transactionCost } from '../src/execution';
+import { createStakingState, delegationId, describeDelegationRewards, emptyDelegation } from '../src/staking';
+import { scheduledProposer, roundStartsAt } from '../src/schedule';
+import { LightClient } from '../src/light-client';
+import { buildValidatorSet } from '../src/quorum';
+
 // ============================================
 // 测试配置
 // ============================================
 
+/**
+ * 读取运行测试时的环境变量（Workers 类型环境下没有 process 的声明）
+ */
+function readEnv(name: string): string | undefined {
+  return (globalThis as { process?: { env: Record<string, string | undefined> } }).process?.env[name];
+}
+
 const TEST_CONFIG = {
   // API 端点
   API_URL: 'https://api.blockchain-mvp.workers.dev',
@@ -50,8 +100,22 @@ const TEST_CONFIG = {
     charlie: getTestKeyPair(2),
   },
 
+  // 提议者私钥（node-0 与测试密钥相同；其他提议者的私钥是 wrangler secret，运行前通过环境变量提供）
+  PROPOSER_KEYS: {
+    'node-0': getTestKeyPair(0).privateKey,
+    'node-3': readEnv('PROPOSER_2_PRIVATE_KEY'),
+  } as Record<string, string | undefined>,
+
+  // 签名域（与 wrangler.toml 中的 CHAIN_ID / NETWORK_ID 一致）
+  SIGNING_DOMAIN: { chainId: '1337', networkId: 'cloudflare-mvp-testnet' } as SigningDomain,
+
+  // 手续费参数（手续费 = gasPrice × gasLimit）
+  GAS_PRICE: DEFAULT_GENESIS_CONFIG.minGasPrice,
+  GAS_LIMIT: '21000',
+
   // 超时配置
   TIMEOUT_MS: 10000,
+  VIEW_CHANGE_TIMEOUT_MS: 3000, // 与共识配置 consensusTimeoutMs 一致
   CONSENSUS_TIMEOUT_MS: 5000,
 };
 
@@ -59,6 +123,15 @@ const TEST_CONFIG = {
 // 测试工具
 // ============================================
 
+/**
+ * 伪造提议者参数：直接指定 proposerId，或按当前高度的调度选取（slot）
+ */
+type ForgedProposerParams = {
+  proposerId?: string;
+  slot?: 'scheduled' | 'unscheduled';
+  expectedError: string;
+};
+
 class TestRunner {
   private results: TestResult[] = [];
   private requestId: string = '';
@@ -144,9 +217,51 @@ class TestRunner {
       case 'insufficientBalance':
         await this.testInsufficientBalance(step.params as { from: KeyPair; to: string; amount: string });
         break;
+      case 'feeExceedsBalance':
+        await this.testFeeExceedsBalance(step.params as { from: KeyPair; to: string; gasPrice: string });
+        break;
+      case 'replaceByFee':
+        await this.testReplaceByFee(step.params as { from: KeyPair; to: string });
+        break;
       case 'concurrentSubmit':
         await this.testConcurrentSubmit(step.params as { count: number; from: KeyPair });
         break;
+      case 'crossChainReplay':
+        await this.testCrossChainReplay(step.params as { from: KeyPair; to: string; chainId: string });
+        break;
+      case 'forgedProposer':
+        await this.testForgedProposer(step.params as ForgedProposerParams);
+        break;
+      case 'lightClientSync':
+        await this.testLightClientSync(step.params as { address: string });
+        break;
+      case 'validatorSetSplice':
+        await this.testValidatorSetSplice();
+        break;
+      case 'checkSupply':
+        await this.checkSupply();
+        break;
+      case 'rewardSplit':
+        await this.checkRewardSplit();
+        break;
+      case 'checkVesting':
+        await this.checkVesting(step.params as { address: string });
+        break;
+      case 'lockedTransfer':
+        await this.testLockedTransfer(step.params as { from: KeyPair; to: string });
+        break;
+      case 'commissionSplit':
+        await this.checkCommissionSplit();
+        break;
+      case 'stakeAndDelegate':
+        await this.testStakeAndDelegate(step.params as { from: KeyPair; validator: string });
+        break;
+      case 'replicaRebuild':
+        await this.testReplicaRebuild(step.params as { validatorUrl: string });
+        break;
+      case 'viewChangeTakeover':
+        await this.testViewChangeTakeover(step.params as { validatorUrl: string });
+        break;
       case 'triggerAlarm':
         await this.triggerAlarm();
         break;
@@ -167,8 +282,11 @@ class TestRunner {
     to: string;
     amount: string;
     nonce: number;
+    domain?: SigningDomain;
+    gasPrice?: string;
+    action?: TransactionAction;
   }): Promise<string> {
-    const { from, to, amount, nonce } = params;
+    const { from, to, amount, nonce, domain = TEST_CONFIG.SIGNING_DOMAIN, gasPrice = TEST_CONFIG.GAS_PRICE, action } = params;
 
     const timestamp = Date.now();
     const txData = {
@@ -177,15 +295,12 @@ class TestRunner {
       amount,
       nonce,
       timestamp,
+      gasPrice,
+      gasLimit: TEST_CONFIG.GAS_LIMIT,
+      action,
     };
 
-    const signature = await signTransaction({
-      from: txData.from,
-      to: txData.to,
-      amount: txData.amount,
-      nonce: txData.nonce,
-      timestamp: txData.timestamp,
-    }, from.privateKey);
+    const signature = await signTransaction(txData, from.privateKey, domain);
 
     const request: SubmitTransactionRequest = {
       from: txData.from,
@@ -195,6 +310,10 @@ class TestRunner {
       timestamp,
       signature,
       publicKey: from.publicKey,
+      signatureVersion: SIGNATURE_VERSION,
+      gasPrice: txData.gasPrice,
+      gasLimit: txData.gasLimit,
+      action,
     };
 
     const response = await fetch(`${TEST_CONFIG.API_URL}/tx/submit`, {
@@ -305,6 +424,441 @@ class TestRunner {
     }
   }
 
+  private async testCrossChainReplay(params: { from: KeyPair; to: string; chainId: string }): Promise<void> {
+    const { from, to, chainId } = params;
+
+    const address = publicKeyToAddress(from.publicKey);
+    const account = await this.getAccount(address);
+
+    // 其他链签名域下的有效签名，在本链不应通过验签
+    try {
+      await this.submitTransaction({
+        from,
+        to,
+        amount: '1',
+        nonce: account.nonce,
+        domain: { ...TEST_CONFIG.SIGNING_DOMAIN, chainId },
+      });
+      throw new Error('Should have failed with invalid signature');
+    } catch (error) {
+      // 预期失败
+      if (error instanceof Error && error.message.includes('Should have failed')) {
+        throw error;
+      }
+    }
+  }
+
+  private async testLightClientSync(params: { address: string }): Promise<void> {
+    const { address } = params;
+
+    // 受信的初始集合：创世验证者（高度 1 的证书按执行前的质押计算权重，即创世 stake）
+    const { validators, stakeWeightedQuorum } = DEFAULT_GENESIS_CONFIG;
+    const initialSet = buildValidatorSet(validators.map(v => v.publicKey), validators, stakeWeightedQuorum);
+    const client = new LightClient({
+      apiUrl: TEST_CONFIG.API_URL,
+      trustedValidatorSetHash: await hashValidatorSet(initialSet),
+      domain: TEST_CONFIG.SIGNING_DOMAIN,
+    });
+    const verified = await client.getVerifiedAccount(address);
+    const account = await this.getAccount(address);
+
+    // 网关返回的余额必须与已验证区块头 stateRoot 下的证明一致
+    if (verified.balance.toString() !== account.balance) {
+      throw new Error(`Verified balance mismatch. Proof: ${verified.balance}, API: ${account.balance}`);
+    }
+  }
+
+  /**
+   * 离线构造的链（自定义 fetch 充当网关）：
+   * - 替换：高度 2 的区块头承诺集合 A，A 的真实签名保留，证书中的集合换成攻击者的集合 B 并附上 B 的签名
+   * - 对照：区块头承诺新集合 C（与 A 重叠超过 1/3），由 C 签名的真实集合变化
+   */
+  private async testValidatorSetSplice(): Promise<void> {
+    const domain = TEST_CONFIG.SIGNING_DOMAIN;
+    const trusted = await Promise.all([0, 1, 2, 3].map(() => generateKeyPair()));
+    const attacker = await Promise.all([0, 1, 2, 3].map(() => generateKeyPair()));
+    const joining = await generateKeyPair();
+
+    const toSet = (keys: KeyPair[]) => buildValidatorSet(keys.map(k => k.publicKey), [], false);
+    const setA = toSet(trusted);
+    const setB = toSet(attacker);
+    const setC = toSet([...trusted.slice(0, 3), joining]);
+
+    const zero = '0x' + '0'.repeat(64);
+    const makeHeader = async (height: number, prevHash: string, validatorSet?: ValidatorSet) => {
+      const header: BlockHeader = {
+        height,
+        timestamp: 1700000000000 + height,
+        prevHash,
+        txRoot: zero,
+        stateRoot: zero,
+        proposer: 'node-0',
+        txCount: 0,
+        validatorSetHash: validatorSet ? await hashValidatorSet(validatorSet) : undefined,
+      };
+      return { header, hash: await hashBlock(header) };
+    };
+    const certify = async (height: number, hash: string, validatorSet: ValidatorSet, signers: KeyPair[]): Promise<CommitCertificate> => ({
+      height,
+      blockHash: hash,
+      validatorSetHash: await hashValidatorSet(validatorSet),
+      validatorSet,
+      quorumRule: COMMIT_QUORUM_RULE,
+      domain,
+      legacySignatures: false,
+      signatures: await Promise.all(signers.map(async (key, i) => ({
+        validatorId: `validator-${i}`,
+        validatorPubKey: key.publicKey,
+        signature: await signBlock(hash, key.privateKey, domain, 'vote'),
+        timestamp: Date.now(),
+      }))),
+    });
+
+    const genesis = await makeHeader(0, zero);
+    const first = await makeHeader(1, genesis.hash, setA);
+    const prefix: SignedHeader[] = [
+      { ...genesis, certificate: null },
+      { ...first, certificate: await certify(1, first.hash, setA, trusted) },
+    ];
+
+    const spliced = await makeHeader(2, first.hash, setA);
+    const splicedCertificate = await certify(2, spliced.hash, setB, [...trusted, ...attacker]);
+    const genuine = await makeHeader(2, first.hash, setC);
+    const genuineCertificate = await certify(2, genuine.hash, setC, [...trusted.slice(0, 3), joining]);
+
+    // 按网关的 JSON 格式（bigint 转为字符串）返回区块头
+    const serve = (headers: SignedHeader[]): typeof fetch => async () => new Response(
+      JSON.stringify(
+        { success: true, data: { headers, latestHeight: headers.length - 1 } },
+        (_key, value) => typeof value === 'bigint' ? value.toString() : value
+      ),
+      { headers: { 'Content-Type': 'application/json' } }
+    );
+    const clientFor = async (headers: SignedHeader[]) => new LightClient({
+      apiUrl: 'http://gateway',
+      trustedValidatorSetHash: await hashValidatorSet(setA),
+      domain,
+      fetch: serve(headers),
+    });
+
+    const splicedClient = await clientFor([...prefix, { ...spliced, certificate: splicedCertificate }]);
+    const rejection = await splicedClient.sync().then(() => undefined, (error: Error) => error);
+    if (!rejection?.message.includes('does not match the header commitment')) {
+      throw new Error(`Spliced validator set was not rejected: ${rejection?.message ?? 'accepted'}`);
+    }
+    if (splicedClient.latestHeader?.height !== 1) {
+      throw new Error(`Light client advanced past the spliced header to ${splicedClient.latestHeader?.height}`);
+    }
+
+    const genuineClient = await clientFor([...prefix, { ...genuine, certificate: genuineCertificate }]);
+    await genuineClient.sync();
+    if ((await hashValidatorSet(genuineClient.trustedValidatorSet!)) !== await hashValidatorSet(setC)) {
+      throw new Error('Light client did not follow the committed validator set change');
+    }
+  }
+
+  private async checkSupply(): Promise<void> {
+    const response = await fetch(`${TEST_CONFIG.API_URL}/supply`);
+    if (!response.ok) {
+      throw new Error(`Failed to get supply: ${response.status}`);
+    }
+    const supply = (await response.json() as { data: SupplyResponse }).data;
+
+    // 每个区块按减半计划铸造奖励，总量 = 初始供应量 + 已铸造奖励
+    const expected = calculateTotalSupply(supply.height, DEFAULT_GENESIS_CONFIG);
+    if (supply.totalSupply !== expected.toString()) {
+      throw new Error(`Total supply mismatch at height ${supply.height}. Expected: ${expected}, got: ${supply.totalSupply}`);
+    }
+    if (BigInt(supply.initialSupply) + BigInt(supply.minted) !== expected) {
+      throw new Error(`Minted amount inconsistent: ${supply.initialSupply} + ${supply.minted} != ${expected}`);
+    }
+    const nextReward = calculateBlockReward(supply.height + 1, DEFAULT_GENESIS_CONFIG);
+    if (supply.blockReward !== nextReward.toString()) {
+      throw new Error(`Block reward mismatch. Expected: ${nextReward}, got: ${supply.blockReward}`);
+    }
+  }
+
+  /**
+   * 区块奖励的精确分配（离线）：验证者得到按权重计算的完整份额，提议者只得到整除余数
+   */
+  private async checkRewardSplit(): Promise<void> {
+    const [validator1, validator2] = DEFAULT_GENESIS_CONFIG.validators;
+    const proposer = DEFAULT_GENESIS_CONFIG.proposers[0];
+    const addresses = {
+      proposer: publicKeyToAddress(proposer.publicKey),
+      validator1: publicKeyToAddress(validator1.publicKey),
+      validator2: publicKeyToAddress(validator2.publicKey),
+    };
+    const describe = (rewards: Map<string, bigint>) =>
+      JSON.stringify([...rewards].map(([address, amount]) => [address, amount.toString()]).sort());
+    const expectSplit = (label: string, rewards: Map<string, bigint>, expected: Record<string, bigint>) => {
+      const actual = describe(rewards);
+      const wanted = describe(new Map(Object.entries(expected).filter(([, amount]) => amount > BigInt(0))));
+      if (actual !== wanted) {
+        throw new Error(`${label} reward split mismatch. Expected: ${wanted}, got: ${actual}`);
+      }
+    };
+
+    // 不加权：1001 按 1:1 分给两名签名验证者，余数 1 归提议者
+    const equal = { ...DEFAULT_GENESIS_CONFIG, blockReward: '1001', stakeWeightedQuorum: false };
+    expectSplit('Equal weight', calculateBlockRewards(equal, 1, proposer.id, [validator1.publicKey, validator2.publicKey]), {
+      [addresses.validator1]: BigInt(500),
+      [addresses.validator2]: BigInt(500),
+      [addresses.proposer]: BigInt(1),
+    });
+
+    // 加权：已绑定质押 3:1，1000 整除，提议者没有奖励
+    const weighted = { ...DEFAULT_GENESIS_CONFIG, blockReward: '1000', stakeWeightedQuorum: true };
+    const bonded = new Map([[validator1.publicKey, BigInt(3000)], [validator2.publicKey, BigInt(1000)]]);
+    expectSplit('Stake weighted', calculateBlockRewards(weighted, 1, proposer.id, [validator1.publicKey, validator2.publicKey], bonded), {
+      [addresses.validator1]: BigInt(750),
+      [addresses.validator2]: BigInt(250),
+    });
+
+    // 没有有效签名者（如高度 1）：全部归提议者
+    expectSplit('No signers', calculateBlockRewards(equal, 1, proposer.id, []), {
+      [addresses.proposer]: BigInt(1001),
+    });
+  }
+
+  private async checkVesting(params: { address: string }): Promise<void> {
+    const response = await fetch(`${TEST_CONFIG.API_URL}/account/${params.address}/vesting`);
+    if (!response.ok) {
+      throw new Error(`Failed to get vesting: ${response.status}`);
+    }
+    const vesting = (await response.json() as { data: AccountVestingResponse }).data;
+
+    // 释放计划从创世区块头时间起算
+    const genesisResponse = await fetch(`${TEST_CONFIG.API_URL}/block/0`);
+    if (!genesisResponse.ok) {
+      throw new Error(`Failed to get genesis block: ${genesisResponse.status}`);
+    }
+    const genesis = (await genesisResponse.json() as { data: Block }).data;
+
+    // 按响应中的时间重新计算释放进度
+    const schedules = getVestingSchedules(DEFAULT_GENESIS_CONFIG, genesis.header.timestamp, params.address, vesting.timestamp);
+    const total = schedules.reduce((sum, s) => sum + BigInt(s.totalAmount), BigInt(0));
+    const unlocked = schedules.reduce((sum, s) => sum + BigInt(s.releasedAmount), BigInt(0));
+    if (vesting.total !== total.toString() || vesting.unlocked !== unlocked.toString()) {
+      throw new Error(`Vesting mismatch. Expected: ${unlocked}/${total}, got: ${vesting.unlocked}/${vesting.total}`);
+    }
+    if (BigInt(vesting.locked) + BigInt(vesting.unlocked) !== total) {
+      throw new Error(`Locked amount inconsistent: ${vesting.locked} + ${vesting.unlocked} != ${total}`);
+    }
+
+    // 可转出余额不得包含仍锁定的部分
+    const balance = BigInt(vesting.balance);
+    const locked = BigInt(vesting.locked);
+    const spendable = balance > locked ? balance - locked : BigInt(0);
+    if (vesting.spendable !== spendable.toString()) {
+      throw new Error(`Spendable balance mismatch. Expected: ${spendable}, got: ${vesting.spendable}`);
+    }
+  }
+
+  /**
+   * 转出可用余额 + 1（余额足够，只是其中一部分仍锁定）：
+   * - 入队被拒绝
+   * - 区块执行（commitBlock 与副本使用的 executeTransactions）跳过该交易并记录原因，同一 nonce 的有效交易照常执行
+   */
+  private async testLockedTransfer(params: { from: KeyPair; to: string }): Promise<void> {
+    const { from, to } = params;
+    const address = publicKeyToAddress(from.publicKey);
+
+    const response = await fetch(`${TEST_CONFIG.API_URL}/account/${address}/vesting`);
+    if (!response.ok) {
+      throw new Error(`Failed to get vesting: ${response.status}`);
+    }
+    const vesting = (await response.json() as { data: AccountVestingResponse }).data;
+    if (BigInt(vesting.locked) === BigInt(0)) {
+      throw new Error(`${address} has no locked premine left`);
+    }
+
+    const fee = BigInt(TEST_CONFIG.GAS_PRICE) * BigInt(TEST_CONFIG.GAS_LIMIT);
+    const overspend = BigInt(vesting.spendable) + BigInt(1) - fee;
+    const account = await this.getAccount(address);
+    try {
+      await this.submitTransaction({ from, to, amount: overspend.toString(), nonce: account.nonce });
+      throw new Error('Should have failed with locked balance');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Should have failed')) {
+        throw error;
+      }
+      if (!(error instanceof Error && error.message.includes('exceeds unlocked balance'))) {
+        throw new Error(`Unexpected error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // 执行：按默认创世配置在创世后一个月执行（仍在 cliff 内，Node 0 的锁仓分配全部锁定）
+    const genesisTime = Date.now();
+    const timestamp = genesisTime + 30 * 24 * 60 * 60 * 1000;
+    const locked = calculateLockedBalances(DEFAULT_GENESIS_CONFIG, genesisTime, timestamp);
+    const lockedAmount = locked.get(address) ?? BigInt(0);
+    const balance = DEFAULT_GENESIS_CONFIG.premine
+      .filter(allocation => allocation.address === address)
+      .reduce((sum, allocation) => sum + BigInt(allocation.amount), BigInt(0));
+
+    const recipient = publicKeyToAddress((await generateKeyPair()).publicKey);
+    const buildTx = async (amount: bigint): Promise<Transaction> => {
+      const txData = {
+        from: address,
+        to: recipient,
+        amount: amount.toString(),
+        nonce: 0,
+        timestamp,
+        gasPrice: TEST_CONFIG.GAS_PRICE,
+        gasLimit: TEST_CONFIG.GAS_LIMIT,
+      };
+      return {
+        ...txData,
+        hash: await hashTransaction({ ...txData, publicKey: from.publicKey }),
+        amount,
+        publicKey: from.publicKey,
+        gasPrice: BigInt(txData.gasPrice),
+        gasLimit: BigInt(txData.gasLimit),
+        signature: await signTransaction(txData, from.privateKey, TEST_CONFIG.SIGNING_DOMAIN),
+        signatureVersion: SIGNATURE_VERSION,
+      };
+    };
+    const blocked = await buildTx(balance - lockedAmount + BigInt(1) - fee);
+    const allowed = await buildTx(BigInt(1000));
+
+    const accounts = new Map([[address, { balance, nonce: 0, lastUpdated: genesisTime }]]);
+    const { executed, failed } = executeTransactions(accounts, [blocked, allowed], timestamp, { height: 1, locked });
+    if (failed.length !== 1 || failed[0].tx.hash !== blocked.hash || !failed[0].error.includes('exceeds unlocked balance')) {
+      throw new Error(`Locked transfer not skipped at execution: ${JSON.stringify(failed.map(f => f.error))}`);
+    }
+    if (executed.length !== 1 || executed[0].hash !== allowed.hash) {
+      throw new Error('Transfer within the unlocked balance was not executed');
+    }
+    const expected = balance - transactionCost(allowed);
+    if (accounts.get(address)!.balance !== expected) {
+      throw new Error(`Sender balance after execution: ${accounts.get(address)!.balance}, expected: ${expected}`);
+    }
+  }
+
+  /**
+   * 验证者奖励池的精确分配（离线）：commission% 计入验证者余额，其余按已绑定质押分给验证者的创世质押与委托人
+   */
+  private async checkCommissionSplit(): Promise<void> {
+    const validator = DEFAULT_GENESIS_CONFIG.validators[0];
+    const validatorAddress = publicKeyToAddress(validator.publicKey);
+    const delegator = publicKeyToAddress((await generateKeyPair()).publicKey);
+
+    // 创世质押 1000 CFT + 委托 3000 CFT，奖励 1 CFT，佣金 10%
+    const stake = BigInt(validator.stake);
+    const delegated = stake * BigInt(3);
+    const reward = BigInt('1000000000000000000');
+    const id = delegationId(delegator, validatorAddress);
+    const staking = createStakingState(
+      DEFAULT_GENESIS_CONFIG.validators,
+      new Map([[validatorAddress, { delegated, rewardPerShare: BigInt(0) }]]),
+      new Map([[id, { ...emptyDelegation(), amount: delegated }]]),
+      DEFAULT_GENESIS_CONFIG.unbondingBlocks
+    );
+
+    const accounts = new Map<string, { balance: bigint; nonce: number; lastUpdated: number }>();
+    executeTransactions(accounts, [], Date.now(), { height: 1, rewards: new Map([[validatorAddress, reward]]), staking });
+
+    const commission = reward * BigInt(validator.commission) / BigInt(100);
+    const pool = reward - commission;
+    const expected = {
+      commission,
+      delegatorRewards: pool * delegated / (stake + delegated),
+      validatorRewards: pool * stake / (stake + delegated),
+    };
+    const actual = {
+      commission: accounts.get(validatorAddress)?.balance ?? BigInt(0),
+      delegatorRewards: describeDelegationRewards(staking, delegator, validatorAddress),
+      validatorRewards: describeDelegationRewards(staking, validatorAddress, validatorAddress),
+    };
+    for (const key of Object.keys(expected) as Array<keyof typeof expected>) {
+      if (actual[key] !== expected[key]) {
+        throw new Error(`Commission split mismatch for ${key}. Expected: ${expected[key]}, got: ${actual[key]}`);
+      }
+    }
+    if (expected.commission + expected.delegatorRewards + expected.validatorRewards !== reward) {
+      throw new Error('Commission split does not add up to the reward');
+    }
+  }
+
+  private async testStakeAndDelegate(params: { from: KeyPair; validator: string }): Promise<void> {
+    const { from } = params;
+    const validator = params.validator.toLowerCase();
+    const address = publicKeyToAddress(from.publicKey);
+
+    const bondedBefore = BigInt((await this.getStake(address)).delegations.find(d => d.validator === validator)?.amount ?? '0');
+    const delegatedBefore = BigInt((await this.getValidator(validator)).delegated);
+
+    // 非验证者不能 stake，只能 delegate
+    let nonce = (await this.getAccount(address)).nonce;
+    try {
+      await this.submitTransaction({ from, to: validator, amount: '1000', nonce, action: 'stake' });
+      throw new Error('Should have failed with only validator can stake');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Should have failed')) {
+        throw error;
+      }
+      if (!(error instanceof Error && error.message.includes('Only validator'))) {
+        throw new Error(`Unexpected error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // 委托：委托数量与验证者的委托总量同时增加
+    await this.waitForConfirmation({
+      txHash: await this.submitTransaction({ from, to: validator, amount: '1000', nonce: nonce++, action: 'delegate' }),
+    });
+    const bonded = BigInt((await this.getStake(address)).delegations.find(d => d.validator === validator)?.amount ?? '0');
+    if (bonded !== bondedBefore + BigInt(1000)) {
+      throw new Error(`Delegation mismatch. Expected: ${bondedBefore + BigInt(1000)}, got: ${bonded}`);
+    }
+    const delegated = BigInt((await this.getValidator(validator)).delegated);
+    if (delegated !== delegatedBefore + BigInt(1000)) {
+      throw new Error(`Validator delegated mismatch. Expected: ${delegatedBefore + BigInt(1000)}, got: ${delegated}`);
+    }
+
+    // 解除委托：进入解绑期，releaseHeight = 所在区块高度 + unbondingBlocks
+    const undelegateHash = await this.submitTransaction({ from, to: validator, amount: '400', nonce: nonce++, action: 'undelegate' });
+    await this.waitForConfirmation({ txHash: undelegateHash });
+    const { blockHeight } = (await this.getTransaction(undelegateHash))!;
+    const { unbondingBlocks } = await this.getValidators();
+    const delegation = (await this.getStake(address)).delegations.find(d => d.validator === validator);
+    if (BigInt(delegation?.amount ?? '0') !== bonded - BigInt(400)) {
+      throw new Error(`Undelegate mismatch. Expected: ${bonded - BigInt(400)}, got: ${delegation?.amount}`);
+    }
+    if (!delegation?.unbonding.some(e => e.amount === '400' && e.releaseHeight === blockHeight! + unbondingBlocks)) {
+      throw new Error(`Missing unbonding entry at height ${blockHeight! + unbondingBlocks}: ${JSON.stringify(delegation?.unbonding)}`);
+    }
+
+    // 领取：没有可领取的数量时同样成功（只支付手续费）
+    await this.waitForConfirmation({
+      txHash: await this.submitTransaction({ from, to: validator, amount: '0', nonce: nonce++, action: 'claim' }),
+    });
+  }
+
+  private async getStake(address: string): Promise<AccountStakeResponse> {
+    const response = await fetch(`${TEST_CONFIG.API_URL}/account/${address}/stake`);
+    if (!response.ok) {
+      throw new Error(`Failed to get stake: ${response.status}`);
+    }
+    return (await response.json() as { data: AccountStakeResponse }).data;
+  }
+
+  private async getValidators(): Promise<ValidatorsResponse> {
+    const response = await fetch(`${TEST_CONFIG.API_URL}/validators`);
+    if (!response.ok) {
+      throw new Error(`Failed to get validators: ${response.status}`);
+    }
+    return (await response.json() as { data: ValidatorsResponse }).data;
+  }
+
+  private async getValidator(address: string): Promise<ValidatorsResponse['validators'][number]> {
+    const validator = (await this.getValidators()).validators.find(v => v.address === address);
+    if (!validator) {
+      throw new Error(`Validator ${address} not found`);
+    }
+    return validator;
+  }
+
   private async testInsufficientBalance(params: { from: KeyPair; to: string; amount: string }): Promise<void> {
     const { from, to, amount } = params;
 
@@ -322,6 +876,62 @@ class TestRunner {
     }
   }
 
+  private async testFeeExceedsBalance(params: { from: KeyPair; to: string; gasPrice: string }): Promise<void> {
+    const { from, to, gasPrice } = params;
+
+    const address = publicKeyToAddress(from.publicKey);
+    const account = await this.getAccount(address);
+
+    // 转出全部余额后无力支付手续费
+    try {
+      await this.submitTransaction({ from, to, amount: account.balance, nonce: account.nonce, gasPrice });
+      throw new Error('Should have failed with insufficient balance for fee');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Should have failed')) {
+        throw error;
+      }
+      if (!(error instanceof Error && error.message.includes('Insufficient balance'))) {
+        throw new Error(`Unexpected error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+
+  private async testReplaceByFee(params: { from: KeyPair; to: string }): Promise<void> {
+    const { from, to } = params;
+
+    const address = publicKeyToAddress(from.publicKey);
+    const account = await this.getAccount(address);
+
+    // 留出 nonce 缺口，保证待替换的交易不会先被打包
+    const nonce = account.nonce + 1;
+    const gasPrice = BigInt(TEST_CONFIG.GAS_PRICE);
+    const bumpedPrice = (gasPrice * BigInt(2) + BigInt(1)).toString();
+    const original = await this.submitTransaction({ from, to, amount: '1', nonce });
+    const replacement = await this.submitTransaction({ from, to, amount: '1', nonce, gasPrice: bumpedPrice });
+
+    const receipt = await this.getTransaction(original);
+    if (receipt?.status !== 'dropped' || receipt.replacedBy !== replacement) {
+      throw new Error(`Replaced transaction not reported as dropped: ${JSON.stringify(receipt)}`);
+    }
+
+    // 不提高 gasPrice 的替换被拒绝
+    try {
+      await this.submitTransaction({ from, to, amount: '2', nonce, gasPrice: bumpedPrice });
+      throw new Error('Should have failed with replacement gas price too low');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('Should have failed')) {
+        throw error;
+      }
+      if (!(error instanceof Error && error.message.includes('Replacement gas price too low'))) {
+        throw new Error(`Unexpected error: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    // 补齐缺口，替换后的交易随之确认
+    await this.submitTransaction({ from, to, amount: '1', nonce: account.nonce });
+    await this.waitForConfirmation({ txHash: replacement });
+  }
+
   private async testConcurrentSubmit(params: { count: number; from: KeyPair }): Promise<void> {
     const { count, from } = params;
 
@@ -345,6 +955,182 @@ class TestRunner {
     console.log(`Concurrent submit: ${successCount}/${count} succeeded`);
   }
 
+  private async testForgedProposer(params: ForgedProposerParams): Promise<void> {
+    const { slot, expectedError } = params;
+
+    // 在最新区块之上构造空块，用随机密钥冒充提议者签名
+    const response = await fetch(`${TEST_CONFIG.API_URL}/block/latest`);
+    if (!response.ok) {
+      throw new Error(`Failed to get latest block: ${response.status}`);
+    }
+    const latest = (await response.json() as { data: Block }).data;
+    const height = latest.header.height + 1;
+
+    // 按第 0 轮调度选取提议者：scheduled 为轮到的提议者，unscheduled 为下一轮的提议者
+    const proposerId = slot
+      ? scheduledProposer(DEFAULT_GENESIS_CONFIG.proposers, height, slot === 'scheduled' ? 0 : 1).id
+      : params.proposerId!;
+
+    const header: BlockHeader = {
+      height,
+      timestamp: Date.now(),
+      prevHash: latest.hash,
+      txRoot: await computeMerkleRoot([]),
+      stateRoot: latest.header.stateRoot,
+      proposer: proposerId,
+      txCount: 0,
+    };
+    const hash = await hashBlock(header);
+    const forger = await generateKeyPair();
+
+    const block: Block = {
+      header,
+      hash,
+      transactions: [],
+      proposerSignature: await signBlock(hash, forger.privateKey, TEST_CONFIG.SIGNING_DOMAIN, 'proposal'),
+      votes: [],
+    };
+
+    const validateResponse = await fetch(`${TEST_CONFIG.VALIDATOR1_URL}/validate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ block, proposerId }),
+    });
+    const result = await validateResponse.json() as ValidateResponse;
+
+    if (result.valid) {
+      throw new Error(`Validator accepted block from forged proposer ${proposerId}`);
+    }
+    if (!result.error?.includes(expectedError)) {
+      throw new Error(`Unexpected rejection reason: ${result.error}`);
+    }
+  }
+
+  private async testReplicaRebuild(params: { validatorUrl: string }): Promise<void> {
+    const { validatorUrl } = params;
+
+    // 创世区块的状态根不是本地计算的状态树根，说明链在状态树上线前就已存在（旧版状态根）
+    const genesisResponse = await fetch(`${TEST_CONFIG.API_URL}/block/0`);
+    if (!genesisResponse.ok) {
+      throw new Error(`Failed to get genesis block: ${genesisResponse.status}`);
+    }
+    const genesis = (await genesisResponse.json() as { data: Block }).data;
+    const legacyRoots = genesis.header.stateRoot !== (await generateGenesisBlock(DEFAULT_GENESIS_CONFIG)).header.stateRoot;
+
+    // 清空副本并重新追块，不得停在旧版状态根上
+    const resetResponse = await fetch(`${validatorUrl}/replica/reset`, { method: 'POST' });
+    if (!resetResponse.ok) {
+      throw new Error(`Replica reset failed: ${await resetResponse.text()}`);
+    }
+
+    const statusResponse = await fetch(`${validatorUrl}/status`);
+    const { replica } = await statusResponse.json() as { replica: ReplicaMeta | null };
+    if (!replica || replica.haltedReason) {
+      throw new Error(`Replica halted after reset: ${replica?.haltedReason}`);
+    }
+    if (legacyRoots && replica.checkpointHeight === undefined) {
+      throw new Error('Chain has legacy state roots but the replica did not bootstrap from a checkpoint');
+    }
+
+    // 检查点之后的区块头状态根与副本本地重算的一致
+    if (replica.height > (replica.checkpointHeight ?? 0)) {
+      const blockResponse = await fetch(`${TEST_CONFIG.API_URL}/block/${replica.height}`);
+      const block = (await blockResponse.json() as { data: Block }).data;
+      if (block.header.stateRoot !== replica.stateRoot) {
+        throw new Error(`Replica state root mismatch at height ${replica.height}. Replica: ${replica.stateRoot}, header: ${block.header.stateRoot}`);
+      }
+    }
+  }
+
+  private async testViewChangeTakeover(params: { validatorUrl: string }): Promise<void> {
+    const { validatorUrl } = params;
+
+    // 在副本的链头之上构造空块，状态根即副本当前的状态根
+    await fetch(`${validatorUrl}/sync`, { method: 'POST' });
+    const response = await fetch(`${TEST_CONFIG.API_URL}/block/latest`);
+    if (!response.ok) {
+      throw new Error(`Failed to get latest block: ${response.status}`);
+    }
+    const latest = (await response.json() as { data: Block }).data;
+    const { replica } = await (await fetch(`${validatorUrl}/status`)).json() as { replica: ReplicaMeta | null };
+    if (!replica || replica.haltedReason || replica.height !== latest.header.height) {
+      throw new Error(`Replica not at chain head ${latest.header.height}: ${JSON.stringify(replica)}`);
+    }
+    const height = latest.header.height + 1;
+    const { validatorSetHash } = await this.getValidators();
+
+    // 由该轮被调度的提议者签名，时间不早于该轮的开始时间（early 时不等待，直接把区块时间写成该轮开始时间）
+    const propose = async (round: number, early = false): Promise<Block> => {
+      const proposer = scheduledProposer(DEFAULT_GENESIS_CONFIG.proposers, height, round);
+      const privateKey = TEST_CONFIG.PROPOSER_KEYS[proposer.id];
+      if (!privateKey) {
+        throw new Error(`Missing private key for proposer ${proposer.id} (set PROPOSER_2_PRIVATE_KEY)`);
+      }
+
+      const startsAt = roundStartsAt(latest.header.timestamp, round, TEST_CONFIG.VIEW_CHANGE_TIMEOUT_MS);
+      if (!early && startsAt > Date.now()) {
+        await this.wait(startsAt - Date.now());
+      }
+
+      const header: BlockHeader = {
+        height,
+        timestamp: Math.max(Date.now(), startsAt),
+        prevHash: latest.hash,
+        txRoot: await computeMerkleRoot([]),
+        stateRoot: replica.stateRoot,
+        proposer: proposer.id,
+        txCount: 0,
+        round,
+        validatorSetHash,
+      };
+      const hash = await hashBlock(header);
+      return {
+        header,
+        hash,
+        transactions: [],
+        proposerSignature: await signBlock(hash, privateKey, TEST_CONFIG.SIGNING_DOMAIN, 'proposal'),
+        votes: [],
+      };
+    };
+    const validate = async (block: Block): Promise<ValidateResponse> => {
+      const validateResponse = await fetch(`${validatorUrl}/validate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ block, proposerId: block.header.proposer }),
+      });
+      return await validateResponse.json() as ValidateResponse;
+    };
+
+    // 第 0 轮：验证者投票，之后提议者停滞，区块不提交
+    const round0 = await propose(0);
+    const vote0 = await validate(round0);
+    if (!vote0.valid) {
+      throw new Error(`Round 0 proposal rejected: ${vote0.error}`);
+    }
+
+    // 第 1 轮：下一位提议者接管，区块哈希不同，同一验证者必须能够再次投票
+    const round1 = await propose(1);
+    const vote1 = await validate(round1);
+    if (!vote1.valid) {
+      throw new Error(`Round 1 takeover rejected: ${vote1.error}`);
+    }
+
+    // 第 2 轮尚未开始：区块时间写到未来也不能提前接管
+    const early = await validate(await propose(2, true));
+    if (early.valid || !early.error?.includes('has not started')) {
+      throw new Error(`Early round 2 proposal not rejected by the local clock: ${JSON.stringify(early)}`);
+    }
+
+    // 回到更低的轮次仍被拒绝
+    const revote = await validate(round0);
+    if (revote.valid) {
+      throw new Error('Validator signed round 0 again after voting in round 1');
+    }
+    if (!revote.error?.includes('Double-sign protection')) {
+      throw new Error(`Unexpected rejection reason: ${revote.error}`);
+    }
+  }
+
   private async triggerAlarm(): Promise<void> {
     // 触发 DO Alarm（需要内部接口）
     const response = await fetch(`${TEST_CONFIG.API_URL}/internal/trigger-alarm`, {
@@ -375,14 +1161,14 @@ class TestRunner {
     return result.data;
   }
 
-  private async getTransaction(txHash: string): Promise<{ status: string; blockHeight?: number } | null> {
+  private async getTransaction(txHash: string): Promise<{ status: string; blockHeight?: number; replacedBy?: string } | null> {
     const response = await fetch(`${TEST_CONFIG.API_URL}/tx/${txHash}`);
 
     if (!response.ok) {
       return null;
     }
 
-    const result = await response.json() as { data?: { status: string; blockHeight?: number } };
+    const result = await response.json() as { data?: { status: string; blockHeight?: number; replacedBy?: string } };
     return result.data || null;
   }
 
@@ -447,6 +1233,79 @@ const scenarios: TestScenario[] = [
     ],
     expectedResult: 'Transaction confirmed within 3 seconds',
   },
+  {
+    name: 'Light Client Sync',
+    description: 'Verify headers from genesis and check a balance against the verified state root',
+    steps: [
+      {
+        action: 'lightClientSync',
+        params: { address: publicKeyToAddress(TEST_CONFIG.TEST_KEYS.bob.publicKey) },
+      },
+    ],
+    expectedResult: 'All headers verified and balance matches the state proof',
+  },
+  {
+    name: 'Validator Set Splice',
+    description: 'A gateway swaps the certificate validator set for its own while keeping the old set\'s genuine signatures',
+    steps: [
+      {
+        action: 'validatorSetSplice',
+        params: {},
+      },
+    ],
+    expectedResult: 'Light client rejects the spliced set and accepts a set change committed in the header',
+  },
+  {
+    name: 'Token Supply',
+    description: 'Check /supply against the genesis block reward and halving schedule',
+    steps: [
+      {
+        action: 'checkSupply',
+        params: {},
+      },
+    ],
+    expectedResult: 'Total supply equals initial supply plus scheduled block rewards',
+  },
+  {
+    name: 'Block Reward Split',
+    description: 'Split a block reward between the signing validators and the proposer',
+    steps: [
+      {
+        action: 'rewardSplit',
+        params: {},
+      },
+    ],
+    expectedResult: 'Validators receive their full weighted shares and the proposer only the remainder',
+  },
+  {
+    name: 'Premine Vesting',
+    description: 'Check /account/:address/vesting against the genesis premine schedules',
+    steps: [
+      {
+        action: 'checkVesting',
+        params: { address: DEFAULT_GENESIS_CONFIG.premine[0].address },
+      },
+      {
+        action: 'checkVesting',
+        params: { address: publicKeyToAddress(TEST_CONFIG.TEST_KEYS.alice.publicKey) },
+      },
+    ],
+    expectedResult: 'Locked and spendable amounts follow the genesis premine schedules',
+  },
+  {
+    name: 'Locked Premine Transfer',
+    description: 'Send one more than the spendable balance from an account with a locked premine allocation',
+    steps: [
+      {
+        action: 'lockedTransfer',
+        params: {
+          from: TEST_CONFIG.TEST_KEYS.alice,
+          to: publicKeyToAddress(TEST_CONFIG.TEST_KEYS.bob.publicKey),
+        },
+      },
+    ],
+    expectedResult: 'Rejected at admission and skipped at execution while a transfer within the unlocked balance succeeds',
+  },
   {
     name: 'Batch Transactions (20 Txs)',
     description: 'Submit 20 transactions in batch and verify all get confirmed',
@@ -502,6 +1361,21 @@ const scenarios: TestScenario[] = [
     ],
     expectedResult: 'Transaction rejected with nonce error',
   },
+  {
+    name: 'Cross-Chain Replay',
+    description: 'Submit transaction signed for another chain ID',
+    steps: [
+      {
+        action: 'crossChainReplay',
+        params: {
+          from: TEST_CONFIG.TEST_KEYS.alice,
+          to: publicKeyToAddress(TEST_CONFIG.TEST_KEYS.bob.publicKey),
+          chainId: '13371337',
+        },
+      },
+    ],
+    expectedResult: 'Transaction rejected with invalid signature',
+  },
   {
     name: 'Insufficient Balance',
     description: 'Submit transaction with amount exceeding balance',
@@ -517,6 +1391,35 @@ const scenarios: TestScenario[] = [
     ],
     expectedResult: 'Transaction rejected with insufficient balance error',
   },
+  {
+    name: 'Fee Exceeds Balance',
+    description: 'Send the whole balance with a non-zero gas price so amount + fee exceeds the balance',
+    steps: [
+      {
+        action: 'feeExceedsBalance',
+        params: {
+          from: TEST_CONFIG.TEST_KEYS.alice,
+          to: publicKeyToAddress(TEST_CONFIG.TEST_KEYS.bob.publicKey),
+          gasPrice: '1',
+        },
+      },
+    ],
+    expectedResult: 'Transaction rejected: amount + fee exceeds balance',
+  },
+  {
+    name: 'Replace By Fee',
+    description: 'Replace a pending transaction with the same nonce and a higher gas price',
+    steps: [
+      {
+        action: 'replaceByFee',
+        params: {
+          from: TEST_CONFIG.TEST_KEYS.alice,
+          to: publicKeyToAddress(TEST_CONFIG.TEST_KEYS.bob.publicKey),
+        },
+      },
+    ],
+    expectedResult: 'Original reported as dropped, underpriced replacement rejected, replacement confirmed',
+  },
   {
     name: 'Concurrent Submission',
     description: 'Submit multiple transactions concurrently',
@@ -535,6 +1438,45 @@ const scenarios: TestScenario[] = [
     ],
     expectedResult: 'All valid transactions processed without conflicts',
   },
+  {
+    name: 'Forged Proposer',
+    description: 'Validators reject blocks signed by unauthorized keys or proposed out of turn',
+    steps: [
+      {
+        action: 'forgedProposer',
+        params: {
+          slot: 'scheduled',
+          expectedError: 'Invalid proposer signature',
+        },
+      },
+      {
+        action: 'forgedProposer',
+        params: {
+          slot: 'unscheduled',
+          expectedError: 'is not scheduled',
+        },
+      },
+      {
+        action: 'forgedProposer',
+        params: {
+          proposerId: 'node-unknown',
+          expectedError: 'Unknown proposer',
+        },
+      },
+    ],
+    expectedResult: 'Block rejected with proposer error, no signature returned',
+  },
+  {
+    name: 'Replica Rebuild',
+    description: 'Reset a validator replica and rebuild it, from the trusted checkpoint if the chain has legacy state roots',
+    steps: [
+      {
+        action: 'replicaRebuild',
+        params: { validatorUrl: TEST_CONFIG.VALIDATOR1_URL },
+      },
+    ],
+    expectedResult: 'Replica catches up without halting and matches the header state root',
+  },
   {
     name: 'Alarm Fallback',
     description: 'Test alarm trigger for stuck transactions',
@@ -559,6 +1501,42 @@ const scenarios: TestScenario[] = [
     ],
     expectedResult: 'Block committed via alarm fallback',
   },
+  {
+    name: 'Staking & Delegation',
+    description: 'Delegate to a genesis validator, undelegate into the unbonding period and claim',
+    steps: [
+      {
+        action: 'stakeAndDelegate',
+        params: {
+          from: TEST_CONFIG.TEST_KEYS.alice,
+          validator: DEFAULT_GENESIS_CONFIG.validators[0].address,
+        },
+      },
+    ],
+    expectedResult: 'Bonded stake, validator totals and unbonding entries follow the staking transactions',
+  },
+  {
+    name: 'Validator Commission',
+    description: 'Split a validator reward share between the validator commission, its genesis stake and a delegator',
+    steps: [
+      {
+        action: 'commissionSplit',
+        params: {},
+      },
+    ],
+    expectedResult: 'The validator keeps commission% and the rest is shared pro rata by bonded stake',
+  },
+  {
+    name: 'View Change Takeover',
+    description: 'Round 0 proposer stalls after collecting votes; the round 1 proposer takes over the same height',
+    steps: [
+      {
+        action: 'viewChangeTakeover',
+        params: { validatorUrl: TEST_CONFIG.VALIDATOR1_URL },
+      },
+    ],
+    expectedResult: 'Validator signs the round 1 block, refuses a round 2 block before its start time and refuses to sign round 0 again',
+  },
 ];
 
 // ============================================